@@ -15,12 +15,29 @@ import FileAnalysisView from './views/FileAnalysisView';
 import HistoryView from './views/HistoryView';
 import SettingsView from './views/SettingsView';
 import AuthModal from './components/AuthModal';
+import VaultLockScreen from './components/VaultLockScreen';
+import SearchPalette from './components/SearchPalette';
 import CodeView from './views/CodeView';
 import VaultExplorerView from './views/VaultExplorerView';
 import VideoToLyricsView from './views/VideoToLyricsView';
 import AppBuilderView from './views/AppBuilderView';
 import AppAnalystView from './views/AppAnalystView';
 import ApiArchitectView from './views/ApiArchitectView';
+import MemoryView from './views/MemoryView';
+import { GUEST_NAMESPACE, loadSessions, adoptGuestSessions, createSessionWriter } from './services/sessionService';
+import { loadMemories, saveMemories, adoptGuestMemories, rememberFact } from './services/memoryService';
+import { ToolId, setModelPreferences, onModelFallback, getModelInfo } from './services/modelRegistry';
+import { activateUsageLedger, setUsageBudget, setPriceOverrides, onUsageRecorded, ModelPrice } from './services/usageService';
+import { startSession, restoreSession, endSession, switchProfile, updateStoredUser } from './services/accountService';
+import { loadVaultEncryption, isVaultEncrypted, isVaultLocked, lockVault, onVaultLockChange } from './services/storageService';
+import { useIdleTimer } from './hooks/useIdleTimer';
+import { VaultBackup, ImportMode, importVaultBackup } from './services/backupService';
+import { activateArtifactOwner, onArtifactsChanged } from './services/artifactRepository';
+import { RetentionPolicy, scheduleRetention } from './services/retentionService';
+import { searchIndex, SearchResult, SearchTarget } from './services/searchIndex';
+import { revealMessage } from './services/conversationService';
+import { activateEmbeddings, deactivateEmbeddings, setSemanticSearchEnabled, trackSearchDocument } from './services/embeddingService';
+import { DEFAULT_VIDEO_FRAME_RATE } from './services/videoCapture';
 
 export interface AppSettings {
   highPerformance: boolean;
@@ -35,6 +52,15 @@ export interface AppSettings {
   blurIntensity: number;
   showPetals: boolean;
   darkMode: boolean;
+  models?: Partial<Record<ToolId, string>>; // Per-tool model choice; unset tools use the registry default
+  autoModelFallback?: boolean;
+  usageBudget?: number; // Monthly credit cap; requests are blocked once it is spent
+  modelPrices?: Record<string, Partial<ModelPrice>>; // Overrides for the built-in per-model credit prices
+  vaultAutoLockMinutes?: number; // Idle time before an encrypted vault locks; 0 never locks
+  retention?: RetentionPolicy; // Per-folder limits enforced by the background cleanup pass
+  semanticSearch?: boolean; // Opt-in: embeds saved text through the provider for search by meaning
+  semanticSearchEncrypted?: boolean; // The opt-in also covers a passphrase-protected vault
+  liveVideoFrameRate?: number; // Frames per second sent from a shared camera or screen during Live calls
 }
 
 export interface BuilderState {
@@ -52,6 +78,34 @@ const WALLPAPER_PRESETS = {
   none: ''
 };
 
+const SETTINGS_KEY = 'little_ai_settings';
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const DEFAULT_SETTINGS: AppSettings = {
+  highPerformance: true,
+  sweetheartMode: true,
+  wallpaper: 'petals',
+  accentColor: 'rose',
+  buttonStyle: 'glass',
+  soundEffects: true,
+  soundVolume: 0.1,
+  glassIntensity: 0.05,
+  blurIntensity: 60,
+  showPetals: true,
+  darkMode: false
+};
+
+// Guests keep the original key; each account gets its own, starting from the guest settings.
+const settingsKey = (namespace: string) => namespace === GUEST_NAMESPACE ? SETTINGS_KEY : `${SETTINGS_KEY}_${namespace}`;
+
+const loadSettings = (namespace: string): AppSettings => {
+  const saved = localStorage.getItem(settingsKey(namespace)) ?? localStorage.getItem(SETTINGS_KEY);
+  if (saved) {
+    try { return { ...DEFAULT_SETTINGS, ...JSON.parse(saved) }; } catch (e) { console.error("Failed to parse settings", e); }
+  }
+  return DEFAULT_SETTINGS;
+};
+
 const SOUNDS = {
   click: 'https://www.soundjay.com/buttons/sounds/button-16.mp3',
   settings: 'https://www.soundjay.com/buttons/sounds/button-3.mp3',
@@ -64,14 +118,32 @@ const App: React.FC = () => {
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [memories, setMemories] = useState<MemoryEntry[]>([]);
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(restoreSession);
   const [systemTime, setSystemTime] = useState(new Date());
   const [apiStatus, setApiStatus] = useState<'stable' | 'error'>('stable');
-  const [authModal, setAuthModal] = useState<{ open: boolean; mode: 'signin' | 'signup'; mandatory?: boolean }>({ 
+  const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+  // Nothing is read from the vault until we know whether it needs a passphrase first.
+  const [vaultLock, setVaultLock] = useState<'checking' | 'locked' | 'open'>('checking');
+  const [vaultEncrypted, setVaultEncrypted] = useState(false);
+  // Bumped after a backup import so everything held in memory is reloaded from the vault.
+  const [vaultRevision, setVaultRevision] = useState(0);
+  // Whose artifacts the repositories currently serve; views that read them wait for this to match.
+  const [artifactOwner, setArtifactOwner] = useState<string | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // Where the last search palette jump landed; dropped once the user moves to another view.
+  const [searchFocus, setSearchFocus] = useState<{ view: AppView; target: SearchTarget } | null>(null);
+  const [authModal, setAuthModal] = useState<{ open: boolean; mode: 'signin' | 'signup'; mandatory?: boolean; username?: string }>({ 
     open: false, 
     mode: 'signin' 
   });
 
+  const [sessionWriter] = useState(() => createSessionWriter());
+  const hydratedNamespaceRef = useRef<string | null>(null);
+  const loadedSessionsRef = useRef<ChatSession[] | null>(null);
+  const memoriesNamespaceRef = useRef<string | null>(null);
+  const loadedMemoriesRef = useRef<MemoryEntry[] | null>(null);
+  const vaultNamespace = user?.username || GUEST_NAMESPACE;
+
   const [builderState, setBuilderState] = useState<BuilderState>({
     prompt: '',
     code: null,
@@ -79,25 +151,8 @@ const App: React.FC = () => {
     platform: 'android'
   });
   
-  const [settings, setSettings] = useState<AppSettings>(() => {
-    const saved = localStorage.getItem('little_ai_settings');
-    if (saved) {
-      try { return JSON.parse(saved); } catch (e) { console.error("Failed to parse settings", e); }
-    }
-    return {
-      highPerformance: true,
-      sweetheartMode: true,
-      wallpaper: 'petals',
-      accentColor: 'rose',
-      buttonStyle: 'glass',
-      soundEffects: true,
-      soundVolume: 0.1,
-      glassIntensity: 0.05,
-      blurIntensity: 60,
-      showPetals: true,
-      darkMode: false
-    };
-  });
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings(vaultNamespace));
+  const settingsNamespaceRef = useRef(vaultNamespace);
 
   const playSound = useCallback((type: keyof typeof SOUNDS) => {
     if (!settings.soundEffects) return;
@@ -106,15 +161,227 @@ const App: React.FC = () => {
     audio.play().catch(() => {});
   }, [settings.soundEffects, settings.soundVolume]);
 
+  // Declared before the save effect so a profile switch loads the new settings before anything is written.
   useEffect(() => {
-    localStorage.setItem('little_ai_settings', JSON.stringify(settings));
+    if (settingsNamespaceRef.current === vaultNamespace) return;
+    settingsNamespaceRef.current = vaultNamespace;
+    setSettings(loadSettings(vaultNamespace));
+  }, [vaultNamespace]);
+
+  useEffect(() => {
+    localStorage.setItem(settingsKey(settingsNamespaceRef.current), JSON.stringify(settings));
   }, [settings]);
 
+  useEffect(() => {
+    setModelPreferences({ models: settings.models, autoFallback: settings.autoModelFallback });
+  }, [settings.models, settings.autoModelFallback]);
+
+  useEffect(() => {
+    setUsageBudget(settings.usageBudget);
+  }, [settings.usageBudget]);
+
+  useEffect(() => {
+    setPriceOverrides(settings.modelPrices);
+  }, [settings.modelPrices]);
+
+  useEffect(() => {
+    // Turning on vault encryption pauses embedding until the user agrees again for the protected vault.
+    setSemanticSearchEnabled(!!settings.semanticSearch && (!vaultEncrypted || !!settings.semanticSearchEncrypted));
+  }, [settings.semanticSearch, settings.semanticSearchEncrypted, vaultEncrypted]);
+
+  useEffect(() => {
+    const sync = () => {
+      setVaultEncrypted(isVaultEncrypted());
+      setVaultLock(isVaultLocked() ? 'locked' : 'open');
+    };
+    const unsubscribe = onVaultLockChange(sync);
+    loadVaultEncryption()
+      .catch(e => console.error("Failed to read vault encryption", e))
+      .then(sync);
+    return unsubscribe;
+  }, []);
+
+  const lockNow = useCallback(() => {
+    sessionWriter.flush().finally(lockVault);
+  }, [sessionWriter]);
+
+  useIdleTimer((settings.vaultAutoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES) * 60000, lockNow, vaultEncrypted && vaultLock === 'open');
+
+  useEffect(() => {
+    if (vaultLock === 'open') activateUsageLedger(vaultNamespace);
+  }, [vaultNamespace, vaultLock, vaultRevision]);
+
+  useEffect(() => {
+    if (vaultLock !== 'open') {
+      setArtifactOwner(null);
+      return;
+    }
+    let cancelled = false;
+    activateArtifactOwner(vaultNamespace)
+      .catch(e => console.error("Failed to prepare vault artifacts", e))
+      .then(() => { if (!cancelled) setArtifactOwner(vaultNamespace); });
+    return () => { cancelled = true; };
+  }, [vaultNamespace, vaultLock, vaultRevision]);
+
+  useEffect(() => {
+    if (vaultLock !== 'open' || artifactOwner !== vaultNamespace) return;
+    return scheduleRetention(settings.retention || {});
+  }, [vaultLock, artifactOwner, vaultNamespace, settings.retention]);
+
+  // The search index follows chats and memories as they change, and the vault through repository events.
+  useEffect(() => searchIndex.onChange(trackSearchDocument), []);
+  useEffect(() => { searchIndex.syncSessions(sessions); }, [sessions]);
+  useEffect(() => { searchIndex.syncMemories(memories); }, [memories]);
+
+  useEffect(() => {
+    if (vaultLock !== 'open' || artifactOwner !== vaultNamespace) return;
+    const unsubscribe = onArtifactsChanged(change => {
+      searchIndex.applyArtifactChange(change).catch(e => console.error("Failed to index vault change", e));
+    });
+    searchIndex.loadArtifacts().catch(e => console.error("Failed to index vault", e));
+    activateEmbeddings(vaultNamespace);
+    return () => {
+      unsubscribe();
+      searchIndex.resetArtifacts();
+      deactivateEmbeddings();
+    };
+  }, [vaultLock, artifactOwner, vaultNamespace, vaultRevision]);
+
+  useEffect(() => {
+    if (vaultLock !== 'open') {
+      setSearchOpen(false);
+      return;
+    }
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [vaultLock]);
+
+  useEffect(() => {
+    setSearchFocus(prev => prev && prev.view !== currentView ? null : prev);
+  }, [currentView]);
+
+  // Every recorded request is charged against the signed-in user's credit balance.
+  useEffect(() => {
+    return onUsageRecorded(entry => {
+      if (!entry) return;
+      setUser(prev => prev ? { ...prev, credit: Math.max(0, Math.round(((prev.credit ?? 0) - entry.credits) * 10000) / 10000) } : prev);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (user) updateStoredUser(user.username, { credit: user.credit });
+  }, [user?.username, user?.credit]);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+    const unsubscribe = onModelFallback(({ from, to }) => {
+      setFallbackNotice(`${getModelInfo(from)?.label || from} is out of quota — switched to ${getModelInfo(to)?.label || to}.`);
+      clearTimeout(timer);
+      timer = setTimeout(() => setFallbackNotice(null), 6000);
+    });
+    return () => { unsubscribe(); clearTimeout(timer); };
+  }, []);
+
+  // Load the archive for whoever is signed in; a guest's chats are adopted on sign-in.
+  useEffect(() => {
+    let cancelled = false;
+    hydratedNamespaceRef.current = null;
+    setActiveSessionId(null);
+    if (vaultLock !== 'open') {
+      setSessions([]);
+      return;
+    }
+
+    sessionWriter.flush()
+      .then(() => user ? adoptGuestSessions(user.username) : loadSessions(GUEST_NAMESPACE))
+      .then(loaded => {
+        if (cancelled) return;
+        loadedSessionsRef.current = loaded;
+        hydratedNamespaceRef.current = vaultNamespace;
+        setSessions(loaded);
+      })
+      .catch(e => console.error("Failed to load sessions", e));
+
+    return () => { cancelled = true; };
+  }, [vaultNamespace, vaultLock, vaultRevision]);
+
+  useEffect(() => {
+    if (hydratedNamespaceRef.current !== vaultNamespace) return;
+    if (sessions === loadedSessionsRef.current) return;
+    sessionWriter.schedule(vaultNamespace, sessions);
+  }, [sessions, vaultNamespace, sessionWriter]);
+
+  useEffect(() => {
+    let cancelled = false;
+    memoriesNamespaceRef.current = null;
+    if (vaultLock !== 'open') {
+      setMemories([]);
+      return;
+    }
+
+    (user ? adoptGuestMemories(user.username) : loadMemories(GUEST_NAMESPACE))
+      .then(loaded => {
+        if (cancelled) return;
+        loadedMemoriesRef.current = loaded;
+        memoriesNamespaceRef.current = vaultNamespace;
+        setMemories(loaded);
+      })
+      .catch(e => console.error("Failed to load memories", e));
+
+    return () => { cancelled = true; };
+  }, [vaultNamespace, vaultLock, vaultRevision]);
+
+  useEffect(() => {
+    if (memoriesNamespaceRef.current !== vaultNamespace) return;
+    if (memories === loadedMemoriesRef.current) return;
+    saveMemories(vaultNamespace, memories).catch(e => console.error("Failed to save memories", e));
+  }, [memories, vaultNamespace]);
+
+  // Mobile browsers often discard a backgrounded tab without `beforeunload`, so pending writes go out as soon as it is hidden.
+  useEffect(() => {
+    const flushOnExit = () => { sessionWriter.flush(); };
+    const flushWhenHidden = () => { if (document.visibilityState === 'hidden') flushOnExit(); };
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flushOnExit);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flushOnExit);
+    };
+  }, [sessionWriter]);
+
   useEffect(() => {
     const timer = setInterval(() => setSystemTime(new Date()), 1000);
     return () => clearInterval(timer);
   }, []);
 
+  const handleSignOut = () => {
+    playSound('click');
+    if (user) endSession(user.username);
+    setUser(null);
+  };
+
+  // Profiles with a live session switch straight away; expired ones go through sign-in again.
+  const handleSwitchProfile = (username: string) => {
+    playSound('click');
+    const next = switchProfile(username);
+    if (next) setUser(next);
+    else setAuthModal({ open: true, mode: 'signin', username });
+  };
+
+  // Pending chat writes land first so the import is not overwritten by what was already on screen.
+  const handleImportVault = async (backup: VaultBackup, mode: ImportMode) => {
+    await sessionWriter.flush();
+    const report = await importVaultBackup(backup, mode, vaultNamespace);
+    setVaultRevision(revision => revision + 1);
+    return report;
+  };
+
   const getWallpaperUrl = () => {
     if (settings.wallpaper === 'custom' && settings.customWallpaper) {
       return settings.customWallpaper;
@@ -122,18 +389,35 @@ const App: React.FC = () => {
     return WALLPAPER_PRESETS[settings.wallpaper as keyof typeof WALLPAPER_PRESETS] || '';
   };
 
+  const handleSearchSelect = ({ target }: SearchResult) => {
+    playSound('click');
+    setSearchOpen(false);
+    let view = AppView.VAULT_EXPLORER;
+    if (target.kind === 'chat') {
+      view = AppView.CHAT;
+      const { messageId } = target;
+      if (messageId) setSessions(prev => prev.map(s => s.id === target.sessionId ? revealMessage(s, messageId) : s));
+      setActiveSessionId(target.sessionId);
+    } else if (target.kind === 'memory') {
+      view = AppView.MEMORIES;
+    }
+    setSearchFocus({ view, target });
+    setCurrentView(view);
+  };
+
   const renderView = () => {
+    const focus = searchFocus?.view === currentView ? searchFocus.target : null;
     const props = { 
       activeSessionId, setActiveSessionId, sessions, setSessions, onViewChange: (v: AppView) => { playSound('click'); setCurrentView(v); }, 
       user, settings, memories, 
-      onSaveMemory: (content: string) => setMemories(prev => [{id: Date.now().toString(), content, timestamp: Date.now()}, ...prev].slice(0, 50)),
+      onSaveMemory: (content: string) => setMemories(prev => rememberFact(prev, content)),
       systemTime, onApiError: () => setApiStatus('error'),
       onPlaySound: playSound
     };
     
     switch (currentView) {
-      case AppView.CHAT: return <ChatView {...props} />;
-      case AppView.SETTINGS: return <SettingsView user={user} onLogout={() => { playSound('click'); setUser(null); }} onOpenAuth={() => { playSound('settings'); setAuthModal({ open: true, mode: 'signin' }); }} settings={settings} onUpdateSettings={setSettings} onPlaySound={playSound} onViewChange={props.onViewChange} />;
+      case AppView.CHAT: return <ChatView {...props} focusMessageId={focus?.kind === 'chat' ? focus.messageId : null} />;
+      case AppView.SETTINGS: return <SettingsView user={user} onLogout={handleSignOut} onSwitchProfile={handleSwitchProfile} onLockVault={lockNow} onImportVault={handleImportVault} onOpenAuth={() => { playSound('settings'); setAuthModal({ open: true, mode: 'signin' }); }} settings={settings} onUpdateSettings={setSettings} onPlaySound={playSound} onViewChange={props.onViewChange} />;
       case AppView.CODE: return <CodeView {...props} />;
       case AppView.VISION: return <VisionView {...props} />;
       case AppView.IMAGE: return <ImageView {...props} />;
@@ -141,10 +425,11 @@ const App: React.FC = () => {
       case AppView.MINDMAP: return <MindMapView {...props} />;
       case AppView.FLOWCHART: return <FlowchartView {...props} />;
       case AppView.FILE_ANALYSIS: return <FileAnalysisView {...props} />;
-      case AppView.LIVE: return <LiveView memories={memories} onSaveMemory={props.onSaveMemory} sweetheartMode={settings.sweetheartMode} />;
+      case AppView.LIVE: return <LiveView memories={memories} onSaveMemory={props.onSaveMemory} onSaveTranscript={(session) => setSessions(prev => [session, ...prev])} onOpenSession={(id) => { playSound('click'); setActiveSessionId(id); setCurrentView(AppView.CHAT); }} videoFrameRate={settings.liveVideoFrameRate ?? DEFAULT_VIDEO_FRAME_RATE} sweetheartMode={settings.sweetheartMode} />;
       case AppView.SEARCH: return <SearchView {...props} />;
+      case AppView.MEMORIES: return <MemoryView memories={memories} onUpdateMemories={setMemories} onViewChange={props.onViewChange} onPlaySound={playSound} focusMemoryId={focus?.kind === 'memory' ? focus.memoryId : null} />;
       case AppView.VIDEO: return <VideoView {...props} />;
-      case AppView.VAULT_EXPLORER: return <VaultExplorerView {...props} />;
+      case AppView.VAULT_EXPLORER: return <VaultExplorerView {...props} focusArtifact={focus?.kind === 'artifact' ? focus : null} />;
       case AppView.VIDEO_TO_LYRICS: return <VideoToLyricsView {...props} />;
       case AppView.APP_BUILDER: return <AppBuilderView {...props} builderState={builderState} setBuilderState={setBuilderState} />;
       case AppView.APP_ANALYST: return <AppAnalystView {...props} />;
@@ -184,19 +469,32 @@ const App: React.FC = () => {
           setCurrentView(AppView.CHAT); 
         }}
         user={user} 
-        onLogout={() => { playSound('click'); setUser(null); }} 
+        onLogout={handleSignOut} 
         onOpenAuth={(mode) => { playSound('settings'); setAuthModal({ open: true, mode, mandatory: false }); }}
         settings={settings} 
         systemTime={systemTime} 
         apiStatus={apiStatus} 
         onPlaySettings={() => playSound('settings')}
+        onOpenSearch={() => { playSound('click'); setSearchOpen(true); }}
       />
 
       <main className="flex-1 flex flex-col relative h-full min-w-0 overflow-hidden z-10 ml-24 bg-transparent text-primary">
-        {renderView()}
+        {vaultLock === 'open' && artifactOwner === vaultNamespace && <React.Fragment key={vaultRevision}>{renderView()}</React.Fragment>}
       </main>
 
-      {authModal.open && <AuthModal initialMode={authModal.mode} isMandatory={authModal.mandatory} onClose={() => { playSound('click'); setAuthModal({ ...authModal, open: false }); }} onLogin={(u) => { playSound('click'); setUser(u); localStorage.setItem('little_ai_active_user', JSON.stringify(u)); setAuthModal({ ...authModal, open: false }); }} />}
+      {fallbackNotice && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[200] flex items-center space-x-3 px-6 py-3 rounded-2xl glass-panel border shadow-2xl animate-in fade-in slide-in-from-top-4">
+          <i className="fas fa-shuffle text-amber-500"></i>
+          <span className="text-[10px] font-black uppercase tracking-widest text-primary">{fallbackNotice}</span>
+          <button onClick={() => setFallbackNotice(null)} className="text-secondary hover:text-primary"><i className="fas fa-times text-xs"></i></button>
+        </div>
+      )}
+
+      {vaultLock === 'locked' && <VaultLockScreen username={user?.username} />}
+
+      {searchOpen && <SearchPalette onSelect={handleSearchSelect} onClose={() => setSearchOpen(false)} />}
+
+      {authModal.open && <AuthModal initialMode={authModal.mode} initialUsername={authModal.username} isMandatory={authModal.mandatory} onClose={() => { playSound('click'); setAuthModal({ ...authModal, open: false }); }} onLogin={(u) => { playSound('click'); setUser(startSession(u)); setAuthModal({ ...authModal, open: false }); }} />}
       
       <style>{`
         :root { 
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+
+interface AudioLevelMeterProps {
+  label: string;
+  icon: string;
+  /** Polled every animation frame; an RMS level from 0 to 1. */
+  getLevel: () => number;
+}
+
+const BARS = 12;
+const FLOOR_DB = -60;
+
+// Loudness is heard logarithmically, so the bars follow decibels rather than raw amplitude.
+const toFraction = (level: number) => level > 0 ? Math.max(0, Math.min(1, 1 - (20 * Math.log10(level)) / FLOOR_DB)) : 0;
+
+/**
+ * A bar meter driven straight from the DOM, so polling at frame rate doesn't re-render anything.
+ */
+const AudioLevelMeter: React.FC<AudioLevelMeterProps> = ({ label, icon, getLevel }) => {
+  const barsRef = useRef<HTMLDivElement>(null);
+  const getLevelRef = useRef(getLevel);
+  getLevelRef.current = getLevel;
+
+  useEffect(() => {
+    let frame = 0;
+    let shown = 0;
+    const draw = () => {
+      // Rise at once, fall back gently, like a VU meter.
+      shown = Math.max(toFraction(getLevelRef.current()), shown * 0.85);
+      const lit = Math.round(shown * BARS);
+      Array.from(barsRef.current?.children || []).forEach((bar, i) => {
+        (bar as HTMLElement).style.opacity = i < lit ? '1' : '0.15';
+      });
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div className="flex items-center space-x-3">
+      <i className={`fas ${icon} text-[10px] text-gray-500 w-4`} title={label}></i>
+      <div ref={barsRef} className="flex items-end space-x-1 h-4" aria-label={`${label} level`}>
+        {Array.from({ length: BARS }, (_, i) => (
+          <div key={i} className="w-1.5 rounded-full bg-pink-500 transition-opacity duration-75" style={{ height: `${35 + (65 * i) / (BARS - 1)}%`, opacity: 0.15 }}></div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AudioLevelMeter;
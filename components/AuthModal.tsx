@@ -1,40 +1,29 @@
 
 import React, { useState } from 'react';
 import { User } from '../types';
+import { registerAccount, verifyCredentials } from '../services/accountService';
 
 interface AuthModalProps {
   onClose: () => void;
   onLogin: (user: User) => void;
   initialMode: 'signin' | 'signup';
+  initialUsername?: string;
   isMandatory?: boolean;
 }
 
-const STORAGE_KEY = 'little_ai_vault_users';
-
-const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLogin, initialMode, isMandatory }) => {
+const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLogin, initialMode, initialUsername, isMandatory }) => {
   const [mode, setMode] = useState<'signin' | 'signup'>(initialMode);
-  const [formData, setFormData] = useState({ username: '', password: '', fullName: '' });
+  const [formData, setFormData] = useState({ username: initialUsername || '', password: '', fullName: '' });
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const getUsers = () => {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : {};
-  };
-
-  const handleAction = (e: React.FormEvent) => {
+  const handleAction = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError('');
 
-    setTimeout(() => {
-      const users = getUsers();
+    try {
       if (mode === 'signup') {
-        if (users[formData.username]) {
-          setError('Username already linked. Try signing in.');
-          setLoading(false);
-          return;
-        }
         const newUser: User = {
           username: formData.username,
           name: formData.username,
@@ -45,19 +34,20 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLogin, initialMode, is
           birthday: { day: '1', month: '1', year: '2000' },
           isLoggedIn: true
         };
-        users[formData.username] = { ...newUser, password: formData.password };
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
-        onLogin(newUser);
+        onLogin(await registerAccount(newUser, formData.password));
       } else {
-        const user = users[formData.username];
-        if (user && user.password === formData.password) {
+        const user = await verifyCredentials(formData.username, formData.password);
+        if (user) {
           onLogin(user);
         } else {
           setError('Invalid credentials. Check your Neural ID.');
           setLoading(false);
         }
       }
-    }, 1000);
+    } catch (err: any) {
+      setError(err.message || 'Authentication failed.');
+      setLoading(false);
+    }
   };
 
   return (
@@ -122,7 +112,11 @@ const AuthModal: React.FC<AuthModalProps> = ({ onClose, onLogin, initialMode, is
             />
           </div>
 
-          <button 
+          {error && (
+            <p className="text-[10px] font-black text-red-500 uppercase tracking-widest text-center">{error}</p>
+          )}
+
+          <button
             disabled={loading}
             className="w-full bg-pink-600 hover:bg-pink-500 text-white font-black py-5 rounded-2xl uppercase tracking-[0.3em] text-[10px] transition-all shadow-2xl active:scale-95 disabled:opacity-20 flex items-center justify-center"
           >
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface CancelButtonProps {
+  onClick: () => void;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Stops the request behind a tool's loading state.
+ */
+const CancelButton: React.FC<CancelButtonProps> = ({ onClick, label = 'Cancel', className = '' }) => {
+  return (
+    <button
+      onClick={onClick}
+      className={`flex items-center space-x-3 px-6 py-3 rounded-2xl bg-white/5 border border-white/10 text-gray-400 hover:text-white hover:bg-red-500/20 hover:border-red-500/40 transition-all backdrop-blur-3xl text-[10px] font-black uppercase tracking-widest ${className}`}
+    >
+      <i className="fas fa-stop"></i>
+      <span>{label}</span>
+    </button>
+  );
+};
+
+export default CancelButton;
@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+
+interface MarkdownRendererProps {
+  content: string;
+  className?: string;
+}
+
+// GitHub's sanitisation schema plus the class names fenced code and remark-math rely on.
+// Sanitising runs before KaTeX and highlighting, so only their trusted output adds markup.
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']]
+  }
+};
+
+const textOf = (node: any): string =>
+  node?.type === 'text' ? node.value : (node?.children || []).map(textOf).join('');
+
+const CodeBlock: React.FC<{ node?: any; children?: React.ReactNode }> = ({ node, children }) => {
+  const [copied, setCopied] = useState(false);
+  const codeNode = node?.children?.find((c: any) => c.tagName === 'code');
+  const classes: string[] = codeNode?.properties?.className || [];
+  const lang = classes.find(c => typeof c === 'string' && c.startsWith('language-'))?.replace('language-', '');
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(textOf(codeNode).replace(/\n$/, ''));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-6 rounded-2xl border border-white/10 bg-black/60 overflow-hidden">
+      <div className="flex items-center justify-between px-5 py-2 border-b border-white/5 text-[9px] font-black uppercase tracking-widest text-gray-500">
+        <span>{lang || 'code'}</span>
+        <button onClick={handleCopy} className="flex items-center space-x-2 hover:text-white transition-colors">
+          <i className={`fas ${copied ? 'fa-check text-emerald-400' : 'fa-copy'}`}></i>
+          <span>{copied ? 'Copied' : 'Copy'}</span>
+        </button>
+      </div>
+      <pre className="p-5 overflow-x-auto text-[13px] leading-relaxed font-mono">{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-3xl font-black tracking-tighter mt-8 mb-4">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-2xl font-black tracking-tight mt-8 mb-3">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-xl font-black mt-6 mb-2">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-lg font-bold mt-4 mb-2">{children}</h4>,
+  p: ({ children }) => <p className="my-3">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 my-3 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 my-3 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-pink-500/40 pl-5 my-4 italic opacity-80">{children}</blockquote>,
+  hr: () => <hr className="my-8 border-white/10" />,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-pink-500 underline underline-offset-4 hover:text-pink-400">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="my-6 overflow-x-auto rounded-2xl border border-white/10">
+      <table className="w-full text-left text-[0.9em] border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => <th style={style} className="px-4 py-3 bg-white/5 font-black uppercase tracking-wider text-[0.8em] border-b border-white/10">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="px-4 py-3 border-b border-white/5 align-top">{children}</td>,
+  pre: ({ node, children }) => <CodeBlock node={node}>{children}</CodeBlock>
+};
+
+/**
+ * Renders model output written in Markdown: GFM tables and lists, highlighted code blocks with a
+ * copy button, and inline/block LaTeX. Raw HTML in the source is never rendered.
+ */
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className = '' }) => {
+  return (
+    <div className={`markdown-body ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[[rehypeSanitize, SANITIZE_SCHEMA], rehypeKatex, [rehypeHighlight, { detect: true }]]}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
+
+export default MarkdownRenderer;
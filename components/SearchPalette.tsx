@@ -0,0 +1,102 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { searchIndex, SearchResult, SearchTarget } from '../services/searchIndex';
+import { VAULT_FOLDERS } from '../services/vaultFolders';
+
+interface SearchPaletteProps {
+  onSelect: (result: SearchResult) => void;
+  onClose: () => void;
+}
+
+const RESULT_LIMIT = 30;
+
+const iconFor = (target: SearchTarget) => {
+  if (target.kind === 'chat') return target.messageId ? 'fa-message' : 'fa-comments';
+  if (target.kind === 'memory') return 'fa-brain';
+  return VAULT_FOLDERS.find(f => f.store === target.store)?.icon || 'fa-vault';
+};
+
+const PLACE_LABELS: Record<SearchTarget['kind'], string> = { chat: 'Chat', memory: 'Memory Core', artifact: 'Neural Vault' };
+
+/**
+ * Searches chats, memories and vault artifacts from anywhere. Arrow keys move, Enter opens, Escape closes.
+ */
+const SearchPalette: React.FC<SearchPaletteProps> = ({ onSelect, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => searchIndex.search(query, { limit: RESULT_LIMIT }), [query]);
+
+  useEffect(() => { setActiveIndex(0); }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' && results.length) {
+      e.preventDefault();
+      setActiveIndex(i => (i + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length) {
+      e.preventDefault();
+      setActiveIndex(i => (i - 1 + results.length) % results.length);
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      onSelect(results[activeIndex]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[900] flex items-start justify-center bg-black/70 backdrop-blur-xl p-6 pt-[12vh]" onMouseDown={onClose}>
+      <div onMouseDown={e => e.stopPropagation()} onKeyDown={handleKeyDown} className="w-full max-w-2xl bg-[#0d0d0d] border border-white/10 rounded-[2.5rem] shadow-4xl overflow-hidden animate-in fade-in slide-in-from-top-4">
+        <div className="flex items-center px-8 border-b border-white/10">
+          <i className="fas fa-magnifying-glass text-pink-500 text-sm"></i>
+          <input
+            autoFocus
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search chats, memories and the vault…"
+            className="flex-1 bg-transparent px-5 py-6 text-white text-sm font-bold focus:outline-none placeholder:text-gray-600"
+          />
+          <span className="text-[9px] font-black uppercase tracking-widest text-gray-600">Esc</span>
+        </div>
+
+        <div ref={listRef} className="max-h-[55vh] overflow-y-auto custom-scrollbar p-3">
+          {results.map((result, i) => (
+            <button
+              key={result.id}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => onSelect(result)}
+              className={`w-full text-left flex items-start space-x-4 px-5 py-4 rounded-2xl transition-all ${i === activeIndex ? 'bg-white/10' : 'hover:bg-white/5'}`}
+            >
+              <div className="w-9 h-9 rounded-xl bg-pink-500/10 border border-pink-500/10 flex items-center justify-center text-pink-500 shrink-0">
+                <i className={`fas ${iconFor(result.target)} text-xs`}></i>
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center justify-between space-x-4">
+                  <span className="text-white text-sm font-bold truncate">{result.label}</span>
+                  <span className="text-[9px] font-black uppercase tracking-widest text-gray-600 shrink-0">
+                    {PLACE_LABELS[result.target.kind]} · {new Date(result.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+                {result.snippet && <p className="text-gray-400 text-xs leading-relaxed line-clamp-2">{result.snippet}</p>}
+              </div>
+            </button>
+          ))}
+
+          {query.trim() && !results.length && (
+            <p className="py-12 text-center text-gray-600 text-[10px] font-black uppercase tracking-[0.4em]">Nothing matches</p>
+          )}
+          {!query.trim() && (
+            <p className="py-12 text-center text-gray-600 text-[10px] font-black uppercase tracking-[0.4em]">Type to search everything you have saved</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPalette;
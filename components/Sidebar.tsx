@@ -17,6 +17,7 @@ interface SidebarProps {
   systemTime: Date;
   apiStatus?: 'stable' | 'error';
   onPlaySettings?: () => void;
+  onOpenSearch?: () => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -31,7 +32,8 @@ const Sidebar: React.FC<SidebarProps> = ({
   settings,
   sessions,
   activeSessionId,
-  onSelectSession
+  onSelectSession,
+  onOpenSearch
 }) => {
   const [isToolsExpanded, setIsToolsExpanded] = useState(false);
 
@@ -43,6 +45,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     { view: AppView.IMAGE, icon: 'fa-paintbrush', label: 'Image Lab' },
     { view: AppView.CODE, icon: 'fa-code', label: 'Code Master' },
     { view: AppView.LIVE, icon: 'fa-microphone-lines', label: 'Voice Sync' },
+    { view: AppView.MEMORIES, icon: 'fa-brain', label: 'Memory Core' },
     { view: AppView.VISION, icon: 'fa-eye', label: 'Vision Hub' },
     { view: AppView.SEARCH, icon: 'fa-globe', label: 'Web Intelligence' },
     { view: AppView.VIDEO, icon: 'fa-film', label: 'Video Render' },
@@ -101,6 +104,14 @@ const Sidebar: React.FC<SidebarProps> = ({
             </button>
           ))}
 
+          <button 
+            onClick={onOpenSearch}
+            title="Search (Ctrl+K)"
+            className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${iconColorClass} bg-white/10 backdrop-blur-2xl border border-white/5`}
+          >
+            <i className="fas fa-magnifying-glass text-xs"></i>
+          </button>
+
           <button 
             onClick={() => onViewChange(AppView.HISTORY)} 
             className={`w-12 h-12 flex items-center justify-center rounded-2xl transition-all ${currentView === AppView.HISTORY ? 'sidebar-active text-white' : `${iconColorClass} bg-white/10 backdrop-blur-2xl border border-white/5`}`}
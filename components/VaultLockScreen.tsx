@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { unlockVault } from '../services/storageService';
+
+interface VaultLockScreenProps {
+  username?: string;
+}
+
+/**
+ * Covers the app while the vault key is not in memory and asks for the passphrase.
+ */
+const VaultLockScreen: React.FC<VaultLockScreenProps> = ({ username }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      await unlockVault(passphrase);
+    } catch (err: any) {
+      setError(err.message || 'Could not unlock the vault.');
+      setPassphrase('');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/95 backdrop-blur-3xl p-6">
+      <form onSubmit={handleUnlock} className="w-full max-w-md bg-[#0d0d0d] border border-white/10 rounded-[3.5rem] p-10 md:p-14 shadow-4xl relative overflow-hidden space-y-8">
+        <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-pink-500/0 via-pink-500 to-pink-500/0 opacity-30"></div>
+
+        <div className="text-center">
+          <div className="w-16 h-16 bg-pink-500/5 rounded-[1.5rem] flex items-center justify-center text-pink-500 mx-auto mb-6 border border-pink-500/10 shadow-2xl">
+            <i className="fas fa-lock text-2xl"></i>
+          </div>
+          <h2 className="text-3xl font-black text-white tracking-tighter">Vault Locked</h2>
+          <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.4em] mt-3">{username ? `@${username} · ` : ''}Enter your vault passphrase</p>
+        </div>
+
+        <input
+          required
+          autoFocus
+          type="password"
+          autoComplete="current-password"
+          placeholder="••••••••"
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          className="w-full bg-white/5 border border-white/5 rounded-2xl p-5 text-white focus:outline-none focus:border-pink-500/20 transition-all font-mono"
+        />
+
+        {error && <p className="text-[10px] font-black text-red-500 uppercase tracking-widest text-center">{error}</p>}
+
+        <button
+          disabled={loading}
+          className="w-full bg-pink-600 hover:bg-pink-500 text-white font-black py-5 rounded-2xl uppercase tracking-[0.3em] text-[10px] transition-all shadow-2xl active:scale-95 disabled:opacity-20 flex items-center justify-center"
+        >
+          {loading ? <i className="fas fa-spinner fa-spin mr-3"></i> : null}
+          Unlock Vault
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default VaultLockScreen;
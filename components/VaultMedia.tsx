@@ -0,0 +1,24 @@
+import React from 'react';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+
+interface VaultMediaProps {
+  source?: Blob | string | null;
+  kind?: 'image' | 'video';
+  className?: string;
+  alt?: string;
+  controls?: boolean;
+  autoPlay?: boolean;
+}
+
+/**
+ * Shows an image or video straight from the vault, whether stored as a Blob or as a URL.
+ */
+const VaultMedia: React.FC<VaultMediaProps> = ({ source, kind = 'image', className = '', alt = '', controls, autoPlay }) => {
+  const url = useObjectUrl(source);
+  if (!url) return null;
+  return kind === 'video'
+    ? <video src={url} controls={controls} autoPlay={autoPlay} className={className}></video>
+    : <img src={url} className={className} alt={alt} />;
+};
+
+export default VaultMedia;
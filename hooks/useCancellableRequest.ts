@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Owns the AbortController for a view's in-flight model request.
+ * `begin` cancels whatever was running and hands out a fresh signal, `cancel` backs the Cancel
+ * button, and the request is aborted automatically when the view unmounts.
+ */
+export const useCancellableRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const begin = useCallback(() => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return { begin, cancel };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Calls `onIdle` once after `timeoutMs` without keyboard, pointer or touch input.
+ * A timeout of 0 (or `enabled` false) turns it off. Time spent in a hidden tab counts as idle.
+ */
+export const useIdleTimer = (timeoutMs: number, onIdle: () => void, enabled = true) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+    let lastActivity = Date.now();
+    let fired = false;
+    const markActive = () => { lastActivity = Date.now(); fired = false; };
+    // Polling rather than a resettable timeout keeps pointermove cheap and survives background-tab throttling.
+    const timer = setInterval(() => {
+      if (!fired && Date.now() - lastActivity >= timeoutMs) {
+        fired = true;
+        onIdleRef.current();
+      }
+    }, Math.min(15000, timeoutMs));
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, markActive, { passive: true }));
+    return () => {
+      clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, markActive));
+    };
+  }, [timeoutMs, enabled]);
+};
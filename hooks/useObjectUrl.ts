@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * A URL the DOM can display for vault media. Blobs get an object URL that is revoked when the
+ * source changes or the component unmounts; plain URLs (older entries) pass straight through.
+ */
+export const useObjectUrl = (source?: Blob | string | null) => {
+  const [url, setUrl] = useState<string | null>(typeof source === 'string' ? source : null);
+
+  useEffect(() => {
+    if (!(source instanceof Blob)) {
+      setUrl(source || null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(source);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [source]);
+
+  return url;
+};
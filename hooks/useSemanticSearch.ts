@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { semanticSearch } from '../services/embeddingService';
+import { SearchResult, SearchTarget } from '../services/searchIndex';
+
+const DEBOUNCE_MS = 400;
+
+/**
+ * Items close in meaning to what the user is typing, for showing alongside keyword matches.
+ * Waits for typing to pause, cancels superseded queries, and yields nothing when the query
+ * cannot be embedded (offline, no key, semantic search turned off).
+ */
+export const useSemanticSearch = (query: string, kind: SearchTarget['kind'], limit = 50) => {
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  useEffect(() => {
+    setResults([]);
+    if (!query.trim()) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      semanticSearch(query, { kind, limit, signal: controller.signal })
+        .then(found => { if (!controller.signal.aborted) setResults(found); })
+        .catch(() => {});
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, kind, limit]);
+
+  return results;
+};
@@ -0,0 +1,225 @@
+import { User } from "../types";
+import { getFromVault, saveToVault } from "./storageService";
+import { encodeBase64, decodeBase64 } from "./encoding";
+import { GUEST_NAMESPACE } from "./sessionService";
+
+const USERS_KEY = 'little_ai_vault_users';
+const ACTIVE_USER_KEY = 'little_ai_active_user';
+const DEVICE_SESSIONS_KEY = 'little_ai_device_sessions';
+const CREDENTIAL_PREFIX = 'credential_';
+const CREDENTIAL_VERSION = 1;
+const PBKDF2_ITERATIONS = 600000;
+export const MIN_PASSWORD_LENGTH = 8;
+// Sessions slide forward on every restore, so only profiles left unused this long need the password again.
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A sign-in remembered on this device. Holds no credentials, only which account and until when.
+ */
+export interface DeviceSession {
+  username: string;
+  signedInAt: number;
+  expiresAt: number;
+}
+
+/**
+ * A salted PBKDF2-SHA256 password hash, kept in the vault rather than localStorage.
+ */
+interface Credential {
+  version: number;
+  salt: string;       // base64, 16 random bytes per user
+  hash: string;       // base64, 256-bit derived key
+  iterations: number; // Stored so the work factor can be raised without breaking old hashes
+  updatedAt: number;
+}
+
+export interface DeviceProfile {
+  user: User;
+  session: DeviceSession | null; // null once expired; switching back needs the password
+  active: boolean;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  const data = localStorage.getItem(key);
+  if (!data) return fallback;
+  try { return JSON.parse(data); } catch (e) { console.error(`Failed to parse ${key}`, e); return fallback; }
+};
+
+/**
+ * Registered accounts keyed by username, as written by the sign-up form.
+ */
+export const getStoredUsers = (): Record<string, any> => readJson(USERS_KEY, {});
+
+export const saveStoredUsers = (users: Record<string, any>) => {
+  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+};
+
+const deriveHash = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+const createCredential = async (password: string): Promise<Credential> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await deriveHash(password, salt, PBKDF2_ITERATIONS);
+  return { version: CREDENTIAL_VERSION, salt: encodeBase64(salt), hash: encodeBase64(hash), iterations: PBKDF2_ITERATIONS, updatedAt: Date.now() };
+};
+
+// Compares every byte so a mismatch takes as long as a match.
+const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const matchesCredential = async (password: string, credential: Credential) => {
+  const hash = await deriveHash(password, decodeBase64(credential.salt), credential.iterations);
+  return sameBytes(hash, decodeBase64(credential.hash));
+};
+
+const getCredential = (username: string): Promise<Credential | undefined> => getFromVault(`${CREDENTIAL_PREFIX}${username}`);
+
+const saveCredential = (username: string, credential: Credential) => saveToVault(`${CREDENTIAL_PREFIX}${username}`, credential);
+
+const checkPasswordStrength = (password: string) => {
+  if (password.length < MIN_PASSWORD_LENGTH) throw new Error(`Security key must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+};
+
+// Usernames double as vault namespaces, so the guest's (and any other `__name__`) is off limits.
+const isReservedUsername = (username: string) => username === GUEST_NAMESPACE || /^__.*__$/.test(username);
+
+/**
+ * Creates an account: the profile goes to localStorage, the hashed password to the vault.
+ */
+export const registerAccount = async (profile: User, password: string): Promise<User> => {
+  if (isReservedUsername(profile.username)) throw new Error('That username is reserved. Choose another.');
+  checkPasswordStrength(password);
+  if (getStoredUsers()[profile.username] || await getCredential(profile.username)) {
+    throw new Error('Username already linked. Try signing in.');
+  }
+  await saveCredential(profile.username, await createCredential(password));
+  saveStoredUsers({ ...getStoredUsers(), [profile.username]: profile });
+  return profile;
+};
+
+/**
+ * Checks a sign-in and returns the stored account, or null when the username or password is wrong.
+ * Accounts from older builds still hold a plaintext password; it is hashed and removed on their next sign-in.
+ */
+export const verifyCredentials = async (username: string, password: string): Promise<any | null> => {
+  const users = getStoredUsers();
+  const record = users[username];
+  if (!record) return null;
+
+  const credential = await getCredential(username);
+  if (credential) return await matchesCredential(password, credential) ? record : null;
+
+  if (typeof record.password !== 'string' || record.password !== password) return null;
+  await saveCredential(username, await createCredential(password));
+  const { password: _plaintext, ...migrated } = record;
+  saveStoredUsers({ ...getStoredUsers(), [username]: migrated });
+  return migrated;
+};
+
+export const changePassword = async (username: string, currentPassword: string, nextPassword: string): Promise<void> => {
+  if (!await verifyCredentials(username, currentPassword)) throw new Error('Current security key is incorrect.');
+  checkPasswordStrength(nextPassword);
+  await saveCredential(username, await createCredential(nextPassword));
+};
+
+/**
+ * The profile the app works with: the stored account without its credentials.
+ */
+const toProfile = (record: any): User => {
+  const { password, ...profile } = record;
+  return { ...profile, isLoggedIn: true };
+};
+
+const getDeviceSessions = (): Record<string, DeviceSession> => readJson(DEVICE_SESSIONS_KEY, {});
+
+const saveDeviceSessions = (sessions: Record<string, DeviceSession>) => {
+  localStorage.setItem(DEVICE_SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+const isLive = (session: DeviceSession | undefined, now = Date.now()): session is DeviceSession =>
+  !!session && session.expiresAt > now;
+
+const getActiveUsername = (): string | null => {
+  const active = readJson<any>(ACTIVE_USER_KEY, null);
+  if (typeof active === 'string') return active;
+  return active?.username || null;
+};
+
+/**
+ * Signs a user in on this device and makes them the active profile.
+ */
+export const startSession = (record: any): User => {
+  const now = Date.now();
+  saveDeviceSessions({ ...getDeviceSessions(), [record.username]: { username: record.username, signedInAt: now, expiresAt: now + SESSION_TTL_MS } });
+  localStorage.setItem(ACTIVE_USER_KEY, JSON.stringify(record.username));
+  return toProfile(record);
+};
+
+/**
+ * The user signed in before the last reload, or null when there was none or it has expired.
+ */
+export const restoreSession = (): User | null => {
+  const username = getActiveUsername();
+  if (!username) return null;
+  const sessions = getDeviceSessions();
+  const record = getStoredUsers()[username];
+  // Older builds stored the whole user record as the active user, with no session; that sign-in carries over.
+  if (record && !sessions[username] && typeof readJson<any>(ACTIVE_USER_KEY, null) === 'object') return startSession(record);
+  if (!record || !isLive(sessions[username])) {
+    localStorage.removeItem(ACTIVE_USER_KEY);
+    return null;
+  }
+  sessions[username] = { ...sessions[username], expiresAt: Date.now() + SESSION_TTL_MS };
+  saveDeviceSessions(sessions);
+  return toProfile(record);
+};
+
+/**
+ * Signs a user out on this device. Their vault stays; signing in again brings it back.
+ */
+export const endSession = (username: string) => {
+  const sessions = getDeviceSessions();
+  delete sessions[username];
+  saveDeviceSessions(sessions);
+  if (getActiveUsername() === username) localStorage.removeItem(ACTIVE_USER_KEY);
+};
+
+/**
+ * Accounts that have signed in on this device, most recent first.
+ */
+export const getDeviceProfiles = (): DeviceProfile[] => {
+  const users = getStoredUsers();
+  const sessions = getDeviceSessions();
+  const active = getActiveUsername();
+  const now = Date.now();
+  return Object.values(sessions)
+    .filter(s => users[s.username])
+    .sort((a, b) => b.signedInAt - a.signedInAt)
+    .map(s => ({ user: toProfile(users[s.username]), session: isLive(s, now) ? s : null, active: s.username === active }));
+};
+
+/**
+ * Makes another signed-in profile active. Returns null when its session has expired.
+ */
+export const switchProfile = (username: string): User | null => {
+  const record = getStoredUsers()[username];
+  if (!record || !isLive(getDeviceSessions()[username])) return null;
+  localStorage.setItem(ACTIVE_USER_KEY, JSON.stringify(username));
+  return toProfile(record);
+};
+
+/**
+ * Applies profile changes (e.g. a new credit balance) to the stored account.
+ */
+export const updateStoredUser = (username: string, changes: Partial<User>) => {
+  const users = getStoredUsers();
+  if (!users[username]) return;
+  users[username] = { ...users[username], ...changes };
+  saveStoredUsers(users);
+};
@@ -0,0 +1,422 @@
+import { Artifact, ArtifactMeta, ArtifactAnnotations, ArtifactType, ImageArtifact, DocumentArtifact, CodeArtifact, VideoArtifact, AppArtifact, AnalysisArtifact } from "../types";
+import { ArtifactStore, ARTIFACT_STORES, initVault, encodeVaultValue, decodeVaultValue, getFromVault, removeFromVault, estimateBytes } from "./storageService";
+import { GUEST_NAMESPACE } from "./sessionService";
+import { isDataUrl, dataUrlToBlob, createThumbnail } from "./mediaService";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * How an artifact sits in its object store: indexed metadata in the clear, content in a sealable payload.
+ */
+interface ArtifactRow extends ArtifactMeta {
+  payload: any;
+}
+
+export interface ArtifactQuery {
+  type?: ArtifactType;
+  since?: number;         // Oldest timestamp to include
+  cursor?: string | null; // From a previous page's nextCursor
+  limit?: number;
+}
+
+export interface ArtifactPage<T> {
+  items: Artifact<T>[];   // Newest first
+  nextCursor: string | null;
+}
+
+/**
+ * An artifact's metadata and approximate stored size, read without decrypting it.
+ */
+export interface ArtifactFootprint extends ArtifactMeta {
+  bytes: number;
+}
+
+export interface ArtifactRepository<T> {
+  store: ArtifactStore;
+  add: (type: ArtifactType, data: T, meta?: Partial<ArtifactMeta>) => Promise<Artifact<T>>;
+  put: (artifact: Artifact<T>) => Promise<void>;
+  get: (id: string) => Promise<Artifact<T> | null>;
+  update: (id: string, changes: Partial<T & ArtifactAnnotations> & { favorite?: boolean }) => Promise<Artifact<T> | null>;
+  page: (query?: ArtifactQuery) => Promise<ArtifactPage<T>>;
+  list: (query?: Omit<ArtifactQuery, 'cursor' | 'limit'>) => Promise<Artifact<T>[]>;
+  remove: (ids: string | string[]) => Promise<void>;
+  count: (type?: ArtifactType) => Promise<number>;
+  footprint: (query?: Omit<ArtifactQuery, 'cursor' | 'limit'>) => Promise<ArtifactFootprint[]>;
+}
+
+/**
+ * What a write did to one store, for the active owner. Moved rows arrive sealed, so only their ids are known.
+ */
+export interface ArtifactChange {
+  store: ArtifactStore;
+  saved?: Artifact<any>[];
+  removed?: string[];
+  moved?: string[]; // Ids that arrived from another store; read them with `get`
+}
+
+type ArtifactListener = (change: ArtifactChange) => void;
+
+// Repositories read and write for whoever App says is signed in.
+let activeOwner = GUEST_NAMESPACE;
+let activation = 0;
+const listeners = new Set<ArtifactListener>();
+
+/**
+ * Subscribes to artifact writes. Returns a function that unsubscribes.
+ */
+export const onArtifactsChanged = (listener: ArtifactListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const emitChange = (change: ArtifactChange) => listeners.forEach(listener => listener(change));
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error('Vault write aborted'));
+});
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const toRow = async <T>(artifact: Artifact<T>): Promise<ArtifactRow> => {
+  const { id, type, owner, timestamp, favorite, ...data } = artifact as Artifact<any>;
+  return { id, type, owner, timestamp, ...(favorite ? { favorite } : {}), payload: await encodeVaultValue(data) };
+};
+
+const fromRow = async <T>(row: ArtifactRow): Promise<Artifact<T>> => ({
+  ...(await decodeVaultValue(row.payload)),
+  id: row.id,
+  type: row.type,
+  owner: row.owner,
+  timestamp: row.timestamp,
+  ...(row.favorite ? { favorite: true } : {})
+});
+
+const readOwned = async (store: ArtifactStore, id: string) => {
+  const db = await initVault();
+  const row = await settle<ArtifactRow | undefined>(db.transaction([store], 'readonly').objectStore(store).get(id));
+  return row && row.owner === activeOwner ? row : null;
+};
+
+const footprintOf = ({ payload, ...meta }: ArtifactRow): ArtifactFootprint => ({ ...meta, bytes: estimateBytes(payload) });
+
+const writeRows = async (store: ArtifactStore, rows: ArtifactRow[]) => {
+  const db = await initVault();
+  const transaction = db.transaction([store], 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  rows.forEach(row => objectStore.put(row));
+  return completion(transaction);
+};
+
+// Cursors are "timestamp:id" of the last item returned; ties on timestamp are broken by id, as the index orders them.
+const parseCursor = (cursor?: string | null) => {
+  if (!cursor) return null;
+  const split = cursor.indexOf(':');
+  return { timestamp: Number(cursor.slice(0, split)), id: cursor.slice(split + 1) };
+};
+
+const indexRange = (store: IDBObjectStore, owner: string, query: ArtifactQuery, upper: number) => {
+  const lower = query.since ?? -Infinity;
+  return query.type
+    ? { index: store.index('owner_type_timestamp'), range: IDBKeyRange.bound([owner, query.type, lower], [owner, query.type, upper]) }
+    : { index: store.index('owner_timestamp'), range: IDBKeyRange.bound([owner, lower], [owner, upper]) };
+};
+
+/**
+ * Reads up to `limit` rows newest-first. Decryption happens after the transaction, which cannot outlive an await.
+ */
+const readPage = async (store: ArtifactStore, owner: string, query: ArtifactQuery): Promise<{ rows: ArtifactRow[]; more: boolean }> => {
+  const db = await initVault();
+  const after = parseCursor(query.cursor);
+  const limit = query.limit ?? Infinity;
+  const { index, range } = indexRange(db.transaction([store], 'readonly').objectStore(store), owner, query, after ? after.timestamp : Infinity);
+
+  return new Promise((resolve, reject) => {
+    const rows: ArtifactRow[] = [];
+    const request = index.openCursor(range, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve({ rows, more: false });
+      const row = cursor.value as ArtifactRow;
+      if (after && row.timestamp === after.timestamp && row.id >= after.id) return cursor.continue();
+      if (rows.length === limit) return resolve({ rows, more: true });
+      rows.push(row);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const createArtifactRepository = <T>(store: ArtifactStore): ArtifactRepository<T> => ({
+  store,
+
+  add: async (type, data, meta = {}) => {
+    const artifact = { ...data, id: meta.id || newId(), type, owner: meta.owner || activeOwner, timestamp: meta.timestamp || Date.now() } as Artifact<T>;
+    await writeRows(store, [await toRow(artifact)]);
+    emitChange({ store, saved: [artifact] });
+    return artifact;
+  },
+
+  put: async (artifact) => {
+    await writeRows(store, [await toRow(artifact)]);
+    emitChange({ store, saved: [artifact] });
+  },
+
+  get: async (id) => {
+    const row = await readOwned(store, id);
+    return row ? fromRow<T>(row) : null;
+  },
+
+  // Merges into the stored artifact, so fields the caller never saw are written back untouched.
+  update: async (id, changes) => {
+    const row = await readOwned(store, id);
+    if (!row) return null;
+    const { favorite, ...rest } = changes;
+    const next = { ...(await fromRow<T>(row)), ...rest, updatedAt: Date.now() } as Artifact<T>;
+    if (favorite !== undefined) next.favorite = favorite || undefined;
+    await writeRows(store, [await toRow(next)]);
+    emitChange({ store, saved: [next] });
+    return next;
+  },
+
+  page: async (query = {}) => {
+    const { rows, more } = await readPage(store, activeOwner, { ...query, limit: query.limit ?? DEFAULT_PAGE_SIZE });
+    const items = await Promise.all(rows.map(row => fromRow<T>(row)));
+    const last = rows[rows.length - 1];
+    return { items, nextCursor: more && last ? `${last.timestamp}:${last.id}` : null };
+  },
+
+  list: async (query = {}) => {
+    const { rows } = await readPage(store, activeOwner, query);
+    return Promise.all(rows.map(row => fromRow<T>(row)));
+  },
+
+  // Ids are shared across owners, so each row is checked before it goes.
+  remove: async (ids) => {
+    const db = await initVault();
+    const transaction = db.transaction([store], 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    const removed: string[] = [];
+    (Array.isArray(ids) ? ids : [ids]).forEach(id => {
+      const request = objectStore.get(id);
+      request.onsuccess = () => {
+        if ((request.result as ArtifactRow | undefined)?.owner !== activeOwner) return;
+        objectStore.delete(id);
+        removed.push(id);
+      };
+    });
+    await completion(transaction);
+    if (removed.length) emitChange({ store, removed });
+  },
+
+  count: async (type) => {
+    const db = await initVault();
+    const { index, range } = indexRange(db.transaction([store], 'readonly').objectStore(store), activeOwner, { type }, Infinity);
+    return settle(index.count(range));
+  },
+
+  footprint: async (query = {}) => {
+    const { rows } = await readPage(store, activeOwner, query);
+    return rows.map(footprintOf);
+  }
+});
+
+export const imageRepository = createArtifactRepository<ImageArtifact>('images');
+export const documentRepository = createArtifactRepository<DocumentArtifact>('documents');
+export const codeRepository = createArtifactRepository<CodeArtifact>('code');
+export const videoRepository = createArtifactRepository<VideoArtifact>('videos');
+export const appRepository = createArtifactRepository<AppArtifact>('apps');
+export const analysisRepository = createArtifactRepository<AnalysisArtifact>('analyses');
+
+const REPOSITORIES: Record<ArtifactStore, ArtifactRepository<any>> = {
+  images: imageRepository,
+  documents: documentRepository,
+  code: codeRepository,
+  videos: videoRepository,
+  apps: appRepository,
+  analyses: analysisRepository
+};
+
+export const repositoryFor = (store: ArtifactStore) => REPOSITORIES[store];
+
+/**
+ * Moves the active user's artifacts to another store as stored, without decrypting them. One whose id is
+ * already taken in the target store gets a new id there, so nothing is overwritten. Resolves to the id
+ * each moved artifact now has, by its old id.
+ */
+export const moveArtifacts = async (from: ArtifactStore, to: ArtifactStore, ids: string[]): Promise<Map<string, string>> => {
+  const placedIds = new Map<string, string>();
+  if (from === to) return placedIds;
+  const db = await initVault();
+  const transaction = db.transaction([from, to], 'readwrite');
+  const source = transaction.objectStore(from);
+  const target = transaction.objectStore(to);
+  ids.forEach(id => {
+    const request = source.get(id);
+    request.onsuccess = () => {
+      const row = request.result as ArtifactRow | undefined;
+      if (!row || row.owner !== activeOwner) return;
+      const existing = target.get(id);
+      existing.onsuccess = () => {
+        const placed = existing.result ? { ...row, id: newId() } : row;
+        target.put(placed);
+        source.delete(id);
+        placedIds.set(id, placed.id);
+      };
+    };
+  });
+  await completion(transaction);
+  emitChange({ store: from, removed: [...placedIds.keys()] });
+  emitChange({ store: to, moved: [...placedIds.values()] });
+  return placedIds;
+};
+
+/**
+ * Schema v1 kept each tool's history as one array under a `vault_data` key.
+ */
+const LEGACY_KEYS: { key: string; store: ArtifactStore; type: (item: any) => ArtifactType }[] = [
+  { key: 'neural_image_gallery', store: 'images', type: () => 'image' },
+  { key: 'neural_drawing_gallery', store: 'images', type: () => 'drawing' },
+  { key: 'neural_analysis_history', store: 'documents', type: () => 'document' },
+  { key: 'neural_code_repo', store: 'code', type: () => 'code' },
+  { key: 'neural_api_vault', store: 'code', type: () => 'api' },
+  { key: 'neural_video_history', store: 'videos', type: () => 'video' },
+  { key: 'neural_app_vault', store: 'apps', type: () => 'app' },
+  { key: 'neural_apk_analysis_history', store: 'analyses', type: item => item.subCategory === 'System Self-Scan' ? 'self-scan' : 'apk-analysis' }
+];
+
+export const isLegacyArtifactKey = (key: string) => LEGACY_KEYS.some(l => l.key === key);
+
+/**
+ * Converts a v1 history array into artifacts. Ids are derived from the key and position when an item has none,
+ * so running the conversion twice yields the same records.
+ */
+export const legacyToArtifacts = (key: string, value: any, owner: string): { store: ArtifactStore; artifacts: Artifact<any>[] } | null => {
+  const legacy = LEGACY_KEYS.find(l => l.key === key);
+  if (!legacy || !Array.isArray(value)) return null;
+  const now = Date.now();
+  const artifacts = value
+    .filter(item => typeof item === 'string' || (item && typeof item === 'object'))
+    .map((item, i) => {
+      // The image gallery stored bare URLs; newest first, so the position stands in for the age.
+      const data = typeof item === 'string' ? { content: item } : item;
+      const { id, timestamp, type: _uiType, ...rest } = data;
+      return {
+        ...rest,
+        id: id ? String(id) : `legacy-${key}-${i}`,
+        type: legacy.type(data),
+        owner,
+        timestamp: typeof timestamp === 'number' ? timestamp : now - i
+      } as Artifact<any>;
+    });
+  return { store: legacy.store, artifacts };
+};
+
+/**
+ * Images saved before media was stored as Blobs carry a data URL in `content`; keep the bytes instead.
+ * One at a time, since each thumbnail decodes a full image.
+ */
+const withMediaBlobs = async (artifacts: Artifact<any>[]) => {
+  const converted: Artifact<any>[] = [];
+  for (const artifact of artifacts) {
+    if (artifact.blob || !isDataUrl(artifact.content)) {
+      converted.push(artifact);
+      continue;
+    }
+    const { content, ...rest } = artifact;
+    try {
+      const blob = dataUrlToBlob(content);
+      converted.push({ ...rest, blob, thumbnail: await createThumbnail(blob), mimeType: blob.type });
+    } catch (e) {
+      converted.push(artifact);
+    }
+  }
+  return converted;
+};
+
+/**
+ * Moves v1 history arrays into their object stores. Runs after the vault is open (and unlocked),
+ * since the arrays may be encrypted; safe to repeat if interrupted.
+ */
+const migrateLegacyArtifacts = async () => {
+  const migrated: string[] = [];
+  for (const { key } of LEGACY_KEYS) {
+    const converted = legacyToArtifacts(key, await getFromVault(key), GUEST_NAMESPACE);
+    if (!converted) continue;
+    await writeArtifacts(converted.store, converted.artifacts);
+    migrated.push(key);
+  }
+  if (migrated.length) await removeFromVault(migrated);
+};
+
+/**
+ * Hands a guest's artifacts to the account that just signed in, mirroring how chats are adopted.
+ */
+const adoptGuestArtifacts = async (owner: string) => {
+  const db = await initVault();
+  const transaction = db.transaction([...ARTIFACT_STORES], 'readwrite');
+  ARTIFACT_STORES.forEach(name => {
+    const request = transaction.objectStore(name).index('owner').openCursor(IDBKeyRange.only(GUEST_NAMESPACE));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.update({ ...cursor.value, owner });
+      cursor.continue();
+    };
+  });
+  return completion(transaction);
+};
+
+/**
+ * Points the repositories at a user. App waits for this before rendering any view that reads artifacts.
+ */
+export const activateArtifactOwner = async (namespace: string) => {
+  const current = ++activation;
+  await migrateLegacyArtifacts();
+  if (namespace !== GUEST_NAMESPACE) await adoptGuestArtifacts(namespace);
+  if (current === activation) activeOwner = namespace;
+};
+
+/**
+ * Every artifact one user owns in a store, decrypted, for backups.
+ */
+export const readArtifactStore = async (store: ArtifactStore, owner: string): Promise<Artifact<any>[]> => {
+  const db = await initVault();
+  const rows = await settle<ArtifactRow[]>(db.transaction([store], 'readonly').objectStore(store).index('owner').getAll(owner));
+  return Promise.all(rows.map(row => fromRow(row)));
+};
+
+// Ids are only unique within a store, and not per owner, so a written id may already belong to someone else.
+const idsOwnedByOthers = async (store: ArtifactStore, artifacts: Artifact<any>[]) => {
+  const db = await initVault();
+  const objectStore = db.transaction([store], 'readonly').objectStore(store);
+  const rows = await Promise.all(artifacts.map(a => settle<ArtifactRow | undefined>(objectStore.get(a.id))));
+  return new Set(rows.filter((row, i) => row && row.owner !== artifacts[i].owner).map(row => row!.id));
+};
+
+/**
+ * Sizes of every artifact in a store regardless of owner, for storage reports.
+ */
+export const measureArtifactStore = async (store: ArtifactStore): Promise<ArtifactFootprint[]> => {
+  const db = await initVault();
+  const rows = await settle<ArtifactRow[]>(db.transaction([store], 'readonly').objectStore(store).getAll());
+  return rows.map(footprintOf);
+};
+
+/**
+ * Writes artifacts as they are, owner included. One whose id is taken by another user's artifact gets a new id
+ * rather than replacing it.
+ */
+export const writeArtifacts = async (store: ArtifactStore, artifacts: Artifact<any>[]) => {
+  const taken = await idsOwnedByOthers(store, artifacts);
+  const converted = (await withMediaBlobs(artifacts)).map(a => taken.has(a.id) ? { ...a, id: newId() } : a);
+  await writeRows(store, await Promise.all(converted.map(toRow)));
+  const saved = converted.filter(artifact => artifact.owner === activeOwner);
+  if (saved.length) emitChange({ store, saved });
+};
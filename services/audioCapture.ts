@@ -0,0 +1,221 @@
+export const CAPTURE_SAMPLE_RATE = 16000; // What the Live API expects
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`;
+const FRAME_SAMPLES = 1600; // 100 ms per message
+const LEVEL_WINDOW_SECONDS = 0.05;
+const PROCESSOR_NAME = 'little-ai-pcm-capture';
+
+/**
+ * Resamples a mono Float32 stream to 16-bit PCM at the target rate and cuts it into fixed-size frames.
+ * Runs inside the capture worklet, so it must stay self-contained: no imports, no module-level helpers.
+ */
+export class PcmEncoder {
+  private step: number;
+  private smoothing: number;
+  private position = 0; // Read position of the next output sample, relative to the current block
+  private previous = 0; // Last input sample of the previous block, for interpolating across blocks
+  private filtered = 0;
+  private frame: Int16Array;
+  private filled = 0;
+
+  constructor(inputRate: number, outputRate: number, frameSamples: number) {
+    this.step = inputRate / outputRate;
+    // One-pole low-pass just under the new Nyquist frequency, so downsampling doesn't alias.
+    this.smoothing = inputRate > outputRate ? 1 - Math.exp(-2 * Math.PI * (outputRate * 0.45) / inputRate) : 1;
+    this.frame = new Int16Array(frameSamples);
+  }
+
+  /** Returns the frames completed by this block. */
+  push(samples: Float32Array): Int16Array[] {
+    const frames: Int16Array[] = [];
+    const input = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      this.filtered += this.smoothing * (samples[i] - this.filtered);
+      input[i] = this.filtered;
+    }
+
+    const last = input.length - 1;
+    while (this.position < last) {
+      const index = Math.floor(this.position);
+      const from = index < 0 ? this.previous : input[index];
+      const value = from + (input[index + 1] - from) * (this.position - index);
+      const clamped = Math.max(-1, Math.min(1, value));
+      this.frame[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+      if (this.filled === this.frame.length) {
+        frames.push(this.frame);
+        this.frame = new Int16Array(this.frame.length);
+        this.filled = 0;
+      }
+      this.position += this.step;
+    }
+    if (input.length) {
+      this.position -= input.length;
+      this.previous = input[last];
+    }
+    return frames;
+  }
+
+  /** Returns the partly filled frame, if any, and starts afresh. */
+  flush(): Int16Array | null {
+    const rest = this.filled ? this.frame.slice(0, this.filled) : null;
+    this.filled = 0;
+    this.position = 0;
+    this.previous = 0;
+    this.filtered = 0;
+    return rest;
+  }
+}
+
+/**
+ * Decides from successive mic levels when the user has started talking, e.g. over the model's reply.
+ * Tracks the background noise so a steady hum or fan doesn't count as speech.
+ */
+export class VoiceActivityDetector {
+  private floor = 0.01;
+  private loudWindows = 0;
+  private speaking = false;
+
+  constructor(private minLevel = 0.03, private onsetWindows = 3) {}
+
+  /** Feeds one level window; true once, when speech begins. */
+  update(level: number): boolean {
+    this.floor = level < this.floor ? level : this.floor + (level - this.floor) * 0.005;
+    const loud = level > Math.max(this.minLevel, this.floor * 4);
+    this.loudWindows = loud ? this.loudWindows + 1 : 0;
+    if (!loud) this.speaking = false;
+    if (this.speaking || this.loudWindows < this.onsetWindows) return false;
+    this.speaking = true;
+    return true;
+  }
+
+  reset() {
+    this.loudWindows = 0;
+    this.speaking = false;
+  }
+}
+
+// The worklet gets the encoder's compiled source, so the audio thread runs the very class defined above.
+const processorSource = () => `
+const Encoder = ${PcmEncoder.toString()};
+registerProcessor('${PROCESSOR_NAME}', class extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.encoder = new Encoder(sampleRate, ${CAPTURE_SAMPLE_RATE}, options.processorOptions.frameSamples);
+    this.open = false;
+    this.levelWindow = Math.round(sampleRate * ${LEVEL_WINDOW_SECONDS});
+    this.levelSum = 0;
+    this.levelCount = 0;
+    this.port.onmessage = (e) => {
+      if (e.data.open === this.open) return;
+      this.open = e.data.open;
+      if (this.open) return;
+      this.levelSum = this.levelCount = 0;
+      const rest = this.encoder.flush();
+      if (rest) this.port.postMessage(rest, [rest.buffer]);
+      this.port.postMessage('paused');
+    };
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!this.open || !channel) return true;
+    for (let i = 0; i < channel.length; i++) this.levelSum += channel[i] * channel[i];
+    this.levelCount += channel.length;
+    if (this.levelCount >= this.levelWindow) {
+      this.port.postMessage({ level: Math.sqrt(this.levelSum / this.levelCount) });
+      this.levelSum = this.levelCount = 0;
+    }
+    for (const frame of this.encoder.push(channel)) this.port.postMessage(frame, [frame.buffer]);
+    return true;
+  }
+});`;
+
+/** Where the captured audio comes from. A recording stands in for the microphone when testing. */
+export type CaptureSource = { kind: 'microphone' } | { kind: 'file'; file: Blob };
+
+export interface AudioCaptureHandlers {
+  onFrame: (pcm: Int16Array) => void;
+  /** After the gate closes and the last partial frame is out, e.g. to tell the server the user stopped talking. */
+  onPause?: () => void;
+  /** RMS of the mic every 50 ms while the gate is open. */
+  onLevel?: (level: number) => void;
+}
+
+export interface AudioCapture {
+  /** Mute and push-to-talk. Closing flushes what was said so far; nothing is sent while closed. */
+  setOpen: (open: boolean) => void;
+  /** Resolves when a recording has played to the end; never for the microphone. */
+  ended: Promise<void>;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Captures mono audio as 16 kHz PCM frames, resampled and encoded off the main thread in an AudioWorklet.
+ * Starts with the gate closed. A recording starts playing the first time the gate opens, so none of it
+ * is lost while a call connects.
+ */
+export const startAudioCapture = async (source: CaptureSource, handlers: AudioCaptureHandlers): Promise<AudioCapture> => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
+  let stream: MediaStream | null = null;
+  const moduleUrl = URL.createObjectURL(new Blob([processorSource()], { type: 'text/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+    await ctx.resume();
+
+    const worklet = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { frameSamples: FRAME_SAMPLES }
+    });
+    worklet.port.onmessage = (e) => {
+      if (e.data === 'paused') handlers.onPause?.();
+      else if (e.data instanceof Int16Array) handlers.onFrame(e.data);
+      else handlers.onLevel?.(e.data.level);
+    };
+
+    let input: AudioNode;
+    let play: (() => void) | null = null;
+    let ended: Promise<void>;
+    if (source.kind === 'microphone') {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+      input = ctx.createMediaStreamSource(stream);
+      ended = new Promise(() => {});
+    } else {
+      const player = ctx.createBufferSource();
+      player.buffer = await ctx.decodeAudioData(await source.file.arrayBuffer());
+      input = player;
+      play = () => player.start();
+      ended = new Promise(resolve => { player.onended = () => resolve(); });
+    }
+    input.connect(worklet);
+
+    let stopped = false;
+    const capture: AudioCapture = {
+      setOpen: (open) => {
+        if (stopped) return;
+        if (open && play) {
+          play();
+          play = null;
+        }
+        worklet.port.postMessage({ open });
+      },
+      ended,
+      stop: async () => {
+        if (stopped) return;
+        stopped = true;
+        input.disconnect();
+        worklet.port.onmessage = null;
+        stream?.getTracks().forEach(track => track.stop());
+        if (ctx.state !== 'closed') await ctx.close().catch(() => {});
+      }
+    };
+    ended.then(() => capture.setOpen(false));
+    return capture;
+  } catch (e) {
+    stream?.getTracks().forEach(track => track.stop());
+    if (ctx.state !== 'closed') await ctx.close().catch(() => {});
+    throw e;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+};
@@ -0,0 +1,77 @@
+import { decodeBase64, decodeAudioData } from "./encoding";
+
+export const PLAYBACK_SAMPLE_RATE = 24000; // What the Live API sends back
+
+/**
+ * Plays the model's audio chunks back to back, and can cut everything queued at once when the user talks over it.
+ */
+export interface PlaybackQueue {
+  /** Queues a base64 chunk of 16-bit mono PCM right after whatever is already scheduled. */
+  enqueue: (base64: string) => Promise<void>;
+  /** Stops the chunk playing now and drops the rest. Returns whether anything was cut off. */
+  flush: () => boolean;
+  isPlaying: () => boolean;
+  /** RMS of what is audible right now, 0 to 1. */
+  level: () => number;
+  close: () => Promise<void>;
+}
+
+/**
+ * RMS over a short window, the loudness the level meters show.
+ */
+export const rmsLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+export const createPlaybackQueue = async (): Promise<PlaybackQueue> => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PLAYBACK_SAMPLE_RATE, latencyHint: 'interactive' });
+  await ctx.resume();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.connect(ctx.destination);
+  const samples = new Float32Array(analyser.fftSize);
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let flushes = 0; // Chunks still decoding when a flush happens are dropped too
+
+  return {
+    enqueue: async (base64) => {
+      if (ctx.state === 'closed') return;
+      const current = flushes;
+      if (ctx.state === 'suspended') await ctx.resume();
+      const buffer = await decodeAudioData(decodeBase64(base64), ctx, PLAYBACK_SAMPLE_RATE, 1);
+      if (current !== flushes || ctx.state === 'closed') return;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(analyser);
+      nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+      source.start(nextStartTime);
+      nextStartTime += buffer.duration;
+      sources.add(source);
+      source.onended = () => sources.delete(source);
+    },
+    flush: () => {
+      flushes++;
+      const cut = sources.size > 0;
+      for (const source of sources) {
+        try { source.stop(); } catch (e) {}
+      }
+      sources.clear();
+      nextStartTime = 0;
+      return cut;
+    },
+    isPlaying: () => sources.size > 0,
+    level: () => {
+      if (!sources.size) return 0;
+      analyser.getFloatTimeDomainData(samples);
+      return rmsLevel(samples);
+    },
+    close: async () => {
+      sources.clear();
+      if (ctx.state !== 'closed') await ctx.close().catch(() => {});
+    }
+  };
+};
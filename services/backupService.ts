@@ -0,0 +1,308 @@
+import { Artifact } from "../types";
+import { ArtifactStore, ARTIFACT_STORES, readVaultRecords, writeVaultRecords, userKeyPrefix } from "./storageService";
+import { readArtifactStore, writeArtifacts, legacyToArtifacts } from "./artifactRepository";
+import { VAULT_FOLDERS } from "./vaultFolders";
+import { encodeBase64, decodeBase64 } from "./encoding";
+import { VaultKey, deriveArchiveKey, sealBytes, openBytes } from "./vaultCrypto";
+
+export const BACKUP_FORMAT = 'little-ai-vault-backup';
+// v1 archives carried tool histories as shared arrays under their old vault keys; v2 carries the owner's artifacts per store;
+// v3 appends generated media to the body as raw bytes.
+export const BACKUP_SCHEMA_VERSION = 3;
+const BLOB_FIELD = '$blob';
+const PREAMBLE = new RegExp(`^${BACKUP_FORMAT} (\\d+) (\\d+)\\n`);
+const PREAMBLE_BYTES = 64;
+// Versioned records keep their items in one of these fields (chat archive, memories, usage ledger).
+const LIST_FIELDS = ['sessions', 'memories', 'entries'];
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  owner: string; // The user whose records and artifacts these are
+  sealed?: boolean;
+  folders: string[] | null; // Vault Explorer folders included; null for a full backup
+  keys: string[];
+  stores: ArtifactStore[];
+  itemCount: number;
+}
+
+export interface VaultBackup {
+  manifest: BackupManifest;
+  records: Record<string, any>; // Decrypted user records (chats, memories, usage) by key, without the user prefix
+  artifacts: Partial<Record<ArtifactStore, Artifact<any>[]>>; // Decrypted, the owner's only
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportReport {
+  records: number;
+  added: number;
+  updated: number;
+  skipped: number; // Duplicates that lost to a newer copy, and records that could not be merged
+}
+
+/**
+ * The container after its first line: the manifest, how to open a sealed archive, and the byte length of
+ * the body (records and artifacts as JSON) and of each media item that follows it.
+ */
+interface ArchiveHeader {
+  manifest: BackupManifest;
+  seal?: { salt: string; iterations: number };
+  body: { size: number; iv?: string };
+  media?: { size: number; type: string; iv?: string }[]; // v3 onwards
+}
+
+/**
+ * The list of id-bearing items inside a record, or null for values that are not lists.
+ */
+const itemsOf = (value: any): any[] | null => {
+  if (Array.isArray(value)) return value;
+  const field = value && typeof value === 'object' ? LIST_FIELDS.find(f => Array.isArray(value[f])) : undefined;
+  return field ? value[field] : null;
+};
+
+const withItems = (value: any, items: any[]) => {
+  if (Array.isArray(value)) return items;
+  const field = LIST_FIELDS.find(f => Array.isArray(value[f]))!;
+  return { ...value, [field]: items };
+};
+
+const sameShape = (a: any, b: any) =>
+  Array.isArray(a) ? Array.isArray(b) : LIST_FIELDS.some(f => Array.isArray(a?.[f]) && Array.isArray(b?.[f]));
+
+const identity = (item: any) => item.id !== undefined && item.id !== null ? `id:${item.id}` : `json:${JSON.stringify(item)}`;
+
+const modifiedAt = (item: any) => item.updatedAt ?? item.timestamp ?? 0;
+
+/**
+ * Merges incoming items into existing ones, one item per id. On a clash the more recently modified copy wins;
+ * ties keep the existing one. Items without an id are compared by content.
+ */
+const mergeItems = (existing: any[], incoming: any[], report: ImportReport) => {
+  const byId = new Map<string, any>();
+  existing.forEach(item => byId.set(identity(item), item));
+  const known = new Set(byId.keys());
+  incoming.forEach(item => {
+    const key = identity(item);
+    const current = byId.get(key);
+    if (!current) {
+      byId.set(key, item);
+      report.added++;
+    } else if (modifiedAt(item) > modifiedAt(current)) {
+      byId.set(key, item);
+      if (known.has(key)) report.updated++;
+    } else {
+      report.skipped++;
+    }
+  });
+  return [...byId.values()];
+};
+
+/**
+ * Reads one user's vault (or just the chosen Vault Explorer folders, without chats and memories) into a backup archive.
+ */
+export const createVaultBackup = async (owner: string, folderIds?: string[]): Promise<VaultBackup> => {
+  const prefix = userKeyPrefix(owner);
+  const records: Record<string, any> = {};
+  if (!folderIds) {
+    Object.entries(await readVaultRecords({ prefix })).forEach(([key, value]) => {
+      if (value !== undefined) records[key.slice(prefix.length)] = value;
+    });
+  }
+  const stores = folderIds ? VAULT_FOLDERS.filter(f => folderIds.includes(f.id)).map(f => f.store) : [...ARTIFACT_STORES];
+  const artifacts: VaultBackup['artifacts'] = {};
+  for (const store of stores) artifacts[store] = await readArtifactStore(store, owner);
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      exportedAt: Date.now(),
+      owner,
+      sealed: false,
+      folders: folderIds || null,
+      keys: Object.keys(records),
+      stores,
+      itemCount: Object.values(records).reduce((sum, value) => sum + (itemsOf(value)?.length ?? 1), 0)
+        + Object.values(artifacts).reduce((sum, list) => sum + (list?.length || 0), 0)
+    },
+    records,
+    artifacts
+  };
+};
+
+export const backupFileName = (backup: VaultBackup) =>
+  `little-ai-vault-${new Date(backup.manifest.exportedAt).toISOString().slice(0, 10)}.backup`;
+
+/**
+ * Packs a backup into a container file: a first line naming the format, a JSON header that can be read
+ * without the passphrase, then the body. Media goes in as raw bytes after the body, referenced from it
+ * as `{ $blob: index }`. Unsealed, the stored Blobs are handed to the file as they are; sealed, they are
+ * encrypted one at a time, so only one item's bytes are ever held in memory.
+ */
+export const backupToBlob = async (backup: VaultBackup, passphrase?: string): Promise<Blob> => {
+  const blobs: Blob[] = [];
+  const body = new TextEncoder().encode(JSON.stringify({ records: backup.records, artifacts: backup.artifacts },
+    (_key, value) => value instanceof Blob ? { [BLOB_FIELD]: blobs.push(value) - 1 } : value));
+  const header: ArchiveHeader = { manifest: { ...backup.manifest, sealed: !!passphrase }, body: { size: body.byteLength }, media: [] };
+  const parts: BlobPart[] = [];
+
+  if (!passphrase) {
+    parts.push(body, ...blobs);
+    header.media = blobs.map(blob => ({ size: blob.size, type: blob.type }));
+  } else {
+    const { salt, iterations, vaultKey } = await deriveArchiveKey(passphrase);
+    header.seal = { salt: encodeBase64(salt), iterations };
+    const sealed = await sealBytes(body, vaultKey);
+    header.body = { size: sealed.data.byteLength, iv: encodeBase64(sealed.iv) };
+    parts.push(new Blob([sealed.data]));
+    for (const blob of blobs) {
+      const { iv, data } = await sealBytes(await blob.arrayBuffer(), vaultKey);
+      header.media!.push({ size: data.byteLength, type: blob.type, iv: encodeBase64(iv) });
+      parts.push(new Blob([data]));
+    }
+  }
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  return new Blob([`${BACKUP_FORMAT} ${BACKUP_SCHEMA_VERSION} ${headerBytes.byteLength}\n`, headerBytes, ...parts], { type: 'application/octet-stream' });
+};
+
+const notABackup = () => new Error("This file is not a Little Ai vault backup.");
+
+/**
+ * The container's header and where its body starts.
+ */
+const readHeader = async (file: Blob): Promise<{ header: ArchiveHeader; offset: number }> => {
+  const match = (await file.slice(0, PREAMBLE_BYTES).text()).match(PREAMBLE);
+  if (!match) throw notABackup();
+  const offset = match[0].length + Number(match[2]);
+  try {
+    return { header: JSON.parse(await file.slice(match[0].length, offset).text()), offset };
+  } catch (e) {
+    throw notABackup();
+  }
+};
+
+/**
+ * Whether a backup file needs a passphrase to be read.
+ */
+export const isSealedBackup = async (file: Blob) => !!(await readHeader(file)).header.seal;
+
+const checkManifest = (manifest: any) => {
+  if (manifest?.format !== BACKUP_FORMAT) throw notABackup();
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup uses schema v${manifest.schemaVersion}, which is newer than this app supports (v${BACKUP_SCHEMA_VERSION}).`);
+  }
+};
+
+const isArtifact = (item: any): item is Artifact<any> =>
+  !!item && typeof item === 'object' && typeof item.id === 'string' && typeof item.type === 'string' && typeof item.timestamp === 'number';
+
+/**
+ * Validates a parsed body. The shared histories of v1 archives are converted to artifacts.
+ */
+const readBody = (manifest: BackupManifest, parsed: any): VaultBackup => {
+  const records: Record<string, any> = {};
+  const artifacts: VaultBackup['artifacts'] = {};
+  const addArtifacts = (store: ArtifactStore, list: any[]) => {
+    artifacts[store] = [...(artifacts[store] || []), ...list.filter(isArtifact)];
+  };
+
+  Object.entries(parsed?.records || {}).forEach(([key, value]) => {
+    if (!key || value === undefined || value === null) return;
+    const items = itemsOf(value);
+    // List records must hold objects; anything else is dropped rather than written into the vault.
+    records[key] = items ? withItems(value, items.filter(item => item && typeof item === 'object' && !Array.isArray(item))) : value;
+  });
+  Object.entries(parsed?.shared || {}).forEach(([key, value]) => {
+    const legacy = legacyToArtifacts(key, value, manifest.owner);
+    if (legacy) addArtifacts(legacy.store, legacy.artifacts);
+  });
+  Object.entries(parsed?.artifacts || {}).forEach(([store, list]) => {
+    if ((ARTIFACT_STORES as readonly string[]).includes(store) && Array.isArray(list)) addArtifacts(store as ArtifactStore, list);
+  });
+
+  return {
+    manifest: { ...manifest, keys: Object.keys(records), stores: Object.keys(artifacts) as ArtifactStore[] },
+    records,
+    artifacts
+  };
+};
+
+/**
+ * Parses and validates a backup file. Throws with a readable message when it cannot be imported,
+ * including when a sealed archive's passphrase is missing or wrong. Media in an unsealed archive
+ * stays in the file until it is written to the vault.
+ */
+export const parseVaultBackup = async (file: Blob, passphrase?: string): Promise<VaultBackup> => {
+  const { header, offset } = await readHeader(file);
+  checkManifest(header.manifest);
+
+  let key: VaultKey | null = null;
+  if (header.seal) {
+    if (!passphrase) throw new Error("This backup is sealed. Enter its passphrase to import it.");
+    key = (await deriveArchiveKey(passphrase, decodeBase64(header.seal.salt), header.seal.iterations)).vaultKey;
+  }
+
+  const open = async (data: Blob, iv?: string) => key && iv ? openBytes(decodeBase64(iv), await data.arrayBuffer(), key) : data.arrayBuffer();
+
+  const end = offset + header.body.size + (header.media || []).reduce((sum, item) => sum + item.size, 0);
+  if (end > file.size) throw new Error("This backup is incomplete.");
+  let parsed: any;
+  let position = offset + header.body.size;
+  try {
+    const body = await open(file.slice(offset, position), header.body.iv);
+    const media: Blob[] = [];
+    for (const item of header.media || []) {
+      const data = file.slice(position, position + item.size, item.type);
+      position += item.size;
+      media.push(key ? new Blob([await open(data, item.iv)], { type: item.type }) : data);
+    }
+    parsed = JSON.parse(new TextDecoder().decode(body), (_key, value) =>
+      value && typeof value === 'object' && typeof value[BLOB_FIELD] === 'number' ? media[value[BLOB_FIELD]] : value);
+  } catch (e) {
+    throw key ? new Error("Incorrect backup passphrase.") : notABackup();
+  }
+  return readBody(header.manifest, parsed);
+};
+
+/**
+ * Writes a backup into `owner`'s part of the vault, whoever exported it. `replace` overwrites each record and
+ * artifact the backup contains; `merge` combines item lists and artifacts by id and leaves existing non-list
+ * records alone. Anything outside the backup, and every other user's data, is never touched.
+ */
+export const importVaultBackup = async (backup: VaultBackup, mode: ImportMode, owner: string): Promise<ImportReport> => {
+  const report: ImportReport = { records: 0, added: 0, updated: 0, skipped: 0 };
+  const prefix = userKeyPrefix(owner);
+  const existing = mode === 'merge' ? await readVaultRecords({ keys: Object.keys(backup.records).map(key => prefix + key) }) : {};
+  const next: Record<string, any> = {};
+
+  Object.entries(backup.records).forEach(([name, incoming]) => {
+    const key = prefix + name;
+    const current = existing[key];
+    const incomingItems = itemsOf(incoming);
+
+    if (current === undefined || current === null || mode === 'replace') {
+      next[key] = incomingItems ? withItems(incoming, mergeItems([], incomingItems, report)) : incoming;
+      if (!incomingItems) report.added++;
+    } else if (incomingItems && sameShape(current, incoming)) {
+      next[key] = withItems(current, mergeItems(itemsOf(current)!, incomingItems, report));
+    } else {
+      report.skipped++;
+      return;
+    }
+    report.records++;
+  });
+
+  await writeVaultRecords(next);
+
+  for (const [store, incoming] of Object.entries(backup.artifacts) as [ArtifactStore, Artifact<any>[]][]) {
+    const existing = mode === 'merge' ? await readArtifactStore(store, owner) : [];
+    const merged = mergeItems(existing, incoming.map(a => ({ ...a, owner })), report);
+    const known = new Set(existing);
+    // Only what the merge actually took from the backup needs writing.
+    await writeArtifacts(store, merged.filter(item => !known.has(item)));
+  }
+  return report;
+};
@@ -1,18 +1,19 @@
-import { GoogleGenAI } from "@google/genai";
+import { generateText } from "./geminiService";
 import { LinkedInCompanyInfo } from "../types";
 
 /**
  * Fetches company details using the provided API structure.
  * Note: Replace placeholder URL/Key with actual implementation details.
  */
-export const fetchCompanyDetails = async (companyIdOrUrl: string): Promise<LinkedInCompanyInfo> => {
+export const fetchCompanyDetails = async (companyIdOrUrl: string, signal?: AbortSignal): Promise<LinkedInCompanyInfo> => {
   // This is a template for the API call based on the provided schema
   // In a real scenario, the user would provide the endpoint URL and their rapidapi/custom key.
   const response = await fetch(`https://api.example.com/company?url=${encodeURIComponent(companyIdOrUrl)}`, {
     method: 'GET',
     headers: {
       'X-API-Key': 'YOUR_API_KEY_HERE' // Placeholder
-    }
+    },
+    signal
   });
 
   if (!response.ok) {
@@ -25,9 +26,7 @@ export const fetchCompanyDetails = async (companyIdOrUrl: string): Promise<Linke
 /**
  * Uses Gemini to provide a strategic analysis of the company data.
  */
-export const analyzeCompanyWithGemini = async (companyData: LinkedInCompanyInfo['data']) => {
-  // Fix: Create a new GoogleGenAI instance right before making an API call to ensure it always uses the most up-to-date API key.
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const analyzeCompanyWithGemini = async (companyData: LinkedInCompanyInfo['data'], signal?: AbortSignal) => {
   const prompt = `Analyze this company based on its LinkedIn profile data:
   Name: ${companyData.name}
   Tagline: ${companyData.tagline}
@@ -42,9 +41,10 @@ export const analyzeCompanyWithGemini = async (companyData: LinkedInCompanyInfo[
   2. Potential SWOT analysis (Strengths, Weaknesses, Opportunities, Threats).
   3. Recommendation for a strategic partnership or investment pitch.`;
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+  const response = await generateText({
     contents: prompt,
+    signal,
+    task: 'company-insights'
   });
 
   return response.text;
@@ -0,0 +1,142 @@
+import { ChatSession, Message, TranscriptTurn } from "../types";
+
+const ROOT_KEY = '__root__';
+
+const branchKey = (parentId: string | null | undefined) => parentId ?? ROOT_KEY;
+
+export const newMessageId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Gives flat, pre-branching message lists explicit parent links (each message follows the one before it).
+ */
+export const linkLegacyMessages = (messages: Message[]): Message[] =>
+  messages.map((m, i) => m.parentId !== undefined ? m : { ...m, parentId: i === 0 ? null : messages[i - 1].id });
+
+export const getChildren = (session: ChatSession, parentId: string | null): Message[] =>
+  session.messages.filter(m => (m.parentId ?? null) === parentId);
+
+/**
+ * Alternatives for a message: itself plus every other reply to the same parent.
+ */
+export const getSiblings = (session: ChatSession, message: Message): Message[] =>
+  getChildren(session, message.parentId ?? null);
+
+/**
+ * Walks the tree from the root following the selected branch at each fork
+ * (the newest child when nothing has been selected).
+ */
+export const getActivePath = (session: ChatSession): Message[] => {
+  const path: Message[] = [];
+  let parentId: string | null = null;
+  while (true) {
+    const children = getChildren(session, parentId);
+    if (children.length === 0) break;
+    const selectedId = session.activeBranches?.[branchKey(parentId)];
+    const next = children.find(c => c.id === selectedId) || children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+  return path;
+};
+
+/**
+ * Adds a message under its parent and makes it the selected branch.
+ */
+export const addMessage = (session: ChatSession, message: Message): ChatSession => ({
+  ...session,
+  messages: [...session.messages, message],
+  activeBranches: { ...session.activeBranches, [branchKey(message.parentId)]: message.id },
+  updatedAt: Date.now()
+});
+
+export const patchMessage = (session: ChatSession, messageId: string, changes: Partial<Message>): ChatSession => ({
+  ...session,
+  messages: session.messages.map(m => m.id === messageId ? { ...m, ...changes } : m),
+  updatedAt: Date.now()
+});
+
+export const updateMessageContent = (session: ChatSession, messageId: string, content: string): ChatSession =>
+  patchMessage(session, messageId, { content });
+
+/**
+ * Removes a leaf message, e.g. a reply that was stopped before any text arrived.
+ */
+export const removeMessage = (session: ChatSession, messageId: string): ChatSession => {
+  const target = session.messages.find(m => m.id === messageId);
+  if (!target) return session;
+  const activeBranches = { ...session.activeBranches };
+  if (activeBranches[branchKey(target.parentId)] === messageId) delete activeBranches[branchKey(target.parentId)];
+  return { ...session, messages: session.messages.filter(m => m.id !== messageId), activeBranches };
+};
+
+export const selectBranch = (session: ChatSession, messageId: string): ChatSession => {
+  const target = session.messages.find(m => m.id === messageId);
+  if (!target) return session;
+  return { ...session, activeBranches: { ...session.activeBranches, [branchKey(target.parentId)]: messageId } };
+};
+
+/**
+ * Selects every fork on the way to a message so it shows on the active path, e.g. when jumping to a search hit.
+ */
+export const revealMessage = (session: ChatSession, messageId: string): ChatSession => {
+  let revealed = session;
+  let current = session.messages.find(m => m.id === messageId);
+  while (current) {
+    revealed = selectBranch(revealed, current.id);
+    const parentId = current.parentId;
+    current = parentId ? session.messages.find(m => m.id === parentId) : undefined;
+  }
+  return revealed;
+};
+
+/**
+ * Adds a transcription fragment to a call transcript. Fragments extend the open turn of the same speaker;
+ * a change of speaker, or `newTurn` after the model finished or was interrupted, starts a new one.
+ */
+export const appendTranscript = (turns: TranscriptTurn[], role: TranscriptTurn['role'], fragment: string, newTurn = false): TranscriptTurn[] => {
+  const last = turns[turns.length - 1];
+  if (last && last.role === role && !newTurn) return [...turns.slice(0, -1), { ...last, text: last.text + fragment }];
+  return [...turns, { role, text: fragment, timestamp: Date.now() }];
+};
+
+/**
+ * Turns a finished call's transcript into a chat session, one message per turn, so it can be
+ * found in history and continued in text.
+ */
+export const sessionFromTranscript = (turns: TranscriptTurn[], startTime: number): ChatSession => {
+  const spoken = turns.map(turn => ({ ...turn, text: turn.text.trim() })).filter(turn => turn.text);
+  const firstUserLine = spoken.find(turn => turn.role === 'user')?.text;
+  let session: ChatSession = {
+    id: startTime.toString(),
+    title: firstUserLine ? firstUserLine.slice(0, 30) : 'Voice call',
+    messages: [],
+    updatedAt: Date.now(),
+    startTime,
+    voice: true
+  };
+  let parentId: string | null = null;
+  spoken.forEach(turn => {
+    const message: Message = { id: newMessageId(), role: turn.role, content: turn.text, timestamp: turn.timestamp, parentId };
+    session = addMessage(session, message);
+    parentId = message.id;
+  });
+  return session;
+};
+
+/**
+ * The latest turns of a call as plain dialogue, for briefing a fresh Live session when the old one
+ * cannot be resumed. Keeps the most recent turns that fit in `maxChars`.
+ */
+export const transcriptSummary = (turns: TranscriptTurn[], maxChars: number): string => {
+  const lines: string[] = [];
+  let length = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const text = turns[i].text.trim();
+    if (!text) continue;
+    const line = `${turns[i].role === 'user' ? 'User' : 'You'}: ${text}`;
+    if (length + line.length > maxChars) break;
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,270 @@
+import { initVault, encodeVaultValue, decodeVaultValue, EMBEDDING_STORE } from "./storageService";
+import { embedTexts } from "./geminiService";
+import { encodeBase64, decodeBase64 } from "./encoding";
+import { searchIndex, SearchDocument, SearchResult, SearchOptions, SearchTarget } from "./searchIndex";
+import { delay, getProvider } from "./providerService";
+import { getModelFor } from "./modelRegistry";
+
+const EMBEDDING_DIMENSIONS = 768;
+const MAX_EMBED_CHARS = 6000; // Well inside the model's input limit
+const MIN_EMBED_CHARS = 3;
+const BATCH_SIZE = 32;
+const BATCH_PAUSE_MS = 500;
+const FLUSH_DELAY_MS = 5000;  // Quiet time before embedding, so a streaming reply is embedded once
+const QUERY_CACHE_SIZE = 20;
+
+/**
+ * How a vector sits in its store. The vector itself is sealed with the rest of the vault;
+ * the hash of the text it was made from stays readable so unchanged items are not re-embedded.
+ */
+interface EmbeddingRow {
+  owner: string;
+  id: string;   // Search document id
+  hash: string; // Of the provider, model and embedded text
+  model: string; // Provider and model that made the vector; only vectors from the same one can be compared
+  payload: any; // Base64 of the Float32 vector
+}
+
+export interface SemanticSearchOptions extends SearchOptions {
+  minSimilarity?: number; // Defaults to what the provider considers related
+  signal?: AbortSignal;
+}
+
+// Embeddings belong to whoever App says is signed in; nothing is embedded while no one is.
+let activeOwner: string | null = null;
+let enabled = false; // Opt-in: App turns it on once the user has agreed to send their text
+let generation = 0;
+let loaded: Promise<void> = Promise.resolve();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+const vectors = new Map<string, { hash: string; model: string; vector: Float32Array }>(); // Unit length, by search document id
+const pending = new Map<string, SearchDocument>();
+const deleted = new Set<string>();
+const queryCache = new Map<string, { model: string; vector: Float32Array }>(); // By model and query text
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error || new Error('Vault write aborted'));
+});
+
+// FNV-1a; only has to tell versions of the same item apart.
+const hashText = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36);
+};
+
+const normalized = (values: ArrayLike<number>) => {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+// Vectors are stored at unit length, so the dot product is the cosine similarity.
+const similarity = (a: Float32Array, b: Float32Array) => {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+};
+
+const embeddedText = (doc: SearchDocument) => `${doc.title}\n${doc.text}`.trim().slice(0, MAX_EMBED_CHARS);
+
+// Vectors from different models (or the offline stand-in) cannot be compared, so the model is part of the hash.
+const modelVersion = (model: string) => `${getProvider().id}:${model}`;
+const versionHash = (model: string, text: string) => hashText(`${modelVersion(model)}\n${text}`);
+
+const loadVectors = async (owner: string, current: number) => {
+  const db = await initVault();
+  const rows = await settle<EmbeddingRow[]>(db.transaction([EMBEDDING_STORE], 'readonly').objectStore(EMBEDDING_STORE).index('owner').getAll(owner));
+  for (const row of rows) {
+    const bytes = decodeBase64(await decodeVaultValue(row.payload));
+    if (current !== generation) return;
+    vectors.set(row.id, { hash: row.hash, model: row.model, vector: new Float32Array(bytes.buffer) });
+  }
+};
+
+const writeRows = async (rows: EmbeddingRow[], removedIds: string[], owner: string) => {
+  const db = await initVault();
+  const transaction = db.transaction([EMBEDDING_STORE], 'readwrite');
+  const store = transaction.objectStore(EMBEDDING_STORE);
+  rows.forEach(row => store.put(row));
+  removedIds.forEach(id => store.delete([owner, id]));
+  return completion(transaction);
+};
+
+/**
+ * Embeds what changed since the last flush, a batch at a time. A failed batch (no key, over budget,
+ * offline) stays pending and is retried the next time anything changes.
+ */
+const flush = async () => {
+  flushTimer = null;
+  if (flushing || !activeOwner || !enabled) return;
+  flushing = true;
+  const owner = activeOwner;
+  const current = generation;
+  try {
+    await loaded;
+    if (current !== generation) return;
+
+    const removedIds = [...deleted];
+    deleted.clear();
+    removedIds.forEach(id => vectors.delete(id));
+    if (removedIds.length) await writeRows([], removedIds, owner);
+
+    while (pending.size && current === generation && enabled) {
+      const batch: { doc: SearchDocument; text: string }[] = [];
+      const expectedModel = getModelFor('embedding');
+      for (const doc of pending.values()) {
+        if (batch.length === BATCH_SIZE) break;
+        pending.delete(doc.id);
+        const text = embeddedText(doc);
+        if (text.length < MIN_EMBED_CHARS || vectors.get(doc.id)?.hash === versionHash(expectedModel, text)) continue;
+        batch.push({ doc, text });
+      }
+      if (!batch.length) continue;
+
+      const { vectors: embedded, model } = await embedTexts({ texts: batch.map(b => b.text), purpose: 'document', dimensions: EMBEDDING_DIMENSIONS })
+        .catch(e => {
+          batch.forEach(({ doc }) => { if (!pending.has(doc.id)) pending.set(doc.id, doc); });
+          throw e;
+        });
+      if (current !== generation) return;
+
+      const rows = await Promise.all(batch.map(async ({ doc, text }, i) => {
+        const vector = normalized(embedded[i]);
+        const hash = versionHash(model, text);
+        vectors.set(doc.id, { hash, model: modelVersion(model), vector });
+        return { owner, id: doc.id, hash, model: modelVersion(model), payload: await encodeVaultValue(encodeBase64(new Uint8Array(vector.buffer))) };
+      }));
+      await writeRows(rows, [], owner);
+      if (pending.size) await delay(BATCH_PAUSE_MS);
+    }
+  } catch (e) {
+    console.error("Semantic indexing failed", e);
+  } finally {
+    flushing = false;
+  }
+};
+
+const scheduleFlush = () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+};
+
+/**
+ * Queues a search document for embedding, or for removal when `doc` is null. Meant as a search index listener.
+ * Documents whose text is unchanged since they were last embedded are skipped when the queue is flushed.
+ */
+export const trackSearchDocument = (id: string, doc: SearchDocument | null) => {
+  if (doc) {
+    deleted.delete(id);
+    pending.set(id, doc);
+  } else {
+    pending.delete(id);
+    deleted.add(id);
+  }
+  if (activeOwner) scheduleFlush();
+};
+
+// Checks everything already indexed, which also picks up items changed while embedding was off.
+const queueIndexedDocuments = () => {
+  searchIndex.documents().forEach(doc => pending.set(doc.id, doc));
+  if (pending.size) scheduleFlush();
+};
+
+/**
+ * Points embeddings at a user and loads their stored vectors, then embeds whatever is new or changed.
+ */
+export const activateEmbeddings = (owner: string) => {
+  if (activeOwner === owner) return;
+  generation++;
+  activeOwner = owner;
+  vectors.clear();
+  deleted.clear();
+  queryCache.clear();
+  loaded = loadVectors(owner, generation).catch(e => console.error("Failed to load semantic index", e));
+  queueIndexedDocuments();
+};
+
+/**
+ * Forgets the active user's vectors in memory, e.g. when the vault locks. Stored vectors are kept.
+ */
+export const deactivateEmbeddings = () => {
+  generation++;
+  activeOwner = null;
+  vectors.clear();
+  deleted.clear();
+  queryCache.clear();
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+};
+
+/**
+ * Semantic search sends item text to the model provider; App turns it off when the user opts out.
+ */
+export const setSemanticSearchEnabled = (value: boolean) => {
+  if (enabled === value) return;
+  enabled = value;
+  if (enabled && activeOwner) queueIndexedDocuments();
+};
+
+export const isSemanticSearchEnabled = () => enabled;
+
+/**
+ * Whether anything of this kind has a vector yet, so callers can skip embedding a query that could match nothing.
+ */
+export const hasEmbeddings = (kind?: SearchTarget['kind']) => {
+  if (!enabled || !activeOwner) return false;
+  for (const id of vectors.keys()) if (!kind || id.startsWith(`${kind}:`)) return true;
+  return false;
+};
+
+const embedQuery = async (text: string, signal?: AbortSignal) => {
+  const key = `${modelVersion(getModelFor('embedding'))}\n${text}`;
+  const cached = queryCache.get(key);
+  if (cached) return cached;
+  const { vectors: [values], model } = await embedTexts({ texts: [text], purpose: 'query', dimensions: EMBEDDING_DIMENSIONS, signal });
+  const embedded = { model: modelVersion(model), vector: normalized(values) };
+  queryCache.set(key, embedded);
+  if (queryCache.size > QUERY_CACHE_SIZE) queryCache.delete(queryCache.keys().next().value!);
+  return embedded;
+};
+
+/**
+ * Items whose meaning is closest to the query, most similar first, as search results of the shared index.
+ * Resolves to nothing while semantic search is off or nothing has been embedded yet; rejects when the query
+ * cannot be embedded.
+ */
+export const semanticSearch = async (query: string, options: SemanticSearchOptions = {}): Promise<SearchResult[]> => {
+  const text = query.trim().slice(0, MAX_EMBED_CHARS);
+  if (!enabled || !activeOwner || text.length < MIN_EMBED_CHARS) return [];
+  await loaded;
+  // Search document ids start with their kind: `chat:`, `memory:` or `artifact:`.
+  const candidates = [...vectors].filter(([id]) => !options.kind || id.startsWith(`${options.kind}:`));
+  if (!candidates.length) return [];
+  const queryVector = await embedQuery(text, options.signal);
+  const minSimilarity = options.minSimilarity ?? getProvider().relatedSimilarity;
+
+  const scored: [string, number][] = [];
+  candidates.forEach(([id, { model, vector }]) => {
+    // Items not yet re-embedded after a provider or model switch are left out until they are.
+    if (model !== queryVector.model) return;
+    const score = similarity(queryVector.vector, vector);
+    if (score >= minSimilarity) scored.push([id, score]);
+  });
+  return scored
+    .sort((a, b) => b[1] - a[1])
+    .map(([id, score]) => searchIndex.describe(id, score))
+    .filter((result): result is SearchResult => !!result)
+    .slice(0, options.limit ?? 20);
+};
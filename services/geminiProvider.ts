@@ -0,0 +1,167 @@
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig } from "@google/genai";
+import { ModelProvider, TextRequest, GroundingSource, TokenUsage, delay } from "./providerService";
+
+// A fresh client per call so a newly selected API key is always picked up.
+const client = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const buildConfig = (request: TextRequest): GenerateContentConfig => {
+  const tools: GenerateContentConfig['tools'] = [];
+  if (request.googleSearch) tools.push({ googleSearch: {} });
+  if (request.googleMaps) tools.push({ googleMaps: {} });
+  if (request.functions?.length) tools.push({ functionDeclarations: request.functions });
+
+  return {
+    systemInstruction: request.systemInstruction,
+    temperature: request.temperature,
+    thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+    tools: tools.length ? tools : undefined,
+    toolConfig: request.location ? {
+      retrievalConfig: {
+        latLng: {
+          latitude: request.location.latitude,
+          longitude: request.location.longitude
+        }
+      }
+    } : undefined,
+    abortSignal: request.signal
+  };
+};
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  const sources: GroundingSource[] = [];
+  chunks.forEach((chunk: any) => {
+    if (chunk.web) {
+      sources.push({ title: chunk.web.title || 'Source', uri: chunk.web.uri, isMap: false });
+    }
+    if (chunk.maps) {
+      sources.push({
+        title: chunk.maps.title || 'Place Detail',
+        uri: chunk.maps.uri,
+        isMap: true,
+        reviews: chunk.maps.placeAnswerSources?.[0]?.reviewSnippets
+      });
+    }
+  });
+  return sources;
+};
+
+const extractUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    promptTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0)
+  };
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  validate: () => {
+    const key = process.env.API_KEY;
+    if (!key) return { valid: false, reason: "No API key found in the system environment." };
+    if (key.startsWith('sk-')) return { valid: false, reason: "You are using an OpenAI key. This app requires a Google Gemini key from ai.google.dev." };
+    return { valid: true };
+  },
+
+  generateText: async (request) => {
+    const response = await client().models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: buildConfig(request)
+    });
+    return { text: response.text || '', sources: extractSources(response), usage: extractUsage(response) };
+  },
+
+  streamText: async function* (request) {
+    const stream = await client().models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: buildConfig(request)
+    });
+    for await (const chunk of stream) {
+      yield { parts: chunk.candidates?.[0]?.content?.parts || [], usage: extractUsage(chunk) };
+    }
+  },
+
+  generateJson: async (request) => {
+    const response = await client().models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: { ...buildConfig(request), responseMimeType: 'application/json', responseSchema: request.schema }
+    });
+    // Robust JSON extraction
+    const text = (response.text || '').trim().replace(/^```json\n/i, '').replace(/\n```$/i, '').trim();
+    return { data: JSON.parse(text), usage: extractUsage(response) };
+  },
+
+  generateImage: async (request) => {
+    const response = await client().models.generateContent({
+      model: request.model,
+      contents: { parts: [{ text: request.prompt }] },
+      config: {
+        imageConfig: {
+          aspectRatio: request.aspectRatio || '1:1',
+          imageSize: request.imageSize
+        },
+        seed: request.seed,
+        abortSignal: request.signal
+      }
+    });
+
+    let imageUrl = '';
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) imageUrl = `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+    return { url: imageUrl, usage: extractUsage(response) };
+  },
+
+  generateVideo: async (request) => {
+    const ai = client();
+    let operation = await ai.models.generateVideos({
+      model: request.model,
+      prompt: request.prompt,
+      config: { numberOfVideos: 1, resolution: request.resolution || '720p', aspectRatio: request.aspectRatio || '16:9', seed: request.seed, abortSignal: request.signal }
+    });
+    // Cancelling stops the polling; the job itself keeps running (and billing) on the server.
+    while (!operation.done) {
+      await delay(10000, request.signal);
+      operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: request.signal } });
+    }
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    return `${downloadLink}&key=${process.env.API_KEY}`;
+  },
+
+  embed: async (request) => {
+    const response = await client().models.embedContent({
+      model: request.model,
+      contents: request.texts,
+      config: {
+        taskType: request.purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+        outputDimensionality: request.dimensions,
+        abortSignal: request.signal
+      }
+    });
+    const vectors = (response.embeddings || []).map(e => e.values || []);
+    if (vectors.length !== request.texts.length) throw new Error("The embedding model returned an incomplete batch.");
+    // The API reports no token counts for embeddings; estimate them from the text length.
+    return { vectors, usage: { promptTokens: Math.ceil(request.texts.join('').length / 4), outputTokens: 0 } };
+  },
+
+  relatedSimilarity: 0.6,
+
+  connectLive: async (request) => {
+    return await client().live.connect({
+      model: request.model,
+      config: request.config,
+      callbacks: {
+        onopen: () => request.callbacks.onopen?.(),
+        onmessage: request.callbacks.onmessage,
+        onerror: (e) => request.callbacks.onerror?.(e),
+        onclose: (e) => request.callbacks.onclose?.(e)
+      }
+    });
+  }
+};
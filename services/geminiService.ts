@@ -1,171 +1,278 @@
-
-import { GoogleGenAI, GenerateContentResponse, Type, Modality } from "@google/genai";
+import { Type, FunctionDeclaration, Content, Part } from "@google/genai";
+import { getProvider, TextRequest, JsonRequest, TextResult, TokenUsage, ImageRequest, VideoRequest, EmbedRequest, LiveRequest, LiveSessionHandle, delay, throwIfAborted, isAbortError } from "./providerService";
+import { assertWithinBudget, recordUsage } from "./usageService";
+import { ToolId, getModelFor, getModelInfo, getFallbackModel, isAutoFallbackEnabled, notifyModelFallback, modelSupports } from "./modelRegistry";
 
 /**
- * Utility to validate the API key format and provider.
+ * A facade request: the calling tool picks the model through the registry instead of naming one.
  */
-const validateApiKey = (key?: string) => {
-  if (!key) return { valid: false, reason: "No API key found in the system environment." };
-  if (key.startsWith('sk-')) return { valid: false, reason: "You are using an OpenAI key. This app requires a Google Gemini key from ai.google.dev." };
-  return { valid: true };
-};
+export type ToolRequest<R> = Omit<R, 'model' | 'task'> & { task: ToolId };
 
 /**
  * Utility to execute API calls with exponential backoff and detailed error mapping.
+ * `fn` receives the model to call; once retries on a quota error run out, the next cheaper model
+ * for the tool is tried when automatic fallback is enabled. Aborting `signal` stops retries and
+ * backoff waits immediately and rethrows the AbortError. `fn` calls `commit` once its work has shown
+ * effects that must not happen twice (streamed text, saved memories); a failure after that is rethrown as is.
  */
-const callWithRetry = async (fn: () => Promise<any>, maxRetries = 2, initialDelay = 2000) => {
-  const auth = validateApiKey(process.env.API_KEY);
+const callWithRetry = async <T = any>(tool: ToolId, fn: (model: string, commit: () => void) => Promise<T>, signal?: AbortSignal, maxRetries = 2, initialDelay = 2000): Promise<T> => {
+  const auth = getProvider().validate();
   if (!auth.valid) throw new Error(auth.reason);
+  await assertWithinBudget();
 
-  let lastError: any;
-  for (let i = 0; i <= maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      const msg = error?.message || "";
-      
-      const isQuota = msg.includes('429') || msg.includes('quota') || msg.includes('RESOURCE_EXHAUSTED');
-      const isAuth = msg.includes('403') || msg.includes('API key not valid') || msg.includes('PERMISSION_DENIED');
-      const isNotFound = msg.includes('404') || msg.includes('model not found');
-
-      if (isAuth) throw new Error("API KEY ERROR: Your key is invalid or unauthorized. Use Google AI Studio.");
-      if (isNotFound) throw new Error("MODEL ERROR: The selected model is not available for your key.");
-      
-      if (isQuota && i < maxRetries) {
-        const delay = initialDelay * Math.pow(2, i);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
+  let model = getModelFor(tool);
+  let committed = false;
+  const commit = () => { committed = true; };
+  while (true) {
+    for (let i = 0; i <= maxRetries; i++) {
+      throwIfAborted(signal);
+      try {
+        return await fn(model, commit);
+      } catch (error: any) {
+        if (committed || signal?.aborted || isAbortError(error)) throw error;
+        const msg = error?.message || "";
+
+        const isQuota = msg.includes('429') || msg.includes('quota') || msg.includes('RESOURCE_EXHAUSTED');
+        const isAuth = msg.includes('403') || msg.includes('API key not valid') || msg.includes('PERMISSION_DENIED');
+        const isNotFound = msg.includes('404') || msg.includes('model not found');
+
+        if (isAuth) throw new Error("API KEY ERROR: Your key is invalid or unauthorized. Use Google AI Studio.");
+        if (isNotFound) throw new Error(`MODEL ERROR: ${getModelInfo(model)?.label || model} is not available for your key. Choose another model in Settings → Models.`);
+        if (!isQuota) throw error;
+
+        if (i < maxRetries) {
+          await delay(initialDelay * Math.pow(2, i), signal);
+        }
       }
-      
-      if (isQuota) throw new Error("QUOTA EXCEEDED: You've reached the limit for this model. Try 'Flash' mode.");
-      throw error;
     }
+
+    const fallback = isAutoFallbackEnabled() ? getFallbackModel(tool, model) : null;
+    if (!fallback) {
+      const hint = isAutoFallbackEnabled() ? "Choose a lighter model in Settings → Models." : "Choose a lighter model or turn on automatic fallback in Settings → Models.";
+      throw new Error(`QUOTA EXCEEDED: You've reached the limit for ${getModelInfo(model)?.label || model}. ${hint}`);
+    }
+    notifyModelFallback(tool, model, fallback);
+    model = fallback;
   }
-  throw lastError;
 };
 
-export const chatWithGemini = async (message: string, history: { role: string; parts: { text: string }[] }[]) => {
-  return callWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: [...history, { role: 'user', parts: [{ text: message }] }],
-      config: {
-        systemInstruction: "You are Little Ai, a charming female assistant with deep feelings. Talk like a girl, act like a girl, and express emotions authentically. Detect language and respond in kind."
-      }
-    });
-  });
+/**
+ * Plain text (or multimodal) generation through the active provider.
+ */
+export const generateText = async (request: ToolRequest<TextRequest>): Promise<TextResult> => {
+  return callWithRetry(request.task, async model => {
+    const result = await getProvider().generateText({ ...request, model });
+    recordUsage(request.task, model, result.usage);
+    return result;
+  }, request.signal);
+};
+
+/**
+ * Structured output constrained by a response schema.
+ */
+export const generateJson = async <T = any>(request: ToolRequest<JsonRequest>): Promise<T> => {
+  return callWithRetry(request.task, async model => {
+    const result = await getProvider().generateJson<T>({ ...request, model });
+    recordUsage(request.task, model, result.usage);
+    return result.data;
+  }, request.signal);
 };
 
-export const searchWithGemini = async (query: string) => {
-  return callWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: query,
-      config: { tools: [{ googleSearch: {} }] },
-    });
+export { isAbortError };
+
+const CHAT_SYSTEM_INSTRUCTION = "You are Little Ai, a charming female assistant with deep feelings. Talk like a girl, act like a girl, and express emotions authentically. Detect language and respond in kind.";
+
+export const chatWithGemini = async (message: string, history: { role: string; parts: { text: string }[] }[]) => {
+  return generateText({
+    contents: [...history, { role: 'user', parts: [{ text: message }] }],
+    systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+    task: 'chat'
   });
 };
 
-// Fix: Export searchWithMaps to resolve the module import error and provide Google Maps grounding.
-export const searchWithMaps = async (query: string, location?: { latitude: number; longitude: number }) => {
-  return callWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: query,
-      config: {
-        tools: [{ googleMaps: {} }],
-        toolConfig: location ? {
-          retrievalConfig: {
-            latLng: {
-              latitude: location.latitude,
-              longitude: location.longitude
-            }
-          }
-        } : undefined
+/**
+ * Function declaration that lets the model store a fact about the user. Shared by text chat and Live voice.
+ */
+export const saveMemoryTool: FunctionDeclaration = {
+  name: 'save_important_info',
+  parameters: {
+    type: Type.OBJECT,
+    description: 'Saves important facts, user preferences, names, or tasks to remember for future conversations.',
+    properties: {
+      info: {
+        type: Type.STRING,
+        description: 'The specific detail to remember about the user.',
       },
-    });
-  });
+    },
+    required: ['info'],
+  },
+};
+
+export interface StreamChatOptions {
+  signal?: AbortSignal;
+  memories?: string[];
+  onSaveMemory?: (info: string) => void;
+}
+
+const buildChatInstruction = (memories: string[] = [], canSaveMemories = false) => {
+  let instruction = CHAT_SYSTEM_INSTRUCTION;
+  if (memories.length > 0) instruction += `\n\nThings you remember about the user:\n${memories.map(m => `- ${m}`).join('\n')}`;
+  if (canSaveMemories) instruction += `\n\nWhen the user shares a lasting fact, preference, name or task, call ${saveMemoryTool.name} to remember it.`;
+  return instruction;
 };
 
-export const generateImage = async (prompt: string, highQuality: boolean = false) => {
-  return callWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const model = highQuality ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        imageConfig: { 
-          aspectRatio: '1:1',
-          imageSize: highQuality ? '1K' : undefined
+/**
+ * Streams a chat reply, reporting the accumulated text after every chunk.
+ * Aborting the signal ends the stream early and resolves with the partial text.
+ * When `onSaveMemory` is given the model may call `save_important_info`; the call is answered
+ * and the reply keeps streaming in the same bubble. Quota retries and fallbacks only happen before
+ * the first chunk arrives, so text, memories and usage are never produced twice.
+ */
+export const streamChatWithGemini = async (
+  message: string,
+  history: { role: string; parts: { text: string }[] }[],
+  onText: (text: string) => void,
+  options: StreamChatOptions = {}
+): Promise<{ text: string; aborted: boolean; savedMemories: string[] }> => {
+  const { signal, memories, onSaveMemory } = options;
+  return callWithRetry('chat', async (model, commit) => {
+    let text = '';
+    const savedMemories: string[] = [];
+    let contents: Content[] = [...history, { role: 'user', parts: [{ text: message }] }];
+
+    try {
+      // Each round either finishes the reply or answers the memory calls the model made.
+      for (let round = 0; round < 3; round++) {
+        const stream = getProvider().streamText({
+          model,
+          contents,
+          systemInstruction: buildChatInstruction(memories, !!onSaveMemory),
+          functions: onSaveMemory ? [saveMemoryTool] : undefined,
+          signal,
+          task: 'chat'
+        });
+
+        const modelParts: Part[] = [];
+        let usage: TokenUsage | undefined;
+        try {
+          for await (const chunk of stream) {
+            commit();
+            if (chunk.usage) usage = chunk.usage;
+            if (signal?.aborted) break;
+            const parts = chunk.parts;
+            modelParts.push(...parts);
+            const delta = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+            if (delta) {
+              text += delta;
+              onText(text);
+            }
+          }
+        } finally {
+          // Every round is billed, including one cut short by Stop.
+          if (usage) recordUsage('chat', model, usage);
         }
+
+        const calls = modelParts.filter(p => p.functionCall).map(p => p.functionCall!);
+        if (signal?.aborted || calls.length === 0 || !onSaveMemory) break;
+
+        const responses: Part[] = calls.map(fc => {
+          const info = (fc.args as any)?.info;
+          if (fc.name === saveMemoryTool.name && typeof info === 'string' && info.trim()) {
+            onSaveMemory(info.trim());
+            savedMemories.push(info.trim());
+          }
+          return { functionResponse: { id: fc.id, name: fc.name, response: { result: "Saved to the neural vault." } } };
+        });
+        contents = [...contents, { role: 'model', parts: modelParts }, { role: 'user', parts: responses }];
       }
-    });
-    
-    let imageUrl = '';
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) imageUrl = `data:image/png;base64,${part.inlineData.data}`;
+    } catch (error) {
+      // A user-initiated stop surfaces as an error from the provider; keep what already arrived.
+      if (signal?.aborted) return { text, aborted: true, savedMemories };
+      throw error;
     }
-    return imageUrl;
+    return { text, aborted: !!signal?.aborted, savedMemories };
+  }, signal).catch(error => {
+    // Stopped before anything streamed, e.g. during a quota backoff.
+    if (signal?.aborted) return { text: '', aborted: true, savedMemories: [] };
+    throw error;
   });
 };
 
-export const generateVideo = async (prompt: string) => {
-  return callWithRetry(async () => {
-    const videoAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    let operation = await videoAi.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt,
-      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
-    });
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      operation = await videoAi.operations.getVideosOperation({ operation: operation });
-    }
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    return `${downloadLink}&key=${process.env.API_KEY}`;
+export const searchWithGemini = async (query: string, signal?: AbortSignal) => {
+  return generateText({
+    contents: query,
+    googleSearch: true,
+    signal,
+    task: 'search'
   });
 };
 
-export const analyzeImage = async (imagePrompt: string, base64Image: string) => {
-  return callWithRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { inlineData: { data: base64Image, mimeType: 'image/jpeg' } },
-          { text: imagePrompt }
-        ]
-      },
-    });
+// Fix: Export searchWithMaps to resolve the module import error and provide Google Maps grounding.
+export const searchWithMaps = async (query: string, location?: { latitude: number; longitude: number }, signal?: AbortSignal) => {
+  return generateText({
+    contents: query,
+    googleMaps: true,
+    location,
+    signal,
+    task: 'maps'
   });
 };
 
-export function decodeBase64(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
+/**
+ * Generates a single image and resolves to its data URL ('' when the model returned no image)
+ * and the model that made it, which may be a fallback.
+ */
+export const generateImage = async ({ task, ...request }: ToolRequest<ImageRequest>) => {
+  return callWithRetry(task, async model => {
+    // A fallback model may not take every option the first choice did.
+    const imageSize = modelSupports(model, 'image-size') ? request.imageSize : undefined;
+    const result = await getProvider().generateImage({ ...request, imageSize, model });
+    if (result.url) recordUsage(task, model, result.usage);
+    return { url: result.url, model };
+  }, request.signal);
+};
 
-export function encodeBase64(bytes: Uint8Array): string {
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
-  return btoa(binary);
-}
+/**
+ * Resolves to a short-lived download URL for the video and the model that made it.
+ */
+export const generateVideo = async (request: Omit<VideoRequest, 'model'>) => {
+  return callWithRetry('video', async model => {
+    const url = await getProvider().generateVideo({ resolution: '720p', aspectRatio: '16:9', ...request, model });
+    recordUsage('video', model);
+    return { url, model };
+  }, request.signal);
+};
 
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
+/**
+ * Embeds texts for semantic search. Resolves to one vector per text and the model that made them,
+ * since vectors from different models cannot be compared.
+ */
+export const embedTexts = async (request: Omit<EmbedRequest, 'model'>) => {
+  return callWithRetry('embedding', async model => {
+    const result = await getProvider().embed({ ...request, model });
+    recordUsage('embedding', model, result.usage);
+    return { vectors: result.vectors, model };
+  }, request.signal);
+};
+
+export const analyzeImage = async (imagePrompt: string, base64Image: string, signal?: AbortSignal) => {
+  return generateText({
+    contents: {
+      parts: [
+        { inlineData: { data: base64Image, mimeType: 'image/jpeg' } },
+        { text: imagePrompt }
+      ]
+    },
+    signal,
+    task: 'vision'
+  });
+};
+
+/**
+ * Opens a Live audio session on the active provider.
+ */
+export const connectLive = async (request: Omit<LiveRequest, 'model'>): Promise<LiveSessionHandle> => {
+  const auth = getProvider().validate();
+  if (!auth.valid) throw new Error(auth.reason);
+  return getProvider().connectLive({ ...request, model: getModelFor('live') });
+};
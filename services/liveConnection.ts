@@ -0,0 +1,152 @@
+import { LiveConnectConfig, LiveServerMessage } from "@google/genai";
+import { connectLive } from "./geminiService";
+import { LiveSessionHandle, delay } from "./providerService";
+import { transcriptSummary } from "./conversationService";
+import { TranscriptTurn } from "../types";
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+const STABLE_AFTER_MS = 30000; // A socket that stays up this long earns the next drop a fresh set of attempts
+const FATAL_CLOSE_CODES = [1007, 1008]; // Rejected request or policy, e.g. a bad key; retrying won't help
+const SUMMARY_CHARS = 6000;
+
+export type LiveConnectionStatus = 'live' | 'reconnecting';
+
+export interface ResilientLiveRequest {
+  config: LiveConnectConfig;
+  /** The call so far, replayed into a fresh session when the dropped one can't be resumed. */
+  transcript: () => TranscriptTurn[];
+  onmessage: (message: LiveServerMessage) => void;
+  onstatus: (status: LiveConnectionStatus) => void;
+  /** The call is over for good: the server refused it, or reconnecting gave up. Not called after `close()`. */
+  onclose: (reason?: string) => void;
+}
+
+/**
+ * A Live session that survives dropped sockets. The server's resumption handle is kept up to date and used
+ * to pick the conversation back up, with backoff between attempts; when no handle is usable the new
+ * session is briefed with the transcript instead. Attempts only start over once a connection has held,
+ * so one that opens and drops again straight away still runs out of retries. A `goAway` notice moves to a new socket straight away.
+ * Input sent while reconnecting is dropped.
+ */
+export const connectResilientLive = async (request: ResilientLiveRequest): Promise<LiveSessionHandle> => {
+  let current: LiveSessionHandle | null = null;
+  let open = false;
+  let status: LiveConnectionStatus = 'live';
+  let ended = false;
+  let everOpened = false;
+  let reconnecting = false;
+  let droppedWhileConnecting = false;
+  let handle: string | undefined;
+  let attempt = 0;
+  let stableTimer: ReturnType<typeof setTimeout> | undefined;
+  let generation = 0; // Events from replaced sockets are ignored
+  const stopped = new AbortController();
+
+  const configFor = (): LiveConnectConfig => {
+    if (handle) return { ...request.config, sessionResumption: { handle } };
+    const config = { ...request.config, sessionResumption: {} };
+    const summary = transcriptSummary(request.transcript(), SUMMARY_CHARS);
+    if (!everOpened || !summary || typeof config.systemInstruction !== 'string') return config;
+    return { ...config, systemInstruction: `${config.systemInstruction}\n\nThe call dropped and has just reconnected. Carry on from where you left off. Conversation so far:\n${summary}` };
+  };
+
+  const setStatus = (next: LiveConnectionStatus) => {
+    if (status === next && next === 'reconnecting') return;
+    status = next;
+    request.onstatus(next);
+  };
+
+  const finish = (reason?: string, notify = true) => {
+    if (ended) return;
+    ended = true;
+    open = false;
+    clearTimeout(stableTimer);
+    stopped.abort();
+    try { current?.close(); } catch (e) {}
+    current = null;
+    if (notify) request.onclose(reason);
+  };
+
+  const connect = async () => {
+    const id = ++generation;
+    const isCurrent = () => id === generation && !ended;
+    const resuming = !!handle;
+    let opened = false;
+
+    const dropped = (e: any) => {
+      if (!isCurrent()) return;
+      if (FATAL_CLOSE_CODES.includes(e?.code) || !everOpened) return finish(e?.reason || "The Live session was refused.");
+      if (resuming && !opened) handle = undefined; // The handle was stale; brief a fresh session instead
+      if (reconnecting) droppedWhileConnecting = true;
+      else reconnect();
+    };
+
+    const session = await connectLive({
+      config: configFor(),
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          opened = open = everOpened = true;
+          clearTimeout(stableTimer);
+          stableTimer = setTimeout(() => { if (isCurrent()) attempt = 0; }, STABLE_AFTER_MS);
+          setStatus('live');
+        },
+        onmessage: (message) => {
+          if (!isCurrent()) return;
+          const update = message.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) handle = update.newHandle;
+          if (message.goAway) {
+            reconnect(true);
+            return;
+          }
+          request.onmessage(message);
+        },
+        onerror: dropped,
+        onclose: dropped
+      }
+    });
+    if (isCurrent()) current = session;
+    else try { session.close(); } catch (e) {}
+  };
+
+  const reconnect = async (immediate = false) => {
+    if (ended || reconnecting) return;
+    reconnecting = true;
+    open = false;
+    clearTimeout(stableTimer);
+    generation++;
+    try { current?.close(); } catch (e) {}
+    current = null;
+    setStatus('reconnecting');
+
+    try {
+      let wait = !immediate;
+      while (!ended) {
+        if (wait) {
+          if (attempt >= RECONNECT_DELAYS_MS.length) return finish("The connection dropped and could not be restored.");
+          await delay(RECONNECT_DELAYS_MS[attempt++], stopped.signal);
+        }
+        wait = true;
+        droppedWhileConnecting = false;
+        try {
+          await connect();
+          if (!droppedWhileConnecting) return;
+        } catch (e) {
+          // Tried again after the next delay
+        }
+      }
+    } catch (e) {
+      // Aborted by close() while waiting
+    } finally {
+      reconnecting = false;
+    }
+  };
+
+  await connect();
+
+  return {
+    sendRealtimeInput: (input) => { if (open) current?.sendRealtimeInput(input); },
+    sendToolResponse: (response) => { if (open) current?.sendToolResponse(response); },
+    close: () => finish(undefined, false)
+  };
+};
@@ -0,0 +1,78 @@
+import { decodeBase64 } from "./encoding";
+
+const THUMBNAIL_SIZE = 256;
+const THUMBNAIL_TYPE = 'image/webp';
+
+/**
+ * Turns a `data:` URL (what the image models return) into a Blob.
+ */
+export const dataUrlToBlob = (url: string): Blob => {
+  const match = url.match(/^data:([^;,]*)(;base64)?,(.*)$/s);
+  if (!match) throw new Error("Not a data URL.");
+  const [, type, base64, body] = match;
+  const bytes = base64 ? decodeBase64(body) : new TextEncoder().encode(decodeURIComponent(body));
+  return new Blob([bytes], { type: type || 'application/octet-stream' });
+};
+
+export const isDataUrl = (value: any): value is string => typeof value === 'string' && value.startsWith('data:');
+
+/**
+ * Fetches generated media into memory so it survives the provider's download link expiring.
+ */
+export const downloadMedia = async (url: string, signal?: AbortSignal): Promise<Blob> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Media download failed (${response.status}). The link may have expired.`);
+  return response.blob();
+};
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error("Image could not be decoded."));
+  image.src = url;
+});
+
+// Seeks a little way in, since the first frame of a generated clip is often black.
+const loadVideoFrame = (url: string) => new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.onloadeddata = () => { video.currentTime = Number.isFinite(video.duration) ? Math.min(1, video.duration / 2) : 0.1; };
+  video.onseeked = () => resolve(video);
+  video.onerror = () => reject(new Error("Video could not be decoded."));
+  video.src = url;
+});
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => new Promise<Blob>((resolve, reject) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Thumbnail could not be encoded.")), THUMBNAIL_TYPE, 0.8);
+});
+
+/**
+ * A small still for galleries. Resolves to undefined when the media cannot be decoded,
+ * in which case galleries fall back to the full media.
+ */
+export const createThumbnail = async (media: Blob): Promise<Blob | undefined> => {
+  const url = URL.createObjectURL(media);
+  try {
+    if (media.type.startsWith('video/')) {
+      const video = await loadVideoFrame(url);
+      return await drawScaled(video, video.videoWidth, video.videoHeight);
+    }
+    const image = await loadImage(url);
+    return await drawScaled(image, image.naturalWidth, image.naturalHeight);
+  } catch (e) {
+    return undefined; // Not every format decodes here; the item is simply shown without a thumbnail
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * A random seed recorded with generated media so a result can be reproduced.
+ */
+export const randomSeed = () => crypto.getRandomValues(new Uint32Array(1))[0] & 0x7fffffff;
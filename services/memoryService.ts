@@ -0,0 +1,159 @@
+import { MemoryEntry, MemoryCategory } from "../types";
+import { getUserFromVault, saveUserToVault, removeUserFromVault } from "./storageService";
+import { GUEST_NAMESPACE } from "./sessionService";
+import { semanticSearch, hasEmbeddings } from "./embeddingService";
+
+const MEMORIES_KEY = 'memories';
+const MEMORY_ARCHIVE_VERSION = 1;
+const SEMANTIC_WEIGHT = 3; // A perfect semantic match counts about as much as a few shared rare words
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['personal', 'preference', 'work', 'task', 'general'];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'have', 'has', 'was', 'were',
+  'what', 'when', 'where', 'which', 'who', 'how', 'why', 'can', 'could', 'would', 'should', 'about', 'from',
+  'into', 'they', 'them', 'their', 'there', 'then', 'than', 'its', 'our', 'out', 'all', 'any', 'some', 'just',
+  'like', 'also', 'very', 'really', 'will', 'did', 'does', 'doing', 'been', 'being', 'his', 'her', 'she', 'him',
+  'please', 'tell', 'know', 'want', 'need'
+]);
+
+/**
+ * Lowercased word tokens with short words and stop words removed. Handles non-Latin scripts.
+ */
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 2 && !STOP_WORDS.has(t));
+
+/**
+ * Picks the memories most relevant to the current turn so the prompt only carries what matters.
+ * Pinned memories are always included. Others that share words with the query (rarer words count more)
+ * or are close in meaning per `similarity` (memory id -> cosine similarity) rank first; the most recent
+ * ones fill the remaining slots up to `minimum`.
+ */
+export const selectRelevantMemories = (allMemories: MemoryEntry[], query: string, limit = 8, minimum = 3, similarity?: Map<string, number>): MemoryEntry[] => {
+  const pinned = allMemories.filter(m => m.pinned);
+  const memories = allMemories.filter(m => !m.pinned);
+  if (memories.length <= minimum) return [...pinned, ...memories];
+
+  const queryTokens = new Set(tokenize(query));
+  const memoryTokens = memories.map(m => new Set(tokenize(m.content)));
+
+  const documentFrequency = new Map<string, number>();
+  memoryTokens.forEach(tokens => tokens.forEach(t => documentFrequency.set(t, (documentFrequency.get(t) || 0) + 1)));
+
+  const scored = memories.map((memory, i) => {
+    let score = (similarity?.get(memory.id) || 0) * SEMANTIC_WEIGHT;
+    memoryTokens[i].forEach(t => {
+      if (queryTokens.has(t)) score += Math.log(1 + memories.length / (documentFrequency.get(t) || 1));
+    });
+    return { memory, score };
+  });
+
+  const relevant = scored
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || b.memory.timestamp - a.memory.timestamp)
+    .slice(0, limit)
+    .map(s => s.memory);
+
+  if (relevant.length >= minimum) return [...pinned, ...relevant];
+
+  const chosen = new Set(relevant.map(m => m.id));
+  const recent = [...memories]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .filter(m => !chosen.has(m.id))
+    .slice(0, minimum - relevant.length);
+  return [...pinned, ...relevant, ...recent];
+};
+
+/**
+ * `selectRelevantMemories` with semantic similarity when it is available. Falls back to word matching
+ * alone when the query cannot be embedded, so a chat turn never fails over it, and skips the round trip
+ * while no memory has been embedded.
+ */
+export const recallRelevantMemories = async (memories: MemoryEntry[], query: string, signal?: AbortSignal): Promise<MemoryEntry[]> => {
+  if (!hasEmbeddings('memory')) return selectRelevantMemories(memories, query);
+  const similar = await semanticSearch(query, { kind: 'memory', limit: memories.length, signal }).catch(() => []);
+  const similarity = new Map<string, number>();
+  similar.forEach(result => { if (result.target.kind === 'memory') similarity.set(result.target.memoryId, result.score); });
+  return selectRelevantMemories(memories, query, 8, 3, similarity);
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Finds a stored memory that says essentially the same thing: identical once punctuation and case
+ * are ignored, a high word overlap, or one fact's words fully contained in the other's.
+ */
+export const findNearDuplicate = (memories: MemoryEntry[], content: string, ignoreId?: string): MemoryEntry | undefined => {
+  const normalized = normalize(content);
+  const tokens = new Set(tokenize(content));
+
+  return memories.find(m => {
+    if (m.id === ignoreId) return false;
+    if (normalize(m.content) === normalized) return true;
+    const other = new Set(tokenize(m.content));
+    if (tokens.size === 0 || other.size === 0) return false;
+
+    let shared = 0;
+    tokens.forEach(t => { if (other.has(t)) shared++; });
+    const jaccard = shared / (tokens.size + other.size - shared);
+    const contained = shared === Math.min(tokens.size, other.size) && Math.min(tokens.size, other.size) >= 3;
+    return jaccard >= 0.75 || contained;
+  });
+};
+
+// Timestamps alone collide when several facts are saved in the same millisecond, e.g. from one reply.
+export const newMemoryId = () => crypto.randomUUID();
+
+/**
+ * Adds a fact to the memory list. A near-duplicate is refreshed in place (keeping the more
+ * detailed wording) instead of piling up a second copy.
+ */
+export const rememberFact = (memories: MemoryEntry[], content: string, category: MemoryCategory = 'general'): MemoryEntry[] => {
+  const now = Date.now();
+  const duplicate = findNearDuplicate(memories, content);
+  if (duplicate) {
+    const merged: MemoryEntry = {
+      ...duplicate,
+      content: content.length > duplicate.content.length ? content : duplicate.content,
+      updatedAt: now
+    };
+    return [merged, ...memories.filter(m => m.id !== duplicate.id)];
+  }
+  return [{ id: newMemoryId(), content, timestamp: now, updatedAt: now, category }, ...memories];
+};
+
+/**
+ * Pinned first, then most recently touched.
+ */
+export const sortMemories = (memories: MemoryEntry[]): MemoryEntry[] =>
+  [...memories].sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) || (b.updatedAt || b.timestamp) - (a.updatedAt || a.timestamp));
+
+const isMemory = (m: any): m is MemoryEntry => !!m && typeof m.id === 'string' && typeof m.content === 'string';
+
+export const loadMemories = async (namespace: string): Promise<MemoryEntry[]> => {
+  const raw = await getUserFromVault(namespace, MEMORIES_KEY);
+  const list = Array.isArray(raw) ? raw : raw?.memories;
+  if (!Array.isArray(list)) return [];
+  return list.filter(isMemory).map(m => ({ ...m, category: m.category || 'general' }));
+};
+
+export const saveMemories = async (namespace: string, memories: MemoryEntry[]): Promise<void> => {
+  await saveUserToVault(namespace, MEMORIES_KEY, { version: MEMORY_ARCHIVE_VERSION, memories });
+};
+
+/**
+ * Folds memories saved as a guest into a user's store, skipping facts they already have.
+ */
+export const adoptGuestMemories = async (username: string): Promise<MemoryEntry[]> => {
+  const [guestMemories, userMemories] = await Promise.all([loadMemories(GUEST_NAMESPACE), loadMemories(username)]);
+  if (guestMemories.length === 0) return userMemories;
+
+  const merged = guestMemories.reduceRight(
+    (list, m) => findNearDuplicate(list, m.content) ? list : [m, ...list],
+    userMemories
+  );
+  await saveMemories(username, merged);
+  await removeUserFromVault(GUEST_NAMESPACE, [MEMORIES_KEY]);
+  return merged;
+};
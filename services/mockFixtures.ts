@@ -0,0 +1,80 @@
+import { GroundingSource } from "./providerService";
+
+/**
+ * Canned responses played back by the offline mock provider, keyed by the `task` each tool
+ * sends with its request.
+ */
+export const TEXT_FIXTURES: Record<string, { text: string; sources?: GroundingSource[] }> = {
+  chat: {
+    text: "Hi! I'm running on the **offline mock** backend, so this reply is canned.\n\nHere's a little of everything the renderer supports:\n\n- A list item\n- Inline math: $e^{i\\pi} + 1 = 0$\n\n```ts\nconst greeting = 'hello from the mock';\n```"
+  },
+  search: {
+    text: "## Mock search summary\n\nThis answer comes from a local fixture. Real web grounding is only available with the Gemini backend.",
+    sources: [
+      { title: 'Example Domain', uri: 'https://example.com', isMap: false },
+      { title: 'IANA Reserved Domains', uri: 'https://www.iana.org/domains/reserved', isMap: false }
+    ]
+  },
+  maps: {
+    text: "## Nearby (mock)\n\n1. **Sakura Café** – quiet, good Wi-Fi\n2. **Neural Books** – open late",
+    sources: [
+      { title: 'Sakura Café', uri: 'https://maps.example.com/sakura-cafe', isMap: true, reviews: ['Lovely matcha latte.'] }
+    ]
+  },
+  vision: {
+    text: "I can see a softly lit scene with a few everyday objects. (Mock vision response.)"
+  },
+  'file-analysis': {
+    text: "# Document Analysis (mock)\n\n| Section | Summary |\n|---|---|\n| Overview | Placeholder findings |\n| Risks | None detected offline |\n\n**Conclusion:** fixture output."
+  },
+  'company-insights': {
+    text: "# Intelligence Report (mock)\n\n## Market Standing\nStable.\n\n## SWOT\n- **Strengths:** brand\n- **Weaknesses:** none offline",
+    sources: [{ title: 'Example Domain', uri: 'https://example.com', isMap: false }]
+  },
+  'app-analyst': {
+    text: "**FULL ARCHITECTURAL BREAKDOWN**\n\nMock breakdown of the package.\n\n**MASTER RECONSTRUCTION PROMPT**\n\nBuild a small demo app with a home screen and settings."
+  },
+  'app-builder': {
+    text: "<!DOCTYPE html>\n<html>\n<head><meta name=\"viewport\" content=\"width=device-width, initial-scale=1\"><title>Mock App</title></head>\n<body style=\"font-family:sans-serif;padding:24px\">\n<h1>Mock App</h1>\n<p>Generated offline by the mock provider.</p>\n<button onclick=\"this.textContent='Tapped!'\">Tap me</button>\n</body>\n</html>"
+  },
+  code: {
+    text: "<!DOCTYPE html>\n<html>\n<body>\n  <h1>Hello from the mock provider</h1>\n  <script>console.log('mock');</script>\n</body>\n</html>"
+  },
+  'video-lyrics': {
+    text: "## Verse 1 (mock)\nPetals on the screen tonight\nCanned lyrics shining bright"
+  }
+};
+
+export const JSON_FIXTURES: Record<string, any> = {
+  flowchart: {
+    nodes: [
+      { id: 'start', label: 'Start', type: 'start' },
+      { id: 'check', label: 'Is it offline?', type: 'decision' },
+      { id: 'mock', label: 'Use mock fixtures', type: 'process' },
+      { id: 'end', label: 'Done', type: 'end' }
+    ],
+    edges: [
+      { from: 'start', to: 'check' },
+      { from: 'check', to: 'mock', label: 'yes' },
+      { from: 'mock', to: 'end' }
+    ]
+  },
+  mindmap: {
+    label: 'Mock Topic',
+    children: [
+      { label: 'Branch A', children: [{ label: 'Leaf A1' }, { label: 'Leaf A2' }] },
+      { label: 'Branch B', children: [{ label: 'Leaf B1' }] }
+    ]
+  },
+  'api-architect': {
+    code: "import express from 'express';\nconst app = express();\napp.get('/health', (_, res) => res.json({ ok: true }));\napp.listen(3000);",
+    swagger: JSON.stringify({ openapi: '3.0.0', info: { title: 'Mock API', version: '1.0.0' }, paths: { '/health': { get: { responses: { 200: { description: 'OK' } } } } } }),
+    mockResponse: JSON.stringify({ ok: true })
+  }
+};
+
+export const LIVE_FIXTURES: { user: string; model: string }[] = [
+  { user: 'Hello, can you hear me?', model: "Yes, loud and clear! I'm the offline mock voice." },
+  { user: 'What can you do offline?', model: 'I can play back canned turns so you can test the interface.' },
+  { user: 'Thanks!', model: 'Any time, my dear.' }
+];
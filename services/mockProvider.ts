@@ -0,0 +1,235 @@
+import { Content, Part, Schema, Type, LiveServerMessage } from "@google/genai";
+import { ModelProvider, TextRequest, TokenUsage, LiveSessionHandle, delay as wait, throwIfAborted } from "./providerService";
+import { TEXT_FIXTURES, JSON_FIXTURES, LIVE_FIXTURES } from "./mockFixtures";
+import { encodeBase64 } from "./encoding";
+
+const STREAM_DELAY_MS = 25;
+// How many 100 ms mic frames make up one simulated user turn.
+const LIVE_FRAMES_PER_TURN = 30;
+
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const toContents = (contents: TextRequest['contents']): Content[] => {
+  if (typeof contents === 'string') return [{ role: 'user', parts: [{ text: contents }] }];
+  if (Array.isArray(contents)) return contents;
+  return [{ role: 'user', parts: contents.parts }];
+};
+
+/**
+ * Text of the latest user turn, which is what fixtures are chosen by.
+ */
+const latestPrompt = (contents: TextRequest['contents']) => {
+  const turns = toContents(contents).filter(c => c.role !== 'model');
+  const parts = turns[turns.length - 1]?.parts || [];
+  return parts.map(p => p.text || '').join(' ').trim();
+};
+
+/**
+ * Rough token counts (about four characters per token) so usage accounting has numbers offline.
+ */
+const estimateUsage = (prompt: string, output: string): TokenUsage => ({
+  promptTokens: Math.ceil(prompt.length / 4),
+  outputTokens: Math.ceil(output.length / 4)
+});
+
+/**
+ * A local stand-in for an embedding model: words and their first five letters hashed into a unit vector,
+ * so texts sharing vocabulary (including "payment" and "payments") score as similar.
+ */
+const localEmbedding = (text: string, dimensions: number) => {
+  const vector = new Array<number>(dimensions).fill(0);
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1).forEach(word => {
+    vector[hash(word) % dimensions] += 1;
+    if (word.length > 5) vector[hash(word.slice(0, 5)) % dimensions] += 0.5;
+  });
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map(v => v / norm);
+};
+
+const textFor = (request: TextRequest) => {
+  const fixture = request.task ? TEXT_FIXTURES[request.task] : undefined;
+  if (fixture) return fixture;
+  return { text: `Mock reply to: "${latestPrompt(request.contents).slice(0, 200)}"` };
+};
+
+/**
+ * Builds a value that satisfies a response schema, for JSON tasks without a fixture.
+ */
+const sampleFromSchema = (schema: Schema, name = 'value'): any => {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const out: Record<string, any> = {};
+      Object.entries(schema.properties || {}).forEach(([key, child]) => { out[key] = sampleFromSchema(child, key); });
+      return out;
+    }
+    case Type.ARRAY:
+      return schema.items ? [0, 1, 2].map(i => sampleFromSchema(schema.items!, `${name} ${i + 1}`)) : [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return schema.enum?.[0] ?? `Mock ${name}`;
+  }
+};
+
+const svgDataUrl = (prompt: string, aspectRatio = '1:1') => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const width = 512;
+  const height = Math.round(width * ((h || 1) / (w || 1)));
+  const hue = hash(prompt) % 360;
+  const label = prompt.replace(/[<>&"']/g, '').slice(0, 40);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,60%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,30%)"/></linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" fill="white" font-family="sans-serif" font-size="24" text-anchor="middle">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+/**
+ * Renders a short animated clip in the browser so the video player has something to play.
+ */
+const renderMockVideo = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  if (typeof MediaRecorder === 'undefined') throw new Error("Mock video rendering needs MediaRecorder support.");
+  const canvas = document.createElement('canvas');
+  canvas.width = 640;
+  canvas.height = 360;
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(24), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const hue = hash(prompt) % 360;
+  recorder.start();
+  for (let frame = 0; frame < 48; frame++) {
+    ctx.fillStyle = `hsl(${(hue + frame * 3) % 360}, 60%, 35%)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'white';
+    ctx.font = '28px sans-serif';
+    ctx.fillText(prompt.slice(0, 40), 40 + frame * 2, 180);
+    try {
+      await wait(1000 / 24, signal);
+    } catch (e) {
+      recorder.stop();
+      throw e;
+    }
+  }
+  recorder.stop();
+  await finished;
+  return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+/**
+ * A 24 kHz mono PCM chime, base64-encoded like the audio the Live API sends back.
+ */
+const mockAudioChunk = (seconds = 0.6) => {
+  const rate = 24000;
+  const samples = new Int16Array(Math.floor(rate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const envelope = Math.min(1, i / 800, (samples.length - i) / 800);
+    samples[i] = Math.sin((2 * Math.PI * 660 * i) / rate) * 8000 * envelope;
+  }
+  return encodeBase64(new Uint8Array(samples.buffer));
+};
+
+export const mockProvider: ModelProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+
+  validate: () => ({ valid: true }),
+
+  generateText: async (request) => {
+    await wait(300, request.signal);
+    const fixture = textFor(request);
+    return { text: fixture.text, sources: fixture.sources || [], usage: estimateUsage(latestPrompt(request.contents), fixture.text) };
+  },
+
+  streamText: async function* (request) {
+    const contents = toContents(request.contents);
+    const prompt = latestPrompt(request.contents);
+    const answeredTool = contents[contents.length - 1]?.parts?.some(p => p.functionResponse);
+    const memoryTool = request.functions?.find(f => f.name === 'save_important_info');
+
+    // Exercise the memory tool deterministically: "remember ..." or "my name is ..." triggers a save.
+    if (memoryTool && !answeredTool && /\b(remember|my name is)\b/i.test(prompt)) {
+      await wait(200, request.signal);
+      yield { parts: [{ functionCall: { id: 'mock-call', name: memoryTool.name, args: { info: prompt } } }], usage: estimateUsage(prompt, prompt) };
+      return;
+    }
+
+    const text = answeredTool ? "Got it, I'll remember that. 💗" : textFor(request).text;
+    const words = text.split(/(?<=\s)/);
+    let sent = '';
+    for (const word of words) {
+      await wait(STREAM_DELAY_MS, request.signal);
+      sent += word;
+      const part: Part = { text: word };
+      yield { parts: [part], usage: estimateUsage(prompt, sent) };
+    }
+  },
+
+  generateJson: async (request) => {
+    await wait(300, request.signal);
+    const fixture = request.task ? JSON_FIXTURES[request.task] : undefined;
+    const data = structuredClone(fixture ?? sampleFromSchema(request.schema));
+    return { data, usage: estimateUsage(latestPrompt(request.contents), JSON.stringify(data)) };
+  },
+
+  generateImage: async (request) => {
+    await wait(400, request.signal);
+    return { url: svgDataUrl(request.prompt, request.aspectRatio), usage: estimateUsage(request.prompt, '') };
+  },
+
+  generateVideo: async (request) => {
+    throwIfAborted(request.signal);
+    return renderMockVideo(request.prompt, request.signal);
+  },
+
+  embed: async (request) => {
+    await wait(100, request.signal);
+    return { vectors: request.texts.map(t => localEmbedding(t, request.dimensions)), usage: estimateUsage(request.texts.join(' '), '') };
+  },
+
+  relatedSimilarity: 0.2, // Word overlap only, so related texts score lower than with a real model
+
+  connectLive: async (request) => {
+    let closed = false;
+    let frames = 0;
+    let turn = 0;
+    const emit = (message: Partial<LiveServerMessage>) => {
+      if (!closed) request.callbacks.onmessage(message as LiveServerMessage);
+    };
+
+    const playTurn = () => {
+      const fixture = LIVE_FIXTURES[turn++ % LIVE_FIXTURES.length];
+      emit({ serverContent: { inputTranscription: { text: fixture.user } } });
+      setTimeout(() => {
+        emit({ serverContent: { outputTranscription: { text: fixture.model } } });
+        emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data: mockAudioChunk(), mimeType: 'audio/pcm;rate=24000' } }] } } });
+        emit({ serverContent: { turnComplete: true } });
+      }, 300);
+    };
+
+    const session: LiveSessionHandle = {
+      sendRealtimeInput: (input) => {
+        if (closed || !input.media?.mimeType.startsWith('audio/')) return;
+        if (++frames % LIVE_FRAMES_PER_TURN === 0) playTurn();
+      },
+      sendToolResponse: () => {},
+      close: () => {
+        if (closed) return;
+        closed = true;
+        request.callbacks.onclose?.({ reason: 'closed' });
+      }
+    };
+
+    setTimeout(() => { if (!closed) request.callbacks.onopen?.(); }, 100);
+    return session;
+  }
+};
@@ -0,0 +1,132 @@
+export type ModelCapability = 'text' | 'vision' | 'audio' | 'video-input' | 'documents' | 'search' | 'maps' | 'json' | 'tools' | 'image' | 'image-size' | 'video' | 'live' | 'embedding';
+
+export type ModelTier = 'pro' | 'flash' | 'lite';
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  tier: ModelTier;
+  capabilities: ModelCapability[];
+  fallback?: string; // Cheaper model with the same kind of output, tried when this one is out of quota
+}
+
+export type ToolId =
+  | 'chat' | 'vision' | 'search' | 'maps' | 'file-analysis' | 'company-insights' | 'app-analyst'
+  | 'app-builder' | 'code' | 'video-lyrics' | 'flowchart' | 'mindmap' | 'api-architect'
+  | 'image' | 'image-pro' | 'drawing' | 'video' | 'live' | 'embedding';
+
+export interface ToolInfo {
+  id: ToolId;
+  label: string;
+  icon: string;
+  requires: ModelCapability[];
+  defaultModel: string;
+}
+
+const TEXT_CORE: ModelCapability[] = ['text', 'vision', 'audio', 'video-input', 'documents', 'search', 'json', 'tools'];
+
+export const MODELS: ModelInfo[] = [
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', tier: 'pro', capabilities: TEXT_CORE, fallback: 'gemini-3-flash-preview' },
+  { id: 'gemini-3-flash-preview', label: 'Gemini 3 Flash', tier: 'flash', capabilities: TEXT_CORE, fallback: 'gemini-2.5-flash' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', tier: 'pro', capabilities: [...TEXT_CORE, 'maps'], fallback: 'gemini-2.5-flash' },
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', tier: 'flash', capabilities: [...TEXT_CORE, 'maps'], fallback: 'gemini-2.5-flash-lite' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash Lite', tier: 'lite', capabilities: [...TEXT_CORE, 'maps'] },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', tier: 'pro', capabilities: ['image', 'image-size'], fallback: 'gemini-2.5-flash-image' },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', tier: 'flash', capabilities: ['image'] },
+  { id: 'veo-3.1-generate-preview', label: 'Veo 3.1', tier: 'pro', capabilities: ['video'], fallback: 'veo-3.1-fast-generate-preview' },
+  { id: 'veo-3.1-fast-generate-preview', label: 'Veo 3.1 Fast', tier: 'flash', capabilities: ['video'] },
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', label: 'Gemini 2.5 Flash Native Audio', tier: 'flash', capabilities: ['live', 'tools'] },
+  { id: 'gemini-embedding-001', label: 'Gemini Embedding', tier: 'lite', capabilities: ['embedding'] }
+];
+
+export const TOOLS: ToolInfo[] = [
+  { id: 'chat', label: 'Neural Chat', icon: 'fa-comment-dots', requires: ['text', 'tools'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'vision', label: 'Vision', icon: 'fa-eye', requires: ['vision'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'search', label: 'Web Search', icon: 'fa-magnifying-glass', requires: ['search'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'maps', label: 'Maps Search', icon: 'fa-map-location-dot', requires: ['maps'], defaultModel: 'gemini-2.5-flash' },
+  { id: 'file-analysis', label: 'File Analysis', icon: 'fa-file-lines', requires: ['documents'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'company-insights', label: 'Company Insights', icon: 'fa-building', requires: ['search'], defaultModel: 'gemini-3-pro-preview' },
+  { id: 'app-analyst', label: 'App Analyst', icon: 'fa-microscope', requires: ['documents'], defaultModel: 'gemini-3-pro-preview' },
+  { id: 'app-builder', label: 'App Builder', icon: 'fa-mobile-screen', requires: ['text'], defaultModel: 'gemini-3-pro-preview' },
+  { id: 'code', label: 'Code Studio', icon: 'fa-code', requires: ['text'], defaultModel: 'gemini-3-pro-preview' },
+  { id: 'video-lyrics', label: 'Video to Lyrics', icon: 'fa-music', requires: ['video-input'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'flowchart', label: 'Flowchart', icon: 'fa-diagram-project', requires: ['json'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'mindmap', label: 'Mind Map', icon: 'fa-sitemap', requires: ['json'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'api-architect', label: 'API Architect', icon: 'fa-server', requires: ['json'], defaultModel: 'gemini-3-flash-preview' },
+  { id: 'image', label: 'Image Studio', icon: 'fa-image', requires: ['image'], defaultModel: 'gemini-2.5-flash-image' },
+  { id: 'image-pro', label: 'Image Studio (High Quality)', icon: 'fa-gem', requires: ['image'], defaultModel: 'gemini-3-pro-image-preview' },
+  { id: 'drawing', label: 'Drawing', icon: 'fa-paintbrush', requires: ['image'], defaultModel: 'gemini-2.5-flash-image' },
+  { id: 'video', label: 'Video Studio', icon: 'fa-video', requires: ['video'], defaultModel: 'veo-3.1-fast-generate-preview' },
+  { id: 'live', label: 'Live Voice', icon: 'fa-microphone-lines', requires: ['live'], defaultModel: 'gemini-2.5-flash-native-audio-preview-12-2025' },
+  { id: 'embedding', label: 'Semantic Search', icon: 'fa-circle-nodes', requires: ['embedding'], defaultModel: 'gemini-embedding-001' }
+];
+
+export interface ModelPreferences {
+  models: Partial<Record<ToolId, string>>; // Tool -> chosen model id; missing entries use the tool default
+  autoFallback: boolean;
+}
+
+let preferences: ModelPreferences = { models: {}, autoFallback: true };
+const fallbackListeners = new Set<(event: { tool: ToolId; from: string; to: string }) => void>();
+
+export const getModelInfo = (id: string) => MODELS.find(m => m.id === id);
+
+/**
+ * Whether a model accepts a request option, so options are only sent to models that take them, e.g. after a fallback.
+ */
+export const modelSupports = (id: string, capability: ModelCapability) => !!getModelInfo(id)?.capabilities.includes(capability);
+
+export const getToolInfo = (tool: ToolId) => TOOLS.find(t => t.id === tool)!;
+
+const supports = (model: ModelInfo, tool: ToolInfo) => tool.requires.every(c => model.capabilities.includes(c));
+
+/**
+ * Models that can serve a tool, in registry order.
+ */
+export const modelsForTool = (tool: ToolId): ModelInfo[] => {
+  const info = getToolInfo(tool);
+  return MODELS.filter(m => supports(m, info));
+};
+
+/**
+ * Preferences come from the user's settings; App pushes them here whenever they change.
+ */
+export const setModelPreferences = (next: Partial<ModelPreferences>) => {
+  preferences = { models: next.models || {}, autoFallback: next.autoFallback ?? true };
+};
+
+export const isAutoFallbackEnabled = () => preferences.autoFallback;
+
+/**
+ * The model a tool should call: the user's choice when it still suits the tool, otherwise the default.
+ */
+export const getModelFor = (tool: ToolId): string => {
+  const info = getToolInfo(tool);
+  const chosen = preferences.models[tool];
+  const model = chosen ? getModelInfo(chosen) : undefined;
+  return model && supports(model, info) ? model.id : info.defaultModel;
+};
+
+/**
+ * Next cheaper model for a tool after `modelId` ran out of quota, or null at the end of the chain.
+ */
+export const getFallbackModel = (tool: ToolId, modelId: string): string | null => {
+  const info = getToolInfo(tool);
+  let next = getModelInfo(modelId)?.fallback;
+  while (next) {
+    const candidate = getModelInfo(next);
+    if (!candidate) return null;
+    if (supports(candidate, info)) return candidate.id;
+    next = candidate.fallback;
+  }
+  return null;
+};
+
+export const onModelFallback = (listener: (event: { tool: ToolId; from: string; to: string }) => void) => {
+  fallbackListeners.add(listener);
+  return () => { fallbackListeners.delete(listener); };
+};
+
+export const notifyModelFallback = (tool: ToolId, from: string, to: string) => {
+  fallbackListeners.forEach(listener => listener({ tool, from, to }));
+};
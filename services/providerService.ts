@@ -0,0 +1,177 @@
+import { Content, Part, Schema, FunctionDeclaration, LiveServerMessage, LiveConnectConfig } from "@google/genai";
+import { SearchResult } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+
+/**
+ * Request and result shapes every model backend speaks. Message content uses the Gemini
+ * `Content`/`Part` structure as the common format; other backends translate from it.
+ */
+export interface TextRequest {
+  model: string;
+  contents: string | Content[] | { parts: Part[] };
+  systemInstruction?: string;
+  temperature?: number;
+  thinkingBudget?: number;
+  googleSearch?: boolean;
+  googleMaps?: boolean;
+  location?: { latitude: number; longitude: number };
+  functions?: FunctionDeclaration[];
+  signal?: AbortSignal;
+  task?: string; // Names the calling tool so the mock backend can pick a matching fixture
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: Schema;
+}
+
+export interface GroundingSource extends SearchResult {
+  isMap?: boolean;
+  reviews?: string[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number; // Includes thinking tokens, which are billed as output
+}
+
+export interface TextResult {
+  text: string;
+  sources: GroundingSource[];
+  usage?: TokenUsage;
+}
+
+export interface JsonResult<T> {
+  data: T;
+  usage?: TokenUsage;
+}
+
+export interface StreamChunk {
+  parts: Part[];
+  usage?: TokenUsage; // Running total for the whole response so far
+}
+
+export interface ImageResult {
+  url: string; // Data URL, '' when the model returned no image
+  usage?: TokenUsage;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  aspectRatio?: string;
+  imageSize?: string;
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+export interface VideoRequest {
+  model: string;
+  prompt: string;
+  resolution?: '720p' | '1080p';
+  aspectRatio?: '16:9' | '9:16';
+  seed?: number;
+  signal?: AbortSignal;
+}
+
+export interface EmbedRequest {
+  model: string;
+  texts: string[];
+  purpose: 'document' | 'query'; // Retrieval embeddings differ for what is stored and what is searched for
+  dimensions: number;
+  signal?: AbortSignal;
+}
+
+export interface EmbedResult {
+  vectors: number[][]; // One per text, in order
+  usage?: TokenUsage;
+}
+
+export interface LiveCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (e: any) => void;
+  onclose?: (e: any) => void;
+}
+
+export interface LiveRequest {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/**
+ * The slice of a live session the views use.
+ */
+export interface LiveSessionHandle {
+  /** `audioStreamEnd` tells the server the mic paused (muted, push-to-talk released). */
+  sendRealtimeInput: (input: { media?: { data: string; mimeType: string }; audioStreamEnd?: boolean }) => void;
+  sendToolResponse: (response: { functionResponses: any }) => void;
+  close: () => void;
+}
+
+export interface ModelProvider {
+  id: string;
+  label: string;
+  /** Reports whether the backend is usable, e.g. that an API key is configured. */
+  validate: () => { valid: boolean; reason?: string };
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  streamText: (request: TextRequest) => AsyncGenerator<StreamChunk>;
+  generateJson: <T = any>(request: JsonRequest) => Promise<JsonResult<T>>;
+  generateImage: (request: ImageRequest) => Promise<ImageResult>;
+  /** Resolves to a playable URL. */
+  generateVideo: (request: VideoRequest) => Promise<string>;
+  embed: (request: EmbedRequest) => Promise<EmbedResult>;
+  /** Cosine similarity above which this backend's embeddings usually mean related texts. */
+  relatedSimilarity: number;
+  connectLive: (request: LiveRequest) => Promise<LiveSessionHandle>;
+}
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError as soon as the signal fires.
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  // Long-lived signals (a whole Live call) see many delays, so each one unhooks itself when it elapses.
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+/**
+ * True for the error a fetch, SDK call or `delay` rejects with after its signal was aborted.
+ */
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+const PROVIDERS: Record<string, ModelProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider
+};
+
+const PROVIDER_OVERRIDE_KEY = 'little_ai_provider';
+
+/**
+ * The backend comes from `MODEL_PROVIDER` at build time and can be overridden per browser
+ * (e.g. `localStorage.little_ai_provider = 'mock'`) to run the UI offline.
+ */
+export const getProvider = (): ModelProvider => {
+  const override = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_OVERRIDE_KEY) : null;
+  return PROVIDERS[override || process.env.MODEL_PROVIDER || ''] || geminiProvider;
+};
+
+export const setProviderOverride = (id: string | null) => {
+  if (id && PROVIDERS[id]) localStorage.setItem(PROVIDER_OVERRIDE_KEY, id);
+  else localStorage.removeItem(PROVIDER_OVERRIDE_KEY);
+};
+
+export const listProviders = (): ModelProvider[] => Object.values(PROVIDERS);
@@ -0,0 +1,120 @@
+import { VAULT_FOLDERS } from "./vaultFolders";
+import { repositoryFor, measureArtifactStore, ArtifactFootprint } from "./artifactRepository";
+import { measureVaultRecords } from "./storageService";
+import { GUEST_NAMESPACE } from "./sessionService";
+import { getStoredUsers } from "./accountService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIRST_SWEEP_DELAY_MS = 30 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Limits for one Vault Explorer folder. Unset limits do not apply; the newest items are kept.
+ */
+export interface RetentionRule {
+  maxItems?: number;
+  maxAgeDays?: number;
+  maxBytes?: number;
+}
+
+export type RetentionPolicy = Partial<Record<string, RetentionRule>>; // By Vault Explorer folder id
+
+export interface CleanupReport {
+  removed: number;
+  freed: number; // Approximate bytes
+}
+
+export interface UsageBucket {
+  count: number;
+  bytes: number;
+}
+
+export interface StorageBreakdown {
+  folders: Record<string, UsageBucket>; // By Vault Explorer folder id, every user on the device
+  users: Record<string, UsageBucket>;   // By vault namespace: artifacts plus chats, memories and ledgers
+  shared: number;                       // Device-wide records (key description, credentials) in bytes
+}
+
+export const hasRetentionLimits = (rule?: RetentionRule) => !!(rule && (rule.maxItems || rule.maxAgeDays || rule.maxBytes));
+
+/**
+ * Which items a rule drops. Expects newest first, so the newest items are the ones kept.
+ * Favourites are never dropped and do not count towards the limits.
+ */
+export const expiredArtifacts = (items: ArtifactFootprint[], rule: RetentionRule, now = Date.now()) => {
+  const oldest = rule.maxAgeDays ? now - rule.maxAgeDays * DAY_MS : -Infinity;
+  let kept = 0;
+  let keptBytes = 0;
+  return items.filter(item => {
+    if (item.favorite) return false;
+    const fits = item.timestamp >= oldest
+      && (!rule.maxItems || kept < rule.maxItems)
+      && (!rule.maxBytes || keptBytes + item.bytes <= rule.maxBytes);
+    if (!fits) return true;
+    kept++;
+    keptBytes += item.bytes;
+    return false;
+  });
+};
+
+/**
+ * Applies the policy to the active user's artifacts, folder by folder.
+ */
+export const enforceRetention = async (policy: RetentionPolicy): Promise<CleanupReport> => {
+  const report: CleanupReport = { removed: 0, freed: 0 };
+  for (const folder of VAULT_FOLDERS) {
+    const rule = policy[folder.id];
+    if (!hasRetentionLimits(rule)) continue;
+    const repository = repositoryFor(folder.store);
+    const expired = expiredArtifacts(await repository.footprint(), rule!);
+    if (!expired.length) continue;
+    await repository.remove(expired.map(item => item.id));
+    report.removed += expired.length;
+    report.freed += expired.reduce((sum, item) => sum + item.bytes, 0);
+  }
+  return report;
+};
+
+/**
+ * Runs the cleanup pass shortly after the vault opens and then hourly. Returns a function that stops it.
+ */
+export const scheduleRetention = (policy: RetentionPolicy) => {
+  if (!VAULT_FOLDERS.some(folder => hasRetentionLimits(policy[folder.id]))) return () => {};
+  const sweep = () => enforceRetention(policy).catch(e => console.error("Vault cleanup failed", e));
+  const first = setTimeout(sweep, FIRST_SWEEP_DELAY_MS);
+  const interval = setInterval(sweep, SWEEP_INTERVAL_MS);
+  return () => {
+    clearTimeout(first);
+    clearInterval(interval);
+  };
+};
+
+const bucket = (buckets: Record<string, UsageBucket>, key: string) => buckets[key] || (buckets[key] = { count: 0, bytes: 0 });
+
+/**
+ * How much each folder and each user on this device takes up. Measured from the stored (possibly sealed)
+ * records, so it works while locked and is an estimate rather than what the browser charges.
+ */
+export const measureStorageBreakdown = async (): Promise<StorageBreakdown> => {
+  const breakdown: StorageBreakdown = { folders: {}, users: {}, shared: 0 };
+  for (const folder of VAULT_FOLDERS) {
+    const folderBucket = bucket(breakdown.folders, folder.id);
+    for (const item of await measureArtifactStore(folder.store)) {
+      folderBucket.count++;
+      folderBucket.bytes += item.bytes;
+      const userBucket = bucket(breakdown.users, item.owner);
+      userBucket.count++;
+      userBucket.bytes += item.bytes;
+    }
+  }
+
+  // User records are keyed `user_<namespace>_<name>`; the longest matching namespace wins since names may contain '_'.
+  const namespaces = [...new Set([GUEST_NAMESPACE, ...Object.keys(getStoredUsers()), ...Object.keys(breakdown.users)])]
+    .sort((a, b) => b.length - a.length);
+  Object.entries(await measureVaultRecords()).forEach(([key, bytes]) => {
+    const namespace = namespaces.find(ns => key.startsWith(`user_${ns}_`));
+    if (namespace) bucket(breakdown.users, namespace).bytes += bytes;
+    else breakdown.shared += bytes;
+  });
+  return breakdown;
+};
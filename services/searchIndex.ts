@@ -0,0 +1,331 @@
+import { ChatSession, MemoryEntry, Artifact, ArtifactType } from "../types";
+import { ArtifactStore, ARTIFACT_STORES } from "./storageService";
+import { repositoryFor, ArtifactChange } from "./artifactRepository";
+import { isDataUrl } from "./mediaService";
+
+const MIN_TOKEN_LENGTH = 2;
+const TITLE_WEIGHT = 3;        // A title word counts as this many body words
+const PREFIX_WEIGHT = 0.6;     // A prefix match scores this fraction of an exact one
+const MAX_PREFIX_TERMS = 64;   // Expansions considered per query word
+const MAX_DOCUMENT_CHARS = 50000;
+const SNIPPET_CHARS = 140;
+const LOAD_PAGE_SIZE = 20;
+// BM25 constants
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Where a search result leads.
+ */
+export type SearchTarget =
+  | { kind: 'chat'; sessionId: string; messageId?: string }
+  | { kind: 'memory'; memoryId: string }
+  | { kind: 'artifact'; store: ArtifactStore; artifactId: string; artifactType: ArtifactType };
+
+export interface SearchDocument {
+  id: string;
+  label: string;  // Shown in results
+  title: string;  // Indexed with extra weight
+  text: string;
+  timestamp: number;
+  target: SearchTarget;
+}
+
+export interface SearchResult {
+  id: string;
+  label: string;
+  snippet: string;
+  timestamp: number;
+  score: number;
+  target: SearchTarget;
+}
+
+export interface SearchOptions {
+  kind?: SearchTarget['kind'];
+  limit?: number;
+}
+
+/**
+ * Called with the new document when one is added or its text changed, and with null when the item it
+ * indexed was deleted. Clearing the index on sign-out or lock is not reported.
+ */
+export type SearchIndexListener = (id: string, doc: SearchDocument | null) => void;
+
+interface IndexedDocument extends SearchDocument {
+  terms: Map<string, number>; // Term -> weighted frequency
+  length: number;
+}
+
+/**
+ * Lowercased word tokens with accents folded, so "café" finds "cafe". Handles non-Latin scripts.
+ */
+export const tokenizeForSearch = (text: string): string[] =>
+  text.normalize('NFKD').replace(/\p{M}+/gu, '').toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length >= MIN_TOKEN_LENGTH);
+
+const countTerms = (text: string, weight: number, into: Map<string, number>) => {
+  const tokens = tokenizeForSearch(text);
+  tokens.forEach(t => into.set(t, (into.get(t) || 0) + weight));
+  return tokens.length * weight;
+};
+
+// First index in a sorted array whose value is >= term.
+const lowerBound = (sorted: string[], term: string) => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < term) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+};
+
+const snippetOf = (doc: SearchDocument, queryTokens: string[]) => {
+  const text = doc.text.replace(/\s+/g, ' ').trim();
+  if (!text) return '';
+  const lower = text.toLowerCase();
+  const hit = queryTokens.map(t => lower.indexOf(t)).filter(i => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - Math.floor(SNIPPET_CHARS / 3));
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const ARTIFACT_TEXT_FIELDS = ['prompt', 'content', 'code', 'swagger', 'lang', 'stack', 'subCategory', 'style'];
+
+/**
+ * What an artifact contributes to the index. Media bytes and old data URLs are skipped.
+ */
+export const artifactDocument = (store: ArtifactStore, artifact: Artifact<any>): SearchDocument => {
+  const text = ARTIFACT_TEXT_FIELDS
+    .map(field => artifact[field])
+    .filter(value => typeof value === 'string' && !isDataUrl(value))
+    .concat(artifact.tags || [])
+    .join('\n')
+    .slice(0, MAX_DOCUMENT_CHARS);
+  const label = artifact.title || artifact.prompt || artifact.subCategory || artifact.type;
+  return {
+    id: `artifact:${store}:${artifact.id}`,
+    label: String(label).slice(0, 80),
+    title: artifact.title || '',
+    text,
+    timestamp: artifact.updatedAt || artifact.timestamp,
+    target: { kind: 'artifact', store, artifactId: artifact.id, artifactType: artifact.type }
+  };
+};
+
+/**
+ * An in-memory inverted index over chats, memories and vault artifacts, ranked with BM25.
+ * Every query word must match, either exactly or as the start of an indexed word.
+ * Kept current incrementally: re-syncing unchanged sessions or memories costs a reference check.
+ */
+export const createSearchIndex = () => {
+  const documents = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Map<string, number>>(); // Term -> document id -> weighted frequency
+  let sortedTerms: string[] | null = null; // Rebuilt lazily for prefix lookups
+  let totalLength = 0;
+
+  const syncedSessions = new Map<string, { session: ChatSession; ids: Set<string> }>();
+  const syncedMemories = new Map<string, MemoryEntry>();
+  let artifactGeneration = 0;
+  const listeners = new Set<SearchIndexListener>();
+
+  const remove = (id: string, notify = true) => {
+    const doc = documents.get(id);
+    if (!doc) return;
+    if (notify) listeners.forEach(listener => listener(id, null));
+    doc.terms.forEach((_, term) => {
+      const list = postings.get(term)!;
+      list.delete(id);
+      if (!list.size) {
+        postings.delete(term);
+        sortedTerms = null;
+      }
+    });
+    totalLength -= doc.length;
+    documents.delete(id);
+  };
+
+  const upsert = (doc: SearchDocument) => {
+    const existing = documents.get(doc.id);
+    if (existing && existing.title === doc.title && existing.text === doc.text) {
+      Object.assign(existing, { label: doc.label, timestamp: doc.timestamp, target: doc.target });
+      return;
+    }
+    remove(doc.id, false);
+    const terms = new Map<string, number>();
+    const length = countTerms(doc.title, TITLE_WEIGHT, terms) + countTerms(doc.text, 1, terms);
+    if (!terms.size) {
+      if (existing) listeners.forEach(listener => listener(doc.id, null));
+      return;
+    }
+    documents.set(doc.id, { ...doc, terms, length });
+    listeners.forEach(listener => listener(doc.id, doc));
+    totalLength += length;
+    terms.forEach((frequency, term) => {
+      let list = postings.get(term);
+      if (!list) {
+        postings.set(term, list = new Map());
+        sortedTerms = null;
+      }
+      list.set(doc.id, frequency);
+    });
+  };
+
+  const removeWhere = (prefix: string) => {
+    [...documents.keys()].filter(id => id.startsWith(prefix)).forEach(id => remove(id, false));
+  };
+
+  // Exact term first, then up to MAX_PREFIX_TERMS longer terms starting with it.
+  const expand = (token: string): [string, number][] => {
+    if (!sortedTerms) sortedTerms = [...postings.keys()].sort();
+    const matches: [string, number][] = [];
+    for (let i = lowerBound(sortedTerms, token); i < sortedTerms.length && matches.length <= MAX_PREFIX_TERMS; i++) {
+      const term = sortedTerms[i];
+      if (!term.startsWith(token)) break;
+      matches.push([term, term === token ? 1 : PREFIX_WEIGHT]);
+    }
+    return matches;
+  };
+
+  const search = (query: string, options: SearchOptions = {}): SearchResult[] => {
+    const tokens = [...new Set(tokenizeForSearch(query))];
+    if (!tokens.length || !documents.size) return [];
+    const total = documents.size;
+    const averageLength = totalLength / total || 1;
+
+    let scores: Map<string, number> | null = null;
+    for (const token of tokens) {
+      const tokenScores = new Map<string, number>();
+      expand(token).forEach(([term, weight]) => {
+        const list = postings.get(term)!;
+        const idf = Math.log(1 + (total - list.size + 0.5) / (list.size + 0.5));
+        list.forEach((frequency, id) => {
+          if (scores && !scores.has(id)) return;
+          const doc = documents.get(id)!;
+          if (options.kind && doc.target.kind !== options.kind) return;
+          const saturated = (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+          // A document is credited with its best matching term for each query word.
+          tokenScores.set(id, Math.max(tokenScores.get(id) || 0, idf * saturated * weight));
+        });
+      });
+      if (scores) tokenScores.forEach((score, id) => tokenScores.set(id, score + scores!.get(id)!));
+      scores = tokenScores;
+      if (!scores.size) return [];
+    }
+
+    return [...scores!.entries()]
+      .map(([id, score]) => ({ doc: documents.get(id)!, score }))
+      .sort((a, b) => b.score - a.score || b.doc.timestamp - a.doc.timestamp)
+      .slice(0, options.limit ?? 20)
+      .map(({ doc, score }) => ({
+        id: doc.id,
+        label: doc.label,
+        snippet: snippetOf(doc, tokens),
+        timestamp: doc.timestamp,
+        score,
+        target: doc.target
+      }));
+  };
+
+  /**
+   * Indexes each session's title and every message on every branch. Sessions are compared by reference,
+   * so only those that changed since the last call are re-read.
+   */
+  const syncSessions = (sessions: ChatSession[]) => {
+    const seen = new Set<string>();
+    sessions.forEach(session => {
+      seen.add(session.id);
+      const synced = syncedSessions.get(session.id);
+      if (synced?.session === session) return;
+      const ids = new Set<string>();
+      const sessionLabel = session.title || 'Untitled Link';
+      upsert({ id: `chat:${session.id}`, label: sessionLabel, title: session.title, text: '', timestamp: session.updatedAt, target: { kind: 'chat', sessionId: session.id } });
+      ids.add(`chat:${session.id}`);
+      session.messages.forEach(message => {
+        const id = `chat:${session.id}:${message.id}`;
+        ids.add(id);
+        upsert({ id, label: sessionLabel, title: '', text: message.content.slice(0, MAX_DOCUMENT_CHARS), timestamp: message.timestamp, target: { kind: 'chat', sessionId: session.id, messageId: message.id } });
+      });
+      synced?.ids.forEach(id => { if (!ids.has(id)) remove(id); });
+      syncedSessions.set(session.id, { session, ids });
+    });
+    syncedSessions.forEach((synced, id) => {
+      if (seen.has(id)) return;
+      synced.ids.forEach(id => remove(id));
+      syncedSessions.delete(id);
+    });
+  };
+
+  const syncMemories = (memories: MemoryEntry[]) => {
+    const seen = new Set<string>();
+    memories.forEach(memory => {
+      seen.add(memory.id);
+      if (syncedMemories.get(memory.id) === memory) return;
+      upsert({ id: `memory:${memory.id}`, label: 'Memory', title: '', text: memory.content, timestamp: memory.updatedAt || memory.timestamp, target: { kind: 'memory', memoryId: memory.id } });
+      syncedMemories.set(memory.id, memory);
+    });
+    syncedMemories.forEach((_, id) => {
+      if (seen.has(id)) return;
+      remove(`memory:${id}`);
+      syncedMemories.delete(id);
+    });
+  };
+
+  /**
+   * Replaces the indexed artifacts with the active owner's, a page at a time so media is not all held at once.
+   * A later call (or reset) abandons an earlier one still loading.
+   */
+  const loadArtifacts = async () => {
+    const generation = ++artifactGeneration;
+    removeWhere('artifact:');
+    for (const store of ARTIFACT_STORES) {
+      let cursor: string | null = null;
+      do {
+        const page = await repositoryFor(store).page({ cursor, limit: LOAD_PAGE_SIZE });
+        if (generation !== artifactGeneration) return;
+        page.items.forEach(artifact => upsert(artifactDocument(store, artifact)));
+        cursor = page.nextCursor;
+      } while (cursor);
+    }
+  };
+
+  const applyArtifactChange = async (change: ArtifactChange) => {
+    change.saved?.forEach(artifact => upsert(artifactDocument(change.store, artifact)));
+    change.removed?.forEach(id => remove(`artifact:${change.store}:${id}`));
+    if (!change.moved?.length) return;
+    const generation = artifactGeneration;
+    for (const id of change.moved) {
+      const artifact = await repositoryFor(change.store).get(id);
+      if (generation !== artifactGeneration) return;
+      if (artifact) upsert(artifactDocument(change.store, artifact));
+    }
+  };
+
+  const resetArtifacts = () => {
+    artifactGeneration++;
+    removeWhere('artifact:');
+  };
+
+  /**
+   * A result for an indexed document, e.g. one found by semantic search rather than by its words.
+   */
+  const describe = (id: string, score = 0): SearchResult | null => {
+    const doc = documents.get(id);
+    return doc ? { id, label: doc.label, snippet: snippetOf(doc, []), timestamp: doc.timestamp, score, target: doc.target } : null;
+  };
+
+  const onChange = (listener: SearchIndexListener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  };
+
+  return { search, describe, onChange, documents: (): SearchDocument[] => [...documents.values()], syncSessions, syncMemories, loadArtifacts, applyArtifactChange, resetArtifacts, size: () => documents.size };
+};
+
+export type SearchIndex = ReturnType<typeof createSearchIndex>;
+
+/**
+ * The app-wide index. App keeps it in step with chats, memories and the vault; views only query it.
+ */
+export const searchIndex = createSearchIndex();
@@ -0,0 +1,119 @@
+import { ChatSession } from "../types";
+import { getUserFromVault, saveUserBatchToVault, removeUserFromVault } from "./storageService";
+import { linkLegacyMessages } from "./conversationService";
+
+/**
+ * Vault namespace used while nobody is signed in.
+ */
+export const GUEST_NAMESPACE = '__guest__';
+
+const SESSIONS_KEY = 'chat_sessions';
+const SESSIONS_BACKUP_KEY = 'chat_sessions_prev';
+const ARCHIVE_VERSION = 2; // v2: messages carry parent links for branching
+
+interface SessionArchive {
+  version: number;
+  savedAt: number;
+  sessions: ChatSession[];
+}
+
+const isSession = (s: any): s is ChatSession =>
+  !!s && typeof s.id === 'string' && Array.isArray(s.messages);
+
+/**
+ * Brings a stored record up to the current archive shape.
+ * Returns null for missing, unreadable or future-versioned records so callers can fall back.
+ */
+const migrateArchive = (raw: any): SessionArchive | null => {
+  if (!raw) return null;
+  // Pre-versioned saves were a bare array of sessions.
+  const record = Array.isArray(raw) ? { version: 0, savedAt: 0, sessions: raw } : raw;
+  if (typeof record !== 'object' || !Array.isArray(record.sessions)) return null;
+  if (typeof record.version !== 'number' || record.version > ARCHIVE_VERSION) return null;
+
+  const sessions = record.sessions.filter(isSession).map((s: ChatSession) => ({
+    ...s,
+    messages: linkLegacyMessages(s.messages),
+    title: s.title || 'Untitled Link',
+    updatedAt: s.updatedAt || Date.now(),
+    startTime: s.startTime || s.updatedAt || Date.now()
+  }));
+  return { version: ARCHIVE_VERSION, savedAt: record.savedAt || 0, sessions };
+};
+
+/**
+ * Loads the chat archive for a namespace, falling back to the previous snapshot if the
+ * latest one can't be read.
+ */
+export const loadSessions = async (namespace: string): Promise<ChatSession[]> => {
+  const [latest, previous] = await Promise.all([
+    getUserFromVault(namespace, SESSIONS_KEY),
+    getUserFromVault(namespace, SESSIONS_BACKUP_KEY)
+  ]);
+  const archive = migrateArchive(latest) || migrateArchive(previous);
+  return archive ? archive.sessions.sort((a, b) => b.updatedAt - a.updatedAt) : [];
+};
+
+/**
+ * Writes the chat archive, keeping the last good snapshot alongside it in the same transaction.
+ */
+export const saveSessions = async (namespace: string, sessions: ChatSession[]): Promise<void> => {
+  const current = await getUserFromVault(namespace, SESSIONS_KEY);
+  const archive: SessionArchive = { version: ARCHIVE_VERSION, savedAt: Date.now(), sessions };
+  const entries: Record<string, any> = { [SESSIONS_KEY]: archive };
+  if (migrateArchive(current)) entries[SESSIONS_BACKUP_KEY] = current;
+  await saveUserBatchToVault(namespace, entries);
+};
+
+/**
+ * Merges any guest sessions into a user's archive and clears the guest namespace.
+ * Returns the user's sessions after adoption.
+ */
+export const adoptGuestSessions = async (username: string): Promise<ChatSession[]> => {
+  const [guestSessions, userSessions] = await Promise.all([
+    loadSessions(GUEST_NAMESPACE),
+    loadSessions(username)
+  ]);
+  if (guestSessions.length === 0) return userSessions;
+
+  const known = new Set(userSessions.map(s => s.id));
+  const merged = [...userSessions, ...guestSessions.filter(s => !known.has(s.id))]
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  await saveSessions(username, merged);
+  await removeUserFromVault(GUEST_NAMESPACE, [SESSIONS_KEY, SESSIONS_BACKUP_KEY]);
+  return merged;
+};
+
+/**
+ * Debounced, serialised archive writer. Only the latest scheduled snapshot is written,
+ * and writes never overlap so the backup rotation can't interleave.
+ */
+export const createSessionWriter = (delay = 800) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: { namespace: string; sessions: ChatSession[] } | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const flush = (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending) {
+      const { namespace, sessions } = pending;
+      pending = null;
+      inFlight = inFlight
+        .then(() => saveSessions(namespace, sessions))
+        .catch(e => console.error("Failed to archive sessions", e));
+    }
+    return inFlight;
+  };
+
+  const schedule = (namespace: string, sessions: ChatSession[]) => {
+    pending = { namespace, sessions };
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, delay);
+  };
+
+  return { schedule, flush };
+};
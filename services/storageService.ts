@@ -1,30 +1,225 @@
+import { VaultKey, VaultKeyInfo, isSealed, sealValue, openValue, createVaultKey, openVaultKey } from "./vaultCrypto";
 
 const DB_NAME = 'LittleAiNeuralVault';
 const STORE_NAME = 'vault_data';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
-// 100 GB in bytes (100 * 1024 * 1024 * 1024)
-const STORAGE_LIMIT_100GB = 107374182400;
+export const ARTIFACT_STORES = ['images', 'documents', 'code', 'videos', 'apps', 'analyses'] as const;
+export type ArtifactStore = typeof ARTIFACT_STORES[number];
+export const EMBEDDING_STORE = 'embeddings';
+// Stores whose rows keep their content in a sealable `payload`.
+const PAYLOAD_STORES = [...ARTIFACT_STORES, EMBEDDING_STORE];
 
+const ENCRYPTION_KEY = 'vault_encryption';
+// Read before the vault can be unlocked (the key description, hashed sign-in credentials), so never sealed.
+const PLAINTEXT_KEY_PREFIXES = [ENCRYPTION_KEY, 'credential_'];
+
+let encryption: VaultKeyInfo | null = null;
+let vaultKey: VaultKey | null = null;
+// Re-encrypting the whole vault; writes wait for it so none are lost under the old key.
+let maintenance: Promise<void> | null = null;
+const lockListeners = new Set<(locked: boolean) => void>();
+
+/**
+ * Schema steps keyed by the version they upgrade to, run in order inside the upgrade transaction.
+ */
+const SCHEMA_MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME);
+  },
+  // One store per artifact kind. Only the metadata is indexed; the content lives in `payload`
+  // so it can be sealed. Arrays left under the old `neural_*` keys are moved over after opening.
+  2: (db) => {
+    ARTIFACT_STORES.forEach(name => {
+      const store = db.createObjectStore(name, { keyPath: 'id' });
+      store.createIndex('timestamp', 'timestamp');
+      store.createIndex('type', 'type');
+      store.createIndex('owner', 'owner');
+      store.createIndex('owner_timestamp', ['owner', 'timestamp']);
+      store.createIndex('owner_type_timestamp', ['owner', 'type', 'timestamp']);
+    });
+  },
+  // Semantic search vectors, one per owner and search document. Derived data, so left out of backups.
+  3: (db) => {
+    const store = db.createObjectStore(EMBEDDING_STORE, { keyPath: ['owner', 'id'] });
+    store.createIndex('owner', 'owner');
+  }
+};
+
+let connection: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the vault once and hands the same connection to every caller.
+ */
 export const initVault = (): Promise<IDBDatabase> => {
-  return new Promise((resolve, reject) => {
+  if (connection) return connection;
+  connection = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        SCHEMA_MIGRATIONS[version]?.(request.result);
       }
     };
 
-    request.onsuccess = (event) => {
-      resolve((event.target as IDBOpenDBRequest).result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab wants a newer schema: let it upgrade and reopen on the next call.
+      db.onversionchange = () => { db.close(); connection = null; };
+      db.onclose = () => { connection = null; };
+      resolve(db);
     };
 
-    request.onerror = (event) => {
+    request.onerror = () => {
+      connection = null;
       reject('Failed to initialize Neural Vault');
     };
+
+    request.onblocked = () => console.error("Neural Vault upgrade is blocked until other tabs close.");
+  });
+  return connection;
+};
+
+const isPlaintextKey = (key: string) => PLAINTEXT_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+
+const notifyLockChange = () => {
+  const locked = isVaultLocked();
+  lockListeners.forEach(listener => listener(locked));
+};
+
+/**
+ * Seals a value on its way into the store when encryption is on.
+ */
+export const encodeVaultValue = async (data: any, keepPlain = false): Promise<any> => {
+  if (maintenance) await maintenance;
+  if (!encryption || keepPlain) return data;
+  if (!vaultKey) throw new Error("VAULT LOCKED: Unlock the Neural Vault with your passphrase to save.");
+  return sealValue(data, vaultKey);
+};
+
+export const decodeVaultValue = async (value: any): Promise<any> => {
+  if (!isSealed(value)) return value;
+  if (!vaultKey) throw new Error("VAULT LOCKED: Unlock the Neural Vault with your passphrase to read it.");
+  return openValue(value, vaultKey);
+};
+
+const readAllRecords = async (storeName: string = STORE_NAME): Promise<[IDBValidKey, any][]> => {
+  const db = await initVault();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction([storeName], 'readonly').objectStore(storeName);
+    const keysRequest = store.getAllKeys();
+    const valuesRequest = store.getAll();
+    valuesRequest.onsuccess = () => resolve(keysRequest.result.map((key, i) => [key, valuesRequest.result[i]]));
+    valuesRequest.onerror = () => reject('Error reading vault');
+  });
+};
+
+/**
+ * Runs every record (and every artifact and embedding payload) through `transform` and writes the results, plus the
+ * new key description, in one transaction so an interrupted rotation leaves the vault as it was.
+ */
+const rewriteVault = (transform: (value: any) => Promise<any>, nextEncryption: VaultKeyInfo | null, nextKey: VaultKey | null) => {
+  const run = (async () => {
+    const records = await readAllRecords();
+    const rewritten: [IDBValidKey, any][] = [];
+    for (const [key, value] of records) {
+      if (isPlaintextKey(String(key))) continue;
+      rewritten.push([key, await transform(value)]);
+    }
+    const payloadRows: [string, any[]][] = [];
+    for (const name of PAYLOAD_STORES) {
+      const rows: any[] = [];
+      for (const [, row] of await readAllRecords(name)) rows.push({ ...row, payload: await transform(row.payload) });
+      payloadRows.push([name, rows]);
+    }
+    const db = await initVault();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([STORE_NAME, ...PAYLOAD_STORES], 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      rewritten.forEach(([key, value]) => store.put(value, key));
+      payloadRows.forEach(([name, rows]) => {
+        const rowStore = transaction.objectStore(name);
+        rows.forEach(row => rowStore.put(row));
+      });
+      if (nextEncryption) store.put(nextEncryption, ENCRYPTION_KEY);
+      else store.delete(ENCRYPTION_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject('Error re-encrypting vault');
+      transaction.onabort = () => reject('Vault re-encryption aborted');
+    });
+    encryption = nextEncryption;
+    vaultKey = nextKey;
+  })();
+  maintenance = run.catch(() => {}).then(() => { maintenance = null; });
+  return run;
+};
+
+/**
+ * Reads whether the vault is encrypted. Call once on startup before loading anything from it.
+ */
+export const loadVaultEncryption = async (): Promise<boolean> => {
+  const db = await initVault();
+  encryption = await new Promise((resolve, reject) => {
+    const request = db.transaction([STORE_NAME], 'readonly').objectStore(STORE_NAME).get(ENCRYPTION_KEY);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject('Error retrieving from vault');
   });
+  return !!encryption;
+};
+
+export const isVaultEncrypted = () => !!encryption;
+
+export const isVaultLocked = () => !!encryption && !vaultKey;
+
+export const onVaultLockChange = (listener: (locked: boolean) => void) => {
+  lockListeners.add(listener);
+  return () => { lockListeners.delete(listener); };
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  if (!encryption) return;
+  vaultKey = await openVaultKey(passphrase, encryption);
+  notifyLockChange();
+};
+
+/**
+ * Forgets the in-memory key. Data stays encrypted on disk until the passphrase is entered again.
+ */
+export const lockVault = () => {
+  if (!encryption || !vaultKey) return;
+  vaultKey = null;
+  notifyLockChange();
+};
+
+/**
+ * Turns on encryption at rest and seals every existing record with a key derived from `passphrase`.
+ */
+export const enableVaultEncryption = async (passphrase: string): Promise<void> => {
+  if (encryption) throw new Error("The vault is already encrypted.");
+  const { info, vaultKey: nextKey } = await createVaultKey(passphrase);
+  await rewriteVault(value => sealValue(value, nextKey), info, nextKey);
+  notifyLockChange();
+};
+
+/**
+ * Re-encrypts every record under a key derived from a new passphrase.
+ */
+export const rotateVaultKey = async (currentPassphrase: string, nextPassphrase: string): Promise<void> => {
+  if (!encryption) throw new Error("The vault is not encrypted.");
+  const currentKey = await openVaultKey(currentPassphrase, encryption);
+  const { info, vaultKey: nextKey } = await createVaultKey(nextPassphrase);
+  await rewriteVault(async value => sealValue(isSealed(value) ? await openValue(value, currentKey) : value, nextKey), info, nextKey);
+  notifyLockChange();
+};
+
+/**
+ * Decrypts every record and stores the vault in the clear again.
+ */
+export const disableVaultEncryption = async (passphrase: string): Promise<void> => {
+  if (!encryption) return;
+  const currentKey = await openVaultKey(passphrase, encryption);
+  await rewriteVault(async value => isSealed(value) ? openValue(value, currentKey) : value, null, null);
+  notifyLockChange();
 };
 
 /**
@@ -33,10 +228,11 @@ export const initVault = (): Promise<IDBDatabase> => {
 export const saveUserToVault = async (username: string, key: string, data: any): Promise<void> => {
   const db = await initVault();
   const userKey = `user_${username}_${key}`;
+  const value = await encodeVaultValue(data, isPlaintextKey(userKey));
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(data, userKey);
+    const request = store.put(value, userKey);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject('Error saving to vault');
@@ -54,23 +250,109 @@ export const getUserFromVault = async (username: string, key: string): Promise<a
     const store = transaction.objectStore(STORE_NAME);
     const request = store.get(userKey);
 
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => decodeVaultValue(request.result).then(resolve, reject);
     request.onerror = () => reject('Error retrieving from vault');
   });
 };
 
+/**
+ * Writes several user-scoped keys in one transaction so they either all land or none do.
+ */
+export const saveUserBatchToVault = async (username: string, entries: Record<string, any>): Promise<void> => {
+  const db = await initVault();
+  const values = await Promise.all(Object.entries(entries).map(async ([key, data]) => {
+    const userKey = `user_${username}_${key}`;
+    return [userKey, await encodeVaultValue(data, isPlaintextKey(userKey))] as const;
+  }));
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    values.forEach(([userKey, value]) => store.put(value, userKey));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving to vault');
+    transaction.onabort = () => reject('Vault write aborted');
+  });
+};
+
+/**
+ * Removes user-scoped keys from the vault.
+ */
+export const removeUserFromVault = async (username: string, keys: string[]): Promise<void> => {
+  const db = await initVault();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    keys.forEach(key => store.delete(`user_${username}_${key}`));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error removing from vault');
+  });
+};
+
+/**
+ * The start of every vault key that belongs to one user (or the guest).
+ */
+export const userKeyPrefix = (username: string) => `user_${username}_`;
+
+/**
+ * Decrypted records by full vault key, for backups: those named in `keys`, or every one starting with `prefix`.
+ * The key description and sign-in credentials belong to this device and are never included.
+ */
+export const readVaultRecords = async ({ keys, prefix }: { keys?: string[]; prefix?: string }): Promise<Record<string, any>> => {
+  const records: Record<string, any> = {};
+  for (const [key, value] of await readAllRecords()) {
+    const name = String(key);
+    if (isPlaintextKey(name) || (keys && !keys.includes(name)) || (prefix && !name.startsWith(prefix))) continue;
+    records[name] = await decodeVaultValue(value);
+  }
+  return records;
+};
+
+/**
+ * Writes records by full vault key in one transaction, sealing them if the vault is encrypted.
+ */
+export const writeVaultRecords = async (records: Record<string, any>): Promise<void> => {
+  const entries = await Promise.all(Object.entries(records)
+    .filter(([key]) => !isPlaintextKey(key))
+    .map(async ([key, data]) => [key, await encodeVaultValue(data)] as const));
+  const db = await initVault();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    entries.forEach(([key, value]) => store.put(value, key));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error saving to vault');
+    transaction.onabort = () => reject('Vault write aborted');
+  });
+};
+
 export const saveToVault = async (key: string, data: any): Promise<void> => {
   const db = await initVault();
+  const value = await encodeVaultValue(data, isPlaintextKey(key));
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([STORE_NAME], 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(data, key);
+    const request = store.put(value, key);
 
     request.onsuccess = () => resolve();
     request.onerror = () => reject('Error saving to vault');
   });
 };
 
+export const removeFromVault = async (keys: string[]): Promise<void> => {
+  const db = await initVault();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    keys.forEach(key => store.delete(key));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject('Error removing from vault');
+  });
+};
+
 export const getFromVault = async (key: string): Promise<any> => {
   const db = await initVault();
   return new Promise((resolve, reject) => {
@@ -78,7 +360,7 @@ export const getFromVault = async (key: string): Promise<any> => {
     const store = transaction.objectStore(STORE_NAME);
     // Fix: Removed broken line referencing undefined userKey
     const req = store.get(key);
-    req.onsuccess = () => resolve(req.result);
+    req.onsuccess = () => decodeVaultValue(req.result).then(resolve, reject);
     req.onerror = () => reject('Error retrieving from vault');
   });
 };
@@ -86,21 +368,63 @@ export const getFromVault = async (key: string): Promise<any> => {
 export const wipeVault = async (): Promise<void> => {
   const db = await initVault();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([STORE_NAME], 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject('Wipe failed');
+    const transaction = db.transaction([STORE_NAME, ...PAYLOAD_STORES], 'readwrite');
+    [STORE_NAME, ...PAYLOAD_STORES].forEach(name => transaction.objectStore(name).clear());
+    transaction.oncomplete = () => {
+      encryption = null;
+      vaultKey = null;
+      notifyLockChange();
+      resolve();
+    };
+    transaction.onerror = () => reject('Wipe failed');
   });
 };
 
-export const getVaultUsage = async (): Promise<{ used: number; total: number }> => {
-  if (!navigator.storage || !navigator.storage.estimate) {
-    return { used: 0, total: STORAGE_LIMIT_100GB }; 
+export interface VaultUsage {
+  used: number;
+  quota: number; // 0 when the browser does not report one
+  persisted: boolean; // Whether the browser has promised not to evict the vault
+}
+
+/**
+ * What the browser reports for this origin, which includes the vault and anything else the app caches.
+ */
+export const getVaultUsage = async (): Promise<VaultUsage> => {
+  if (!navigator.storage?.estimate) return { used: 0, quota: 0, persisted: false };
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+  ]);
+  return { used: estimate.usage || 0, quota: estimate.quota || 0, persisted };
+};
+
+/**
+ * Asks the browser to keep the vault under storage pressure. Resolves to whether it agreed;
+ * browsers may refuse without asking, e.g. for sites that are not installed or bookmarked.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
+
+/**
+ * Rough size of a stored value in bytes. Strings are counted one byte per character.
+ */
+export const estimateBytes = (value: any): number => {
+  if (value instanceof Blob) return value.size;
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) return value.byteLength;
+  if (typeof value === 'string') return value.length;
+  if (Array.isArray(value)) return value.reduce((sum, item) => sum + estimateBytes(item), 0);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((sum, [key, item]) => sum + key.length + estimateBytes(item), 0);
   }
-  const estimate = await navigator.storage.estimate();
-  return {
-    used: estimate.usage || 0,
-    total: STORAGE_LIMIT_100GB 
-  };
+  return 8;
+};
+
+/**
+ * Approximate size of every key-value record (chats, memories, usage ledgers) by vault key.
+ * Sealed records are measured as stored, without decrypting them.
+ */
+export const measureVaultRecords = async (): Promise<Record<string, number>> => {
+  const sizes: Record<string, number> = {};
+  for (const [key, value] of await readAllRecords()) sizes[String(key)] = estimateBytes(value);
+  return sizes;
 };
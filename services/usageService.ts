@@ -0,0 +1,195 @@
+import { UsageEntry } from "../types";
+import { getUserFromVault, saveUserToVault } from "./storageService";
+import { TokenUsage } from "./providerService";
+
+const LEDGER_KEY = 'usage_ledger';
+const LEDGER_VERSION = 1;
+// Oldest entries are dropped past this so the ledger stays cheap to rewrite on every request.
+const LEDGER_LIMIT = 5000;
+
+export interface ModelPrice {
+  inputPer1K: number;  // Credits per 1,000 prompt tokens
+  outputPer1K: number; // Credits per 1,000 output tokens
+  perRequest?: number; // Flat credits per call, for media models billed per item
+}
+
+/**
+ * Built-in credits charged per model. Models missing from the table use DEFAULT_PRICE; either can be
+ * overridden per model from Settings.
+ */
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { inputPer1K: 0.02, outputPer1K: 0.12 },
+  'gemini-3-flash-preview': { inputPer1K: 0.005, outputPer1K: 0.03 },
+  'gemini-2.5-pro': { inputPer1K: 0.0125, outputPer1K: 0.1 },
+  'gemini-2.5-flash': { inputPer1K: 0.003, outputPer1K: 0.025 },
+  'gemini-2.5-flash-lite': { inputPer1K: 0.001, outputPer1K: 0.004 },
+  'gemini-3-pro-image-preview': { inputPer1K: 0.02, outputPer1K: 0.12, perRequest: 1.3 },
+  'gemini-2.5-flash-image': { inputPer1K: 0.003, outputPer1K: 0.025, perRequest: 0.4 },
+  'veo-3.1-generate-preview': { inputPer1K: 0, outputPer1K: 0, perRequest: 30 },
+  'veo-3.1-fast-generate-preview': { inputPer1K: 0, outputPer1K: 0, perRequest: 12 },
+  'gemini-embedding-001': { inputPer1K: 0.00015, outputPer1K: 0 }
+};
+
+const DEFAULT_PRICE: ModelPrice = { inputPer1K: 0.005, outputPer1K: 0.03 };
+
+let priceOverrides: Record<string, Partial<ModelPrice>> = {};
+
+/**
+ * Per-model prices that replace the built-in ones, e.g. after the provider changes its rates.
+ * Fields left out keep their built-in value. Only requests recorded afterwards are affected.
+ */
+export const setPriceOverrides = (overrides: Record<string, Partial<ModelPrice>> | undefined) => {
+  priceOverrides = overrides || {};
+};
+
+export const priceFor = (model: string): ModelPrice => ({ ...(DEFAULT_PRICE_TABLE[model] || DEFAULT_PRICE), ...priceOverrides[model] });
+
+export const priceRequest = (model: string, usage: TokenUsage = { promptTokens: 0, outputTokens: 0 }) => {
+  const price = priceFor(model);
+  const credits = (usage.promptTokens / 1000) * price.inputPer1K + (usage.outputTokens / 1000) * price.outputPer1K + (price.perRequest || 0);
+  return Math.round(credits * 10000) / 10000;
+};
+
+let activeNamespace: string | null = null;
+let ledger: UsageEntry[] = [];
+let ledgerLoaded = false; // Writes wait for the stored entries so they are never overwritten
+let monthlyBudget: number | null = null;
+let writeChain: Promise<void> = Promise.resolve();
+let ledgerReady: Promise<void> = Promise.resolve();
+const listeners = new Set<(entry?: UsageEntry) => void>();
+
+const notify = (entry?: UsageEntry) => listeners.forEach(listener => listener(entry));
+
+const isEntry = (e: any): e is UsageEntry =>
+  e && typeof e.id === 'string' && typeof e.timestamp === 'number' && typeof e.credits === 'number';
+
+const persist = (namespace: string) => {
+  const snapshot = ledger.slice(-LEDGER_LIMIT);
+  writeChain = writeChain
+    .then(() => saveUserToVault(namespace, LEDGER_KEY, { version: LEDGER_VERSION, entries: snapshot }))
+    .catch(e => console.error("Failed to save usage ledger", e));
+};
+
+/**
+ * Switches the ledger to another user. Requests recorded while the old entries load are kept.
+ * Subscribers are told, without an entry, when the ledger is emptied and again once it has loaded.
+ */
+export const activateUsageLedger = (namespace: string): Promise<void> => {
+  ledgerReady = (async () => {
+    await writeChain;
+    activeNamespace = namespace;
+    ledger = [];
+    ledgerLoaded = false;
+    notify();
+    const raw = await getUserFromVault(namespace, LEDGER_KEY).catch(() => null);
+    if (activeNamespace !== namespace) return;
+    const stored = Array.isArray(raw?.entries) ? raw.entries.filter(isEntry) : [];
+    const recordedMeanwhile = ledger.length > 0;
+    ledger = [...stored, ...ledger].slice(-LEDGER_LIMIT);
+    ledgerLoaded = true;
+    if (recordedMeanwhile) persist(namespace);
+    notify();
+  })();
+  return ledgerReady;
+};
+
+export const getUsageLedger = (): UsageEntry[] => ledger;
+
+/**
+ * A soft monthly cap in credits; null turns it off.
+ */
+export const setUsageBudget = (limit: number | null | undefined) => {
+  monthlyBudget = limit && limit > 0 ? limit : null;
+};
+
+const startOfMonth = (now = new Date()) => new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const creditsSpentThisMonth = () => {
+  const since = startOfMonth();
+  return ledger.reduce((sum, e) => e.timestamp >= since ? sum + e.credits : sum, 0);
+};
+
+/**
+ * Throws once this month's spend has reached the budget, before a request goes out. Waits for the
+ * stored ledger first, so a request made while it loads is checked against the real spend.
+ */
+export const assertWithinBudget = async () => {
+  await ledgerReady;
+  if (monthlyBudget === null) return;
+  const spent = creditsSpentThisMonth();
+  if (spent >= monthlyBudget) {
+    throw new Error(`BUDGET REACHED: ${spent.toFixed(2)} of ${monthlyBudget} credits used this month. Raise the limit in Settings → Usage to continue.`);
+  }
+};
+
+export const recordUsage = (tool: string, model: string, usage?: TokenUsage): UsageEntry => {
+  const entry: UsageEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    tool,
+    model,
+    promptTokens: usage?.promptTokens || 0,
+    outputTokens: usage?.outputTokens || 0,
+    credits: priceRequest(model, usage)
+  };
+  ledger = [...ledger, entry].slice(-LEDGER_LIMIT);
+  if (activeNamespace && ledgerLoaded) persist(activeNamespace);
+  notify(entry);
+  return entry;
+};
+
+/**
+ * Called with each new entry, and without one when the whole ledger changes, e.g. on switching user.
+ */
+export const onUsageRecorded = (listener: (entry?: UsageEntry) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  credits: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, promptTokens: 0, outputTokens: 0, credits: 0 });
+
+const addTo = (totals: UsageTotals, e: UsageEntry) => {
+  totals.requests++;
+  totals.promptTokens += e.promptTokens;
+  totals.outputTokens += e.outputTokens;
+  totals.credits += e.credits;
+};
+
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Totals per tool (highest spend first) and per local day for the last `days` days, oldest first.
+ */
+export const summarizeUsage = (entries: UsageEntry[], days = 14) => {
+  const byTool = new Map<string, UsageTotals>();
+  const byDay = new Map<string, UsageTotals>();
+  const today = new Date();
+  for (let i = days - 1; i >= 0; i--) {
+    byDay.set(dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - i).getTime()), emptyTotals());
+  }
+
+  const total = emptyTotals();
+  entries.forEach(e => {
+    addTo(total, e);
+    if (!byTool.has(e.tool)) byTool.set(e.tool, emptyTotals());
+    addTo(byTool.get(e.tool)!, e);
+    const day = byDay.get(dayKey(e.timestamp));
+    if (day) addTo(day, e);
+  });
+
+  return {
+    total,
+    byTool: [...byTool.entries()].map(([tool, totals]) => ({ tool, ...totals })).sort((a, b) => b.credits - a.credits),
+    byDay: [...byDay.entries()].map(([day, totals]) => ({ day, ...totals }))
+  };
+};
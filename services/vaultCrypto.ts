@@ -0,0 +1,122 @@
+const PBKDF2_ITERATIONS = 600000;
+const CHECK_TEXT = 'little-ai-neural-vault';
+// Stands in for a Blob inside the sealed JSON; the Blob's bytes are sealed alongside it.
+const BLOB_REF = '__vaultBlob';
+
+interface SealedBlob {
+  type: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+/**
+ * An AES-GCM encrypted vault value. The plaintext is the JSON of the original value,
+ * with any Blobs inside it (generated media) sealed separately in `blobs`.
+ */
+export interface SealedValue {
+  sealed: 'AES-GCM';
+  keyId: string;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  blobs?: SealedBlob[];
+}
+
+/**
+ * Everything needed to re-derive the vault key from the passphrase. Never contains the key itself.
+ */
+export interface VaultKeyInfo {
+  version: number;
+  keyId: string;
+  salt: Uint8Array;
+  iterations: number;
+  check: SealedValue; // A known value sealed with the key, used to tell a wrong passphrase apart
+  createdAt: number;
+}
+
+export interface VaultKey {
+  id: string;
+  key: CryptoKey;
+}
+
+export const isSealed = (value: any): value is SealedValue =>
+  !!value && value.sealed === 'AES-GCM' && typeof value.keyId === 'string' && value.data instanceof ArrayBuffer;
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (plain: BufferSource, vaultKey: VaultKey) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vaultKey.key, plain) };
+};
+
+export const sealValue = async (value: any, vaultKey: VaultKey): Promise<SealedValue> => {
+  const found: Blob[] = [];
+  const json = JSON.stringify(value, (_key, item) => item instanceof Blob ? { [BLOB_REF]: found.push(item) - 1 } : item);
+  const { iv, data } = await encrypt(new TextEncoder().encode(json), vaultKey);
+  const sealed: SealedValue = { sealed: 'AES-GCM', keyId: vaultKey.id, iv, data };
+  if (found.length) {
+    sealed.blobs = await Promise.all(found.map(async blob => ({ type: blob.type, ...(await encrypt(await blob.arrayBuffer(), vaultKey)) })));
+  }
+  return sealed;
+};
+
+export const openValue = async (sealed: SealedValue, vaultKey: VaultKey): Promise<any> => {
+  if (sealed.keyId !== vaultKey.id) throw new Error("Vault record was sealed with a different key.");
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, vaultKey.key, sealed.data);
+  const blobs = await Promise.all((sealed.blobs || []).map(async blob =>
+    new Blob([await crypto.subtle.decrypt({ name: 'AES-GCM', iv: blob.iv }, vaultKey.key, blob.data)], { type: blob.type })));
+  return JSON.parse(new TextDecoder().decode(plain), (_key, item) =>
+    item && typeof item === 'object' && typeof item[BLOB_REF] === 'number' ? blobs[item[BLOB_REF]] : item);
+};
+
+/**
+ * Derives a fresh key (new salt and id) from a passphrase.
+ */
+export const createVaultKey = async (passphrase: string): Promise<{ info: VaultKeyInfo; vaultKey: VaultKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const vaultKey: VaultKey = { id: crypto.randomUUID(), key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS) };
+  const info: VaultKeyInfo = {
+    version: 1,
+    keyId: vaultKey.id,
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    check: await sealValue(CHECK_TEXT, vaultKey),
+    createdAt: Date.now()
+  };
+  return { info, vaultKey };
+};
+
+/**
+ * Re-derives the key described by `info`. Throws when the passphrase is wrong.
+ */
+export const openVaultKey = async (passphrase: string, info: VaultKeyInfo): Promise<VaultKey> => {
+  const vaultKey: VaultKey = { id: info.keyId, key: await deriveKey(passphrase, info.salt, info.iterations) };
+  try {
+    if (await openValue(info.check, vaultKey) === CHECK_TEXT) return vaultKey;
+  } catch (e) {
+    // AES-GCM rejects a wrong key with an OperationError; reported below as a wrong passphrase.
+  }
+  throw new Error("Incorrect vault passphrase.");
+};
+
+/**
+ * A key for sealing one backup archive, derived from the archive's own passphrase. Pass the archive's
+ * salt and iterations to open one; leave them out to seal a new one.
+ */
+export const deriveArchiveKey = async (passphrase: string, salt = crypto.getRandomValues(new Uint8Array(16)), iterations = PBKDF2_ITERATIONS) => {
+  const vaultKey: VaultKey = { id: 'archive', key: await deriveKey(passphrase, salt, iterations) };
+  return { salt, iterations, vaultKey };
+};
+
+export const sealBytes = (plain: BufferSource, vaultKey: VaultKey) => encrypt(plain, vaultKey);
+
+export const openBytes = (iv: Uint8Array, data: BufferSource, vaultKey: VaultKey): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv }, vaultKey.key, data);
@@ -0,0 +1,24 @@
+import { ArtifactType } from "../types";
+import { ArtifactStore } from "./storageService";
+
+/**
+ * How the Vault Explorer groups stored artifacts. Each folder is one artifact object store.
+ */
+export interface VaultFolder {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  bg: string;
+  store: ArtifactStore;
+  types: ArtifactType[]; // What the folder's tools list; anything else moved in only shows in the explorer
+}
+
+export const VAULT_FOLDERS: VaultFolder[] = [
+  { id: 'app_builds', name: 'App Build', icon: 'fa-cube', color: 'text-emerald-400', bg: 'bg-emerald-400/5', store: 'apps', types: ['app'] },
+  { id: 'app_analysis', name: 'App Analysis', icon: 'fa-microchip', color: 'text-blue-400', bg: 'bg-blue-400/5', store: 'analyses', types: ['apk-analysis', 'self-scan'] },
+  { id: 'images', name: 'Visual Assets', icon: 'fa-images', color: 'text-rose-500', bg: 'bg-rose-500/5', store: 'images', types: ['image', 'drawing'] },
+  { id: 'docs', name: 'File Analysis', icon: 'fa-file-signature', color: 'text-blue-500', bg: 'bg-blue-500/5', store: 'documents', types: ['document'] },
+  { id: 'code', name: 'Source Repositories', icon: 'fa-code-branch', color: 'text-emerald-500', bg: 'bg-emerald-500/5', store: 'code', types: ['code', 'api'] },
+  { id: 'video', name: 'Motion Media', icon: 'fa-film', color: 'text-amber-500', bg: 'bg-amber-500/5', store: 'videos', types: ['video'] },
+];
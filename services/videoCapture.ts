@@ -0,0 +1,99 @@
+export type VideoSourceKind = 'camera' | 'screen';
+
+export const VIDEO_FRAME_RATES = [0.5, 1, 2]; // Frames per second; the Live API samples video at about 1 fps
+export const DEFAULT_VIDEO_FRAME_RATE = 1;
+export const VIDEO_FRAME_MIME_TYPE = 'image/jpeg';
+const MAX_FRAME_SIZE = 768; // Longest side in pixels; larger frames cost tokens without helping the model
+const FRAME_QUALITY = 0.7;
+
+export interface VideoCaptureHandlers {
+  /** A base64 JPEG, ready for `sendRealtimeInput`. */
+  onFrame: (data: string) => void;
+  /** The source went away on its own, e.g. screen sharing was stopped from the browser's bar. */
+  onEnded?: () => void;
+}
+
+export interface VideoCapture {
+  kind: VideoSourceKind;
+  /** For showing a preview. */
+  stream: MediaStream;
+  setFrameRate: (fps: number) => void;
+  stop: () => void;
+}
+
+const openStream = (kind: VideoSourceKind) => kind === 'camera'
+  ? navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } } })
+  : navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+
+const readBase64 = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Samples a camera or screen share into downscaled JPEG frames at a steady rate. A frame is skipped
+ * while the previous one is still being encoded, so a slow device never builds up a backlog.
+ */
+export const startVideoCapture = async (kind: VideoSourceKind, frameRate: number, handlers: VideoCaptureHandlers): Promise<VideoCapture> => {
+  const stream = await openStream(kind);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    throw new Error(`The ${kind === 'camera' ? 'camera' : 'screen share'} could not be started.`);
+  }
+
+  const canvas = document.createElement('canvas');
+  let encoding = false;
+  let stopped = false;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const sample = () => {
+    if (encoding || stopped || !video.videoWidth) return;
+    const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+    encoding = true;
+    canvas.toBlob(async (blob) => {
+      try {
+        if (blob && !stopped) handlers.onFrame(await readBase64(blob));
+      } catch (e) {
+        // A frame that could not be read is skipped; the next one follows at the usual rate
+      } finally {
+        encoding = false;
+      }
+    }, VIDEO_FRAME_MIME_TYPE, FRAME_QUALITY);
+  };
+
+  const capture: VideoCapture = {
+    kind,
+    stream,
+    setFrameRate: (fps) => {
+      if (timer) clearInterval(timer);
+      timer = stopped ? null : setInterval(sample, 1000 / fps);
+    },
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      if (timer) clearInterval(timer);
+      timer = null;
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    }
+  };
+
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    if (stopped) return;
+    capture.stop();
+    handlers.onEnded?.();
+  });
+  capture.setFrameRate(frameRate);
+  return capture;
+};
@@ -19,13 +19,105 @@ export enum AppView {
   VIDEO_TO_LYRICS = 'video_to_lyrics',
   APP_BUILDER = 'app_builder',
   APP_ANALYST = 'app_analyst',
-  API_ARCHITECT = 'api_architect'
+  API_ARCHITECT = 'api_architect',
+  MEMORIES = 'memories'
 }
 
+export type MemoryCategory = 'personal' | 'preference' | 'work' | 'task' | 'general';
+
 export interface MemoryEntry {
   id: string;
   content: string;
   timestamp: number;
+  updatedAt?: number;
+  category?: MemoryCategory;
+  pinned?: boolean; // Pinned memories are always sent with chat turns
+}
+
+export interface UsageEntry {
+  id: string;
+  timestamp: number;
+  tool: string;
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  credits: number; // Charged from the price table at the time of the request
+}
+
+/**
+ * Kinds of saved tool output. Each lives in the vault object store of its Vault Explorer folder.
+ */
+export type ArtifactType = 'image' | 'drawing' | 'document' | 'code' | 'api' | 'video' | 'app' | 'apk-analysis' | 'self-scan';
+
+export interface ArtifactMeta {
+  id: string;
+  type: ArtifactType;
+  owner: string; // Vault namespace: a username, or the guest namespace
+  timestamp: number;
+  favorite?: boolean; // Stored unsealed so retention can spare favourites without decrypting
+}
+
+/**
+ * What the Vault Explorer lets users change on any artifact.
+ */
+export interface ArtifactAnnotations {
+  title?: string;
+  tags?: string[];
+  updatedAt?: number;
+}
+
+export type Artifact<T> = T & ArtifactMeta & ArtifactAnnotations;
+
+/**
+ * Generated media kept in the vault as binary, with the settings that produced it.
+ */
+export interface MediaArtifact {
+  blob?: Blob;
+  thumbnail?: Blob; // Small still for galleries
+  mimeType?: string;
+  prompt?: string;
+  model?: string;
+  aspectRatio?: string;
+  seed?: number;
+}
+
+export interface ImageArtifact extends MediaArtifact {
+  content?: string; // URL of an image saved before media was stored as a Blob
+  style?: string;
+}
+
+export interface DocumentArtifact {
+  title: string;
+  content: string;
+}
+
+export interface CodeArtifact {
+  prompt: string;
+  code: string;
+  lang?: string;
+  stack?: string;   // API projects only
+  swagger?: string; // API projects only
+  mock?: string;    // API projects only
+}
+
+export interface VideoArtifact extends MediaArtifact {
+  prompt: string;
+  uri?: string; // Provider link of a video saved before media was stored as a Blob; expires
+  resolution?: string;
+}
+
+export interface AppArtifact {
+  prompt: string;
+  code: string;
+  config?: Record<string, string>;
+  subCategory?: string;
+}
+
+export interface AnalysisArtifact {
+  title: string;
+  content: string;
+  fileSize?: number;
+  subCategory?: string;
 }
 
 export interface User {
@@ -46,9 +138,20 @@ export interface User {
 export interface ChatSession {
   id: string;
   title: string;
-  messages: Message[];
+  messages: Message[]; // Every node of the conversation tree, in creation order
+  activeBranches?: Record<string, string>; // Parent id (or '__root__') -> selected child id
   updatedAt: number;
   startTime: number; // For the 1-hour session protocol
+  voice?: boolean; // Began as a Live voice call; continues in text like any other session
+}
+
+/**
+ * One speaker's turn in a Live voice call, built up from streamed transcription fragments.
+ */
+export interface TranscriptTurn {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number; // When the turn started
 }
 
 export interface Message {
@@ -56,9 +159,11 @@ export interface Message {
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  parentId?: string | null; // Previous message on this branch; null for the first message
   type?: 'text' | 'image' | 'video' | 'search';
   attachments?: string[];
   groundingUrls?: { title: string; uri: string }[];
+  savedMemories?: string[]; // Facts the model stored through save_important_info during this reply
 }
 
 export interface SearchResult {
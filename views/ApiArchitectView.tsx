@@ -1,8 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { Type } from "@google/genai";
+import { generateJson, isAbortError } from '../services/geminiService';
+import { codeRepository } from '../services/artifactRepository';
+import { AppView, Artifact, CodeArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 const STACKS = [
   { id: 'nodejs', label: 'Node.js/Express', icon: 'fab fa-node-js' },
@@ -22,28 +25,29 @@ const ApiArchitectView: React.FC<ApiArchitectViewProps> = ({ onViewChange, onPla
   const [projectCode, setProjectCode] = useState<string | null>(null);
   const [swaggerSpec, setSwaggerSpec] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'code' | 'docs' | 'sandbox'>('code');
-  const [history, setHistory] = useState<any[]>([]);
+  const [history, setHistory] = useState<Artifact<CodeArtifact>[]>([]);
   const [sandboxResponse, setSandboxResponse] = useState<string | null>(null);
+  const request = useCancellableRequest();
 
   useEffect(() => {
     loadHistory();
   }, []);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_api_vault');
-    if (data) setHistory(data);
+    const saved = await codeRepository.page({ type: 'api', limit: 15 });
+    setHistory(saved.items);
   };
 
   const handleGenerate = async () => {
     if (!prompt.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setProjectCode(null);
     setSwaggerSpec(null);
     setSandboxResponse(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const systemPrompt = `Act as a senior backend architect. Build a production-ready API project based on user specifications using ${selectedStack.label}.
       
       Requirements:
@@ -53,54 +57,49 @@ const ApiArchitectView: React.FC<ApiArchitectViewProps> = ({ onViewChange, onPla
       
       Response Format: { "code": "source", "swagger": "json_string", "mockResponse": "json_example" }`;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+      const result = await generateJson<{ code: string; swagger: string; mockResponse: string }>({
         contents: prompt,
-        config: { 
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              code: { type: Type.STRING },
-              swagger: { type: Type.STRING },
-              mockResponse: { type: Type.STRING }
-            },
-            required: ["code", "swagger", "mockResponse"]
-          }
-        }
+        systemInstruction: systemPrompt,
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            code: { type: Type.STRING },
+            swagger: { type: Type.STRING },
+            mockResponse: { type: Type.STRING }
+          },
+          required: ["code", "swagger", "mockResponse"]
+        },
+        signal,
+        task: 'api-architect'
       });
-
-      // Robust JSON extraction
-      let text = response.text || "";
-      text = text.trim().replace(/^```json\n/i, '').replace(/\n```$/i, '').trim();
-      
-      const result = JSON.parse(text);
       setProjectCode(result.code);
       setSwaggerSpec(result.swagger);
       setSandboxResponse(result.mockResponse);
 
-      const newEntry = { 
-        id: Date.now().toString(), 
-        prompt, 
-        code: result.code, 
-        swagger: result.swagger, 
-        mock: result.mockResponse, 
-        stack: selectedStack.label, 
-        timestamp: Date.now() 
-      };
-      const updatedHistory = [newEntry, ...history].slice(0, 15);
-      setHistory(updatedHistory);
-      await saveToVault('neural_api_vault', updatedHistory);
+      const entry = await codeRepository.add('api', {
+        prompt,
+        code: result.code,
+        swagger: result.swagger,
+        mock: result.mockResponse,
+        stack: selectedStack.label
+      });
+      setHistory(prev => [entry, ...prev].slice(0, 15));
 
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("API Masla: Neural architecture failed. This often happens due to an invalid API key or connection timeout.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full w-full bg-transparent overflow-hidden flex flex-col font-sans p-6 md:p-10 relative">
       <button 
@@ -202,6 +201,7 @@ const ApiArchitectView: React.FC<ApiArchitectViewProps> = ({ onViewChange, onPla
                 <div className="h-full flex flex-col items-center justify-center space-y-6">
                    <div className="w-16 h-16 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
                    <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.4em]">Compiling Logic Architecture...</p>
+                   <CancelButton onClick={handleCancel} />
                 </div>
               ) : projectCode ? (
                 <div className="animate-in fade-in zoom-in duration-500 h-full">
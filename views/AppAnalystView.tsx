@@ -1,8 +1,12 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateText, isAbortError } from '../services/geminiService';
+import { delay } from '../services/providerService';
+import { analysisRepository } from '../services/artifactRepository';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { AppView, Artifact, AnalysisArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface AppAnalystViewProps {
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
@@ -15,8 +19,9 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [masterPrompt, setMasterPrompt] = useState<string | null>(null);
   const [progress, setProgress] = useState('');
-  const [history, setHistory] = useState<any[]>([]);
+  const [history, setHistory] = useState<Artifact<AnalysisArtifact>[]>([]);
   const [copied, setCopied] = useState(false);
+  const request = useCancellableRequest();
   const [timer, setTimer] = useState(60);
   const [isSelfScanning, setIsSelfScanning] = useState(false);
   const [analysisTimer, setAnalysisTimer] = useState(0);
@@ -68,21 +73,16 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
       interval = setInterval(() => setTimer(t => t - 1), 1000);
     } else if (timer === 0 && isSelfScanning) {
       setIsSelfScanning(false);
-      const selfScanContent = `**Little Ai System Self-Analysis Report**\n\n**Description**: Little Ai is a multi-dimensional AI ecosystem designed to bridge the gap between human creativity and neural intelligence. It leverages the latest Gemini 3 models for high-speed reasoning and 2.5 native audio for human-like conversations.\n\n**UI Design**: The interface utilizes 'Neural Glassmorphism', combining high-saturation atmospheric glows with semi-transparent functional layers. The signature 'Cherry Blossom' petal animation provides a calming, biological contrast to the hard-tech features.\n\n**Key Components**:\n- **Neural Engine**: Managed via GeminiService with exponential backoff.\n- **Storage**: IndexedDB 'Neural Vault' providing 100GB of localized persistent memory.\n- **Audio Hub**: PCM 16kHz/24kHz bi-directional stream for zero-latency voice interaction.\n\n**Conclusion**: The platform is optimized for production-grade AI interaction with deep privacy focus (all data stored in browser sandbox).`;
+      const selfScanContent = `**Little Ai System Self-Analysis Report**\n\n**Description**: Little Ai is a multi-dimensional AI ecosystem designed to bridge the gap between human creativity and neural intelligence. It leverages the latest Gemini 3 models for high-speed reasoning and 2.5 native audio for human-like conversations.\n\n**UI Design**: The interface utilizes 'Neural Glassmorphism', combining high-saturation atmospheric glows with semi-transparent functional layers. The signature 'Cherry Blossom' petal animation provides a calming, biological contrast to the hard-tech features.\n\n**Key Components**:\n- **Neural Engine**: Managed via GeminiService with exponential backoff.\n- **Storage**: IndexedDB 'Neural Vault' on the device, sized by the browser's storage quota, with per-folder retention rules.\n- **Audio Hub**: PCM 16kHz/24kHz bi-directional stream for zero-latency voice interaction.\n\n**Conclusion**: The platform is optimized for production-grade AI interaction with deep privacy focus (all data stored in browser sandbox).`;
       setAnalysis(selfScanContent);
       
       const saveSelfScan = async () => {
-        const newEntry = {
-          id: Date.now().toString(),
+        const entry = await analysisRepository.add('self-scan', {
           title: "System Self-Scan Report",
           content: selfScanContent,
-          timestamp: Date.now(),
-          subCategory: 'System Self-Scan',
-          type: 'analysis'
-        };
-        const updatedHistory = [newEntry, ...history].slice(0, 10);
-        setHistory(updatedHistory);
-        await saveToVault('neural_apk_analysis_history', updatedHistory);
+          subCategory: 'System Self-Scan'
+        });
+        setHistory(prev => [entry, ...prev].slice(0, 10));
       };
       saveSelfScan();
     }
@@ -99,8 +99,8 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
   }, [loading, analysisTimer]);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_apk_analysis_history');
-    if (data) setHistory(data);
+    const saved = await analysisRepository.page({ limit: 10 });
+    setHistory(saved.items);
   };
 
   const handleSelfScan = () => {
@@ -134,6 +134,7 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
   const handleAnalyze = async () => {
     if (!selectedFile || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setAnalysis(null);
     setMasterPrompt(null);
@@ -141,7 +142,6 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
     setProgress('Initializing Deep Synthesis Engine...');
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const base64 = await fileToBase64(selectedFile);
       
       const analysisPrompt = `Perform an EXTREMELY detailed reverse-engineering analysis of the provided APK file: "${selectedFile.name}".
@@ -161,44 +161,51 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
 
       setProgress('Deconstructing Neural Scaffolding...');
       
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      await delay(5000, signal);
       setProgress('Mapping Function Signatures & UI Components...');
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
+      const response = await generateText({
         contents: {
           parts: [
             { inlineData: { data: base64, mimeType: 'application/vnd.android.package-archive' } },
             { text: analysisPrompt }
           ]
-        }
+        },
+        signal,
+        task: 'app-analyst'
       });
 
       const result = response.text || "Analysis failed.";
       setAnalysis(result);
 
-      const newEntry = {
-        id: Date.now().toString(),
+      const entry = await analysisRepository.add('apk-analysis', {
         title: selectedFile.name,
         content: result,
-        timestamp: Date.now(),
         fileSize: selectedFile.size,
-        subCategory: 'APK Analysis',
-        type: 'analysis'
-      };
-      const updatedHistory = [newEntry, ...history].slice(0, 10);
-      setHistory(updatedHistory);
-      await saveToVault('neural_apk_analysis_history', updatedHistory);
+        subCategory: 'APK Analysis'
+      });
+      setHistory(prev => [entry, ...prev].slice(0, 10));
 
     } catch (e) {
+      if (isAbortError(e)) return;
       setAnalysis("Neural link interrupted. This binary might be encrypted or too large for standard buffer.");
     } finally {
-      setLoading(false);
-      setAnalysisTimer(100);
-      setProgress('');
+      if (!signal.aborted) {
+        setLoading(false);
+        setAnalysisTimer(100);
+        setProgress('');
+      }
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+    setAnalysisTimer(0);
+    setProgress('');
+  };
+
   const handleCopyPrompt = () => {
     if (analysis) {
       const splitAnalysis = analysis.split('MASTER RECONSTRUCTION PROMPT');
@@ -300,6 +307,7 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
                   <p className="text-[11px] font-black text-gray-400 uppercase tracking-[0.5em] animate-pulse">
                     {isSelfScanning ? 'Performing System Self-Scan...' : progress}
                   </p>
+                  {loading && <CancelButton onClick={handleCancel} className="mx-auto" />}
                 </div>
               </div>
             ) : (
@@ -366,9 +374,7 @@ const AppAnalystView: React.FC<AppAnalystViewProps> = ({ onPlaySound, onViewChan
 
               <div className="bg-black/40 border border-white/10 rounded-[4rem] p-16 shadow-4xl relative overflow-hidden backdrop-blur-[100px]">
                 <div className="prose prose-invert max-w-none relative z-10">
-                  <div className="text-gray-100 text-[18px] leading-[1.8] font-medium whitespace-pre-wrap selection:bg-emerald-500/20">
-                    {analysis}
-                  </div>
+                  <MarkdownRenderer content={analysis} className="text-gray-100 text-[18px] leading-[1.8] font-medium selection:bg-emerald-500/20" />
                 </div>
               </div>
             </div>
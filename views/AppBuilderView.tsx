@@ -1,9 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateText, isAbortError } from '../services/geminiService';
+import { appRepository } from '../services/artifactRepository';
+import { AppView, Artifact, AppArtifact } from '../types';
 import { BuilderState } from '../App';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface BuildConfiguration {
   platform: 'android' | 'ios';
@@ -26,7 +28,8 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
   const [compiling, setCompiling] = useState(false);
   const [compileLog, setCompileLog] = useState<string[]>([]);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [history, setHistory] = useState<any[]>([]);
+  const request = useCancellableRequest();
+  const [history, setHistory] = useState<Artifact<AppArtifact>[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showBuildSuccess, setShowBuildSuccess] = useState(false);
   const [activeTab, setActiveTab] = useState<'config' | 'preview' | 'logs'>('config');
@@ -55,8 +58,8 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
   }, [compileLog]);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_app_vault');
-    if (data) setHistory(data);
+    const saved = await appRepository.page({ type: 'app', limit: 20 });
+    setHistory(saved.items);
   };
 
   const updateBuilderState = (updates: Partial<BuilderState>) => {
@@ -66,16 +69,13 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
   const handleBuild = async () => {
     if (!builderState.prompt.trim() || builderState.loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setErrorMessage(null);
     updateBuilderState({ loading: true, code: null });
     setActiveTab('preview');
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const model = 'gemini-3-pro-preview';
-      
-      const response = await ai.models.generateContent({
-        model: model,
+      const response = await generateText({
         contents: `Create a professional NATIVE-FEEL mobile application for ${config.platform.toUpperCase()}.
         
         App Requirements:
@@ -91,11 +91,11 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
         5. Code: Must include hooks for Native Bridge (vibration, haptics, and back-button).
         
         This is for a direct APK/IPA Build. Return the complete source as a production-grade single-file artifact.`,
-        config: { 
-          systemInstruction: `You are a Senior Lead Mobile Developer (Android Studio & Xcode Expert). Generate code that is 100% compatible with production store publication. Ensure the UI looks exactly like a native app.`,
-          temperature: 0.1,
-          thinkingConfig: { thinkingBudget: 24000 }
-        }
+        systemInstruction: `You are a Senior Lead Mobile Developer (Android Studio & Xcode Expert). Generate code that is 100% compatible with production store publication. Ensure the UI looks exactly like a native app.`,
+        temperature: 0.1,
+        thinkingBudget: 24000,
+        signal,
+        task: 'app-builder'
       });
 
       let result = response.text || "";
@@ -106,25 +106,28 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
       }
 
       updateBuilderState({ code: result });
-      const newEntry = { 
-        id: Date.now().toString(), 
-        prompt: builderState.prompt, 
-        code: result, 
+      const entry = await appRepository.add('app', {
+        prompt: builderState.prompt,
+        code: result,
         config: { ...config },
-        timestamp: Date.now(), 
-        type: 'app',
         subCategory: config.platform === 'android' ? 'APK Build' : 'iOS IPA Build'
-      };
-      const newHistory = [newEntry, ...history].slice(0, 20);
-      setHistory(newHistory);
-      await saveToVault('neural_app_vault', newHistory);
+      });
+      setHistory(prev => [entry, ...prev].slice(0, 20));
     } catch (e: any) {
+      if (isAbortError(e)) return;
       setErrorMessage(e.message || "Compilation Engine Error. Please check your system logs.");
     } finally {
+      // Builder state lives in App, so this also runs after an unmount abort to clear the spinner.
       updateBuilderState({ loading: false });
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    updateBuilderState({ loading: false });
+  };
+
   const executeFullCompilation = async () => {
     if (!builderState.code) return;
     onPlaySound?.('settings');
@@ -297,7 +300,7 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
             </h3>
             <div className="flex-1 overflow-y-auto no-scrollbar space-y-4 pr-2">
               {history.map((entry) => (
-                <button key={entry.id} onClick={() => { updateBuilderState({ code: entry.code, prompt: entry.prompt }); if(entry.config) setConfig(entry.config); }} className="w-full text-left p-5 rounded-2xl bg-white/5 border border-white/5 hover:border-emerald-500/20 transition-all group backdrop-blur-lg">
+                <button key={entry.id} onClick={() => { updateBuilderState({ code: entry.code, prompt: entry.prompt }); if(entry.config) setConfig(prev => ({ ...prev, ...entry.config })); }} className="w-full text-left p-5 rounded-2xl bg-white/5 border border-white/5 hover:border-emerald-500/20 transition-all group backdrop-blur-lg">
                    <p className="text-[11px] text-gray-300 font-bold truncate group-hover:text-emerald-500 transition-colors">{entry.prompt}</p>
                    <div className="flex items-center justify-between mt-3">
                      <p className="text-[8px] text-gray-700 font-black uppercase tracking-widest">{new Date(entry.timestamp).toLocaleDateString()}</p>
@@ -344,6 +347,7 @@ const AppBuilderView: React.FC<AppBuilderViewProps> = ({ onViewChange, onPlaySou
                      <p className="text-3xl font-black text-white tracking-tighter uppercase">Compiling Asset Matrix</p>
                      <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.6em] animate-pulse">Mapping Native Dependencies...</p>
                    </div>
+                   <CancelButton onClick={handleCancel} />
                 </div>
               ) : builderState.code ? (
                 <div className="h-full w-full">
@@ -2,7 +2,11 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Message, ChatSession, AppView, User, MemoryEntry } from '../types';
 import { AppSettings } from '../App';
-import { chatWithGemini } from '../services/geminiService';
+import { streamChatWithGemini } from '../services/geminiService';
+import { getActivePath, getSiblings, addMessage, updateMessageContent, patchMessage, removeMessage, selectBranch, newMessageId } from '../services/conversationService';
+import { recallRelevantMemories } from '../services/memoryService';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
 
 interface ChatViewProps {
   activeSessionId: string | null;
@@ -17,72 +21,149 @@ interface ChatViewProps {
   systemTime: Date;
   onApiError?: (error: any) => void;
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
+  focusMessageId?: string | null; // Scrolled to and highlighted, e.g. from the search palette
 }
 
 const ChatView: React.FC<ChatViewProps> = ({ 
-  activeSessionId, setActiveSessionId, sessions, setSessions, user, settings, systemTime, memories, onApiError, onPlaySound
+  activeSessionId, setActiveSessionId, sessions, setSessions, user, settings, systemTime, memories, onSaveMemory, onApiError, onPlaySound, focusMessageId
 }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+  const focusedRef = useRef<string | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const request = useCancellableRequest();
   const activeSession = sessions.find(s => s.id === activeSessionId);
-  const messages = activeSession ? activeSession.messages : [];
+  const messages = activeSession ? getActivePath(activeSession) : [];
 
   useEffect(() => {
     if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-  }, [messages, isLoading]);
+  }, [messages.length, messages[messages.length - 1]?.content, isLoading]);
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
-    onPlaySound?.('click');
-    const content = input;
-    setInput('');
-    setIsLoading(true);
+  // Declared after the scroll-to-bottom effect so the jump to a focused message wins.
+  useEffect(() => {
+    if (!focusMessageId || focusedRef.current === focusMessageId) return;
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (!element) return;
+    focusedRef.current = focusMessageId;
+    element.scrollIntoView({ block: 'center' });
+    setHighlightId(focusMessageId);
+    const timer = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, messages.length]);
 
-    const sessionId = activeSessionId || Date.now().toString();
-    if (!activeSessionId) setActiveSessionId(sessionId);
+  const updateSession = (sessionId: string, update: (session: ChatSession) => ChatSession) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? update(s) : s));
+  };
 
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', content, timestamp: Date.now() };
-    const newMessages = [...messages, userMsg];
+  /**
+   * Streams a model reply as a new child of `prompt`. `history` is the branch leading up to the prompt.
+   */
+  const streamReply = async (sessionId: string, history: Message[], prompt: Message) => {
+    setIsLoading(true);
+    const modelMsg: Message = { id: newMessageId(), role: 'model', content: '', timestamp: Date.now(), parentId: prompt.id };
+    updateSession(sessionId, s => addMessage(s, modelMsg));
 
-    setSessions(prev => {
-      const idx = prev.findIndex(s => s.id === sessionId);
-      if (idx !== -1) {
-        const updated = [...prev];
-        updated[idx] = { ...updated[idx], messages: newMessages, updatedAt: Date.now() };
-        return updated;
-      }
-      return [{ id: sessionId, title: content.slice(0, 30), messages: newMessages, updatedAt: Date.now(), startTime: Date.now() }, ...prev];
-    });
+    // Stop and leaving the view both abort; the partial reply stays in the session.
+    const signal = request.begin();
+    setStreamingId(modelMsg.id);
+    let received = '';
+    const remembered: string[] = [];
+    const context = [...history.slice(-2).map(m => m.content), prompt.content].join(' ');
 
     try {
-      const response = await chatWithGemini(content, newMessages.slice(0, -1).map(m => ({ 
+      const relevantMemories = await recallRelevantMemories(memories, context, signal);
+      const result = await streamChatWithGemini(prompt.content, history.map(m => ({ 
         role: m.role, 
         parts: [{ text: m.content }] 
-      })));
-
-      const modelMsg: Message = { id: Date.now().toString(), role: 'model', content: response.text || '...', timestamp: Date.now() };
-      setSessions(prev => {
-        const idx = prev.findIndex(s => s.id === sessionId);
-        const updated = [...prev];
-        updated[idx] = { ...updated[idx], messages: [...newMessages, modelMsg], updatedAt: Date.now() };
-        return updated;
+      })), (text) => {
+        received = text;
+        updateSession(sessionId, s => updateMessageContent(s, modelMsg.id, text));
+      }, {
+        signal,
+        memories: relevantMemories.map(m => m.content),
+        onSaveMemory: (info) => {
+          onSaveMemory(info);
+          remembered.push(info);
+          updateSession(sessionId, s => patchMessage(s, modelMsg.id, { savedMemories: [...remembered] }));
+        }
       });
+
+      if (!result.text && result.aborted) {
+        updateSession(sessionId, s => removeMessage(s, modelMsg.id));
+      } else if (!result.text) {
+        updateSession(sessionId, s => updateMessageContent(s, modelMsg.id, '...'));
+      }
     } catch (e: any) {
       if (onApiError) onApiError(e);
-      const errorMsg: Message = { id: Date.now().toString(), role: 'model', content: "Neural sync interrupted.", timestamp: Date.now() };
-      setSessions(prev => {
-        const idx = prev.findIndex(s => s.id === sessionId);
-        if (idx === -1) return prev;
-        const updated = [...prev];
-        updated[idx] = { ...updated[idx], messages: [...newMessages, errorMsg], updatedAt: Date.now() };
-        return updated;
-      });
+      updateSession(sessionId, s => updateMessageContent(s, modelMsg.id, received || "Neural sync interrupted."));
     } finally {
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    onPlaySound?.('outside');
+    request.cancel();
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading) return;
+    onPlaySound?.('click');
+    const content = input;
+    setInput('');
+
+    const sessionId = activeSessionId || Date.now().toString();
+    if (!activeSessionId) setActiveSessionId(sessionId);
+
+    const parent = messages[messages.length - 1];
+    const userMsg: Message = { id: newMessageId(), role: 'user', content, timestamp: Date.now(), parentId: parent?.id ?? null };
+
+    setSessions(prev => {
+      const existing = prev.find(s => s.id === sessionId);
+      if (existing) return prev.map(s => s.id === sessionId ? addMessage(s, userMsg) : s);
+      const created: ChatSession = { id: sessionId, title: content.slice(0, 30), messages: [], updatedAt: Date.now(), startTime: Date.now() };
+      return [addMessage(created, userMsg), ...prev];
+    });
+
+    await streamReply(sessionId, messages, userMsg);
+  };
+
+  const handleEditResend = async (original: Message) => {
+    const content = editDraft.trim();
+    setEditingId(null);
+    if (!activeSessionId || !content || isLoading) return;
+    if (content === original.content) return;
+    onPlaySound?.('click');
+
+    const idx = messages.findIndex(m => m.id === original.id);
+    const edited: Message = { id: newMessageId(), role: 'user', content, timestamp: Date.now(), parentId: original.parentId ?? null };
+    updateSession(activeSessionId, s => addMessage(s, edited));
+    await streamReply(activeSessionId, messages.slice(0, idx), edited);
+  };
+
+  const handleRegenerate = async (reply: Message) => {
+    if (!activeSessionId || isLoading) return;
+    const idx = messages.findIndex(m => m.id === reply.id);
+    const prompt = messages[idx - 1];
+    if (!prompt || prompt.role !== 'user') return;
+    onPlaySound?.('click');
+    await streamReply(activeSessionId, messages.slice(0, idx - 1), prompt);
+  };
+
+  const handleSwitchBranch = (message: Message, direction: -1 | 1) => {
+    if (!activeSession || isLoading) return;
+    const siblings = getSiblings(activeSession, message);
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + direction];
+    if (!target) return;
+    onPlaySound?.('scroll');
+    updateSession(activeSession.id, s => selectBranch(s, target.id));
+  };
+
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-transparent overflow-hidden">
       <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar pt-24 pb-10 px-4">
@@ -98,17 +179,69 @@ const ChatView: React.FC<ChatViewProps> = ({
             </div>
           )}
           
-          {messages.map((m) => (
-            <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}>
+          {messages.filter(m => m.id !== streamingId || m.content).map((m) => {
+            const siblings = activeSession ? getSiblings(activeSession, m) : [m];
+            const position = siblings.findIndex(s => s.id === m.id);
+            return (
+            <div key={m.id} id={`message-${m.id}`} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'} group animate-in slide-in-from-bottom-2 duration-300`}>
               <div className={`max-w-[85%] px-7 py-5 rounded-[2.5rem] border shadow-2xl glass-panel ${
                 m.role === 'user' ? 'opacity-100' : 'opacity-90'
-              } bg-white/5 backdrop-blur-[50px] border-white/10`}>
-                <div className="text-[17px] leading-relaxed whitespace-pre-wrap font-bold text-primary">{m.content}</div>
+              } bg-white/5 backdrop-blur-[50px] ${highlightId === m.id ? 'border-pink-500/60' : 'border-white/10'} transition-colors`}>
+                {editingId === m.id ? (
+                  <div className="space-y-3 min-w-[280px]">
+                    <textarea 
+                      autoFocus
+                      value={editDraft}
+                      onChange={e => setEditDraft(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleEditResend(m); } if (e.key === 'Escape') setEditingId(null); }}
+                      className="w-full bg-transparent border border-white/10 rounded-2xl p-4 text-[15px] font-bold text-primary focus:outline-none focus:border-pink-500/40 resize-none"
+                      rows={3}
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <button onClick={() => setEditingId(null)} className="px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-secondary hover:text-primary">Cancel</button>
+                      <button onClick={() => handleEditResend(m)} className="px-4 py-2 rounded-full bg-pink-600 text-white text-[9px] font-black uppercase tracking-widest">Send</button>
+                    </div>
+                  </div>
+                ) : m.role === 'model' ? (
+                  <MarkdownRenderer content={m.content} className="text-[17px] leading-relaxed font-bold text-primary" />
+                ) : (
+                  <div className="text-[17px] leading-relaxed whitespace-pre-wrap font-bold text-primary">{m.content}</div>
+                )}
+                {m.savedMemories && m.savedMemories.length > 0 && (
+                  <div 
+                    title={m.savedMemories.join('\n')}
+                    className="inline-flex items-center space-x-2 mt-4 px-3 py-1.5 rounded-full bg-pink-500/10 border border-pink-500/20 text-pink-500 text-[9px] font-black uppercase tracking-widest"
+                  >
+                    <i className="fas fa-brain"></i>
+                    <span>Remembered{m.savedMemories.length > 1 ? ` ×${m.savedMemories.length}` : ''}</span>
+                  </div>
+                )}
               </div>
+              {editingId !== m.id && m.id !== streamingId && (
+                <div className={`flex items-center space-x-3 mt-2 px-4 text-[9px] font-black uppercase tracking-widest text-secondary transition-opacity ${siblings.length > 1 ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                  {siblings.length > 1 && (
+                    <div className="flex items-center space-x-2">
+                      <button onClick={() => handleSwitchBranch(m, -1)} disabled={position === 0 || isLoading} className="hover:text-pink-500 disabled:opacity-20"><i className="fas fa-chevron-left"></i></button>
+                      <span>{position + 1}/{siblings.length}</span>
+                      <button onClick={() => handleSwitchBranch(m, 1)} disabled={position === siblings.length - 1 || isLoading} className="hover:text-pink-500 disabled:opacity-20"><i className="fas fa-chevron-right"></i></button>
+                    </div>
+                  )}
+                  {m.role === 'user' ? (
+                    <button onClick={() => { setEditingId(m.id); setEditDraft(m.content); }} disabled={isLoading} className="hover:text-pink-500 disabled:opacity-20" title="Edit and resend">
+                      <i className="fas fa-pen"></i>
+                    </button>
+                  ) : (
+                    <button onClick={() => handleRegenerate(m)} disabled={isLoading} className="hover:text-pink-500 disabled:opacity-20" title="Regenerate">
+                      <i className="fas fa-rotate-right"></i>
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
-          ))}
+            );
+          })}
           
-          {isLoading && (
+          {isLoading && !messages.find(m => m.id === streamingId)?.content && (
             <div className="flex justify-start">
               <div className="glass-panel px-5 py-3 rounded-full flex items-center space-x-2 border border-white/10 bg-white/5 backdrop-blur-3xl">
                  <div className="w-1.5 h-1.5 bg-pink-500 rounded-full animate-bounce"></div>
@@ -132,13 +265,23 @@ const ChatView: React.FC<ChatViewProps> = ({
               placeholder="MESSAGE LITTLE AI..." 
               className="flex-1 bg-transparent border-none text-primary px-7 py-5 focus:outline-none placeholder:text-black/40 font-black text-xs uppercase tracking-[0.4em]" 
             />
-            <button 
-              onClick={handleSend} 
-              disabled={isLoading || !input.trim()} 
-              className="w-14 h-14 bg-pink-600/20 hover:bg-pink-600 text-pink-600 hover:text-white rounded-full flex items-center justify-center border border-pink-500/30 shadow-2xl active:scale-90 disabled:opacity-10 transition-all ml-2"
-            >
-              <i className={`fas ${isLoading ? 'fa-spinner fa-spin' : 'fa-arrow-up'} text-sm`}></i>
-            </button>
+            {streamingId ? (
+              <button 
+                onClick={handleStop} 
+                title="Stop generating"
+                className="w-14 h-14 bg-pink-600 text-white rounded-full flex items-center justify-center border border-pink-500/30 shadow-2xl active:scale-90 transition-all ml-2"
+              >
+                <i className="fas fa-stop text-sm"></i>
+              </button>
+            ) : (
+              <button 
+                onClick={handleSend} 
+                disabled={isLoading || !input.trim()} 
+                className="w-14 h-14 bg-pink-600/20 hover:bg-pink-600 text-pink-600 hover:text-white rounded-full flex items-center justify-center border border-pink-500/30 shadow-2xl active:scale-90 disabled:opacity-10 transition-all ml-2"
+              >
+                <i className={`fas ${isLoading ? 'fa-spinner fa-spin' : 'fa-arrow-up'} text-sm`}></i>
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -1,21 +1,15 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateText, isAbortError } from '../services/geminiService';
+import { codeRepository } from '../services/artifactRepository';
+import { AppView, Artifact, CodeArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 const LANGUAGES = [
   'Auto-Detect', 'HTML/JS/CSS', 'TypeScript', 'Python', 'React (JSX)', 'Rust', 'Go', 'C++', 'Java', 'SQL', 'Bash'
 ];
 
-interface SavedCode {
-  id: string;
-  lang: string;
-  code: string;
-  prompt: string;
-  timestamp: number;
-}
-
 interface CodeViewProps {
   onViewChange: (view: AppView) => void;
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
@@ -27,13 +21,14 @@ const CodeView: React.FC<CodeViewProps> = ({ onViewChange, onPlaySound }) => {
   const [loading, setLoading] = useState(false);
   const [code, setCode] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [history, setHistory] = useState<SavedCode[]>([]);
+  const [history, setHistory] = useState<Artifact<CodeArtifact>[]>([]);
   const [showPreview, setShowPreview] = useState(false);
+  const request = useCancellableRequest();
   
   useEffect(() => {
     const loadData = async () => {
-      const saved = await getFromVault('neural_code_repo');
-      if (saved) setHistory(saved);
+      const saved = await codeRepository.page({ type: 'code', limit: 30 });
+      setHistory(saved.items);
     };
     loadData();
   }, []);
@@ -41,18 +36,19 @@ const CodeView: React.FC<CodeViewProps> = ({ onViewChange, onPlaySound }) => {
   const handleGenerate = async () => {
     if (!prompt.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setCode(null);
     setShowPreview(false);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const languageContext = selectedLang !== 'Auto-Detect' ? `Writing in ${selectedLang}.` : '';
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
+      const response = await generateText({
         contents: `Act as a senior software engineer. ${languageContext} Task: ${prompt}. Return ONLY the requested code without markdown block wrappers if possible, or use standard markdown. Ensure the code is complete and runnable.`,
-        config: { temperature: 0.3 }
+        temperature: 0.3,
+        signal,
+        task: 'code'
       });
 
       let result = response.text || "";
@@ -60,17 +56,23 @@ const CodeView: React.FC<CodeViewProps> = ({ onViewChange, onPlaySound }) => {
       result = result.replace(/^```[a-z]*\n/i, '').replace(/\n```$/i, '');
       
       setCode(result);
-      const newEntry: SavedCode = { id: Date.now().toString(), lang: selectedLang, code: result, prompt, timestamp: Date.now() };
-      setHistory([newEntry, ...history].slice(0, 30));
-      await saveToVault('neural_code_repo', [newEntry, ...history]);
+      const entry = await codeRepository.add('code', { lang: selectedLang, code: result, prompt });
+      setHistory(prev => [entry, ...prev].slice(0, 30));
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("Code synthesis failed.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   const handleCopy = () => {
     if (code) {
       onPlaySound?.('scroll');
@@ -194,6 +196,7 @@ const CodeView: React.FC<CodeViewProps> = ({ onViewChange, onPlaySound }) => {
                   <div className="h-full flex flex-col items-center justify-center space-y-6">
                     <div className="w-14 h-14 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                     <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.4em]">Neural Extraction Active...</p>
+                    <CancelButton onClick={handleCancel} />
                   </div>
                 ) : code ? (
                   showPreview ? (
@@ -1,6 +1,9 @@
 
 import React, { useState } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import { generateText, isAbortError } from '../services/geminiService';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import CancelButton from '../components/CancelButton';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
 
 const CompanyInsightsView: React.FC = () => {
   const [input, setInput] = useState('');
@@ -8,18 +11,19 @@ const CompanyInsightsView: React.FC = () => {
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [sources, setSources] = useState<{title: string, uri: string}[]>([]);
   const [loadingStep, setLoadingStep] = useState('');
+  const request = useCancellableRequest();
 
   const handleExecute = async () => {
     if (!input.trim() || loading) return;
     
+    const signal = request.begin();
     setLoading(true);
     setAnalysis(null);
     setSources([]);
     setLoadingStep('Initializing Neural Search...');
 
+    let interval: ReturnType<typeof setInterval> | undefined;
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
       const steps = [
         'Connecting to Global Data Streams...',
         'Cross-referencing market metadata...',
@@ -28,13 +32,12 @@ const CompanyInsightsView: React.FC = () => {
       ];
       
       let stepIdx = 0;
-      const interval = setInterval(() => {
+      interval = setInterval(() => {
         setLoadingStep(steps[stepIdx % steps.length]);
         stepIdx++;
       }, 2000);
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
+      const response = await generateText({
         contents: `Provide a detailed intelligence report for: ${input}. 
         Focus on: 
         1. Current market standing. 
@@ -42,29 +45,33 @@ const CompanyInsightsView: React.FC = () => {
         3. Strategic SWOT analysis. 
         4. Investment/Partnership outlook. 
         Format with professional headings.`,
-        config: {
-          tools: [{ googleSearch: {} }]
-        }
+        googleSearch: true,
+        signal,
+        task: 'company-insights'
       });
 
-      clearInterval(interval);
       setAnalysis(response.text || "Analysis complete but no text returned.");
       
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const extractedSources = chunks
-        .filter((c: any) => c.web)
-        .map((c: any) => ({ title: c.web.title || 'Source', uri: c.web.uri }));
-      
-      setSources(extractedSources);
+      setSources(response.sources.filter(s => !s.isMap).map(s => ({ title: s.title, uri: s.uri })));
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       setAnalysis("Research failed. Ensure your query is specific and try again.");
     } finally {
-      setLoading(false);
-      setLoadingStep('');
+      clearInterval(interval);
+      if (!signal.aborted) {
+        setLoading(false);
+        setLoadingStep('');
+      }
     }
   };
 
+  const handleCancel = () => {
+    request.cancel();
+    setLoading(false);
+    setLoadingStep('');
+  };
+
   return (
     <div className="h-full overflow-y-auto p-4 md:p-8 bg-[#0b0c10] custom-scrollbar">
       <div className="max-w-5xl mx-auto space-y-12 pb-20">
@@ -109,9 +116,10 @@ const CompanyInsightsView: React.FC = () => {
 
         {/* Results */}
         {loading ? (
-          <div className="py-24 flex flex-col items-center space-y-8 animate-pulse">
+          <div className="py-24 flex flex-col items-center space-y-8">
              <div className="w-20 h-20 rounded-full border-4 border-blue-500/10 border-t-blue-500 animate-spin"></div>
-             <p className="text-[10px] font-black text-gray-500 uppercase tracking-[0.4em]">{loadingStep}</p>
+             <p className="text-[10px] font-black text-gray-500 uppercase tracking-[0.4em] animate-pulse">{loadingStep}</p>
+             <CancelButton onClick={handleCancel} />
           </div>
         ) : analysis ? (
           <div className="space-y-12 animate-in fade-in slide-in-from-bottom-6 duration-700">
@@ -123,9 +131,7 @@ const CompanyInsightsView: React.FC = () => {
                    <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
                    <span>Neural Intelligence Report</span>
                 </h3>
-                <div className="prose prose-invert max-w-none text-gray-200 leading-loose whitespace-pre-wrap text-lg font-medium">
-                  {analysis}
-                </div>
+                <MarkdownRenderer content={analysis} className="max-w-none text-gray-200 leading-loose text-lg font-medium" />
              </div>
 
              {sources.length > 0 && (
@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateImage, isAbortError } from '../services/geminiService';
+import { imageRepository } from '../services/artifactRepository';
+import { dataUrlToBlob, createThumbnail, randomSeed } from '../services/mediaService';
+import { AppView, Artifact, ImageArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import CancelButton from '../components/CancelButton';
 
 const ART_STYLES = [
   { id: 'sketch', label: 'Pencil Sketch', icon: 'fa-pencil-alt', promptSuffix: 'highly detailed pencil sketch, graphite textures, artistic shading' },
@@ -21,64 +25,69 @@ const DrawingView: React.FC<DrawingViewProps> = ({ onViewChange, onPlaySound })
   const [prompt, setPrompt] = useState('');
   const [activeStyle, setActiveStyle] = useState(ART_STYLES[0]);
   const [loading, setLoading] = useState(false);
-  const [drawingUrl, setDrawingUrl] = useState<string | null>(null);
-  const [history, setHistory] = useState<any[]>([]);
+  const [drawing, setDrawing] = useState<Blob | null>(null);
+  const [history, setHistory] = useState<Artifact<ImageArtifact>[]>([]);
+  const request = useCancellableRequest();
+  const drawingUrl = useObjectUrl(drawing);
 
   useEffect(() => {
     loadHistory();
   }, []);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_drawing_gallery');
-    if (data) setHistory(data);
+    const saved = await imageRepository.page({ type: 'drawing', limit: 20 });
+    setHistory(saved.items);
   };
 
   const handleGenerate = async () => {
     if (!prompt.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
-    setDrawingUrl(null);
+    setDrawing(null);
 
     const fullPrompt = `${prompt}, ${activeStyle.promptSuffix}`;
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [{ text: fullPrompt }] },
-        config: {
-          imageConfig: { aspectRatio: '1:1' }
-        }
+      const seed = randomSeed();
+      const result = await generateImage({
+        task: 'drawing',
+        prompt: fullPrompt,
+        aspectRatio: '1:1',
+        seed,
+        signal
       });
 
-      let extractedUrl = '';
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          extractedUrl = `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-
-      if (extractedUrl) {
-        setDrawingUrl(extractedUrl);
-        const newEntry = {
-          id: Date.now().toString(),
+      if (result.url) {
+        const blob = dataUrlToBlob(result.url);
+        setDrawing(blob);
+        const entry = await imageRepository.add('drawing', {
+          blob,
+          thumbnail: await createThumbnail(blob),
+          mimeType: blob.type,
           prompt,
-          content: extractedUrl,
           style: activeStyle.label,
-          timestamp: Date.now()
-        };
-        const newHistory = [newEntry, ...history].slice(0, 20);
-        setHistory(newHistory);
-        await saveToVault('neural_drawing_gallery', newHistory);
+          model: result.model,
+          aspectRatio: '1:1',
+          seed
+        });
+        setHistory(prev => [entry, ...prev].slice(0, 20));
       }
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("Drawing generation failed. Try another prompt.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full w-full bg-[#050505] overflow-auto custom-scrollbar p-6 md:p-12 font-sans relative">
       
@@ -99,7 +108,7 @@ const DrawingView: React.FC<DrawingViewProps> = ({ onViewChange, onPlaySound })
             <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.3em]">Neural Art Studio</span>
           </div>
           <h1 className="text-5xl font-black text-white tracking-tighter">AI Drawing</h1>
-          <p className="text-gray-500 max-w-xl mx-auto text-sm">Turn your thoughts into artistic sketches and paintings. Saved to 1TB Vault.</p>
+          <p className="text-gray-500 max-w-xl mx-auto text-sm">Turn your thoughts into artistic sketches and paintings. Saved to your vault.</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 items-start">
@@ -156,6 +165,7 @@ const DrawingView: React.FC<DrawingViewProps> = ({ onViewChange, onPlaySound })
                 <div className="flex flex-col items-center space-y-6 relative z-10">
                   <div className="w-16 h-16 border-4 border-pink-500/10 border-t-pink-500 rounded-full animate-spin"></div>
                   <p className="text-[10px] font-black text-gray-500 uppercase tracking-[0.4em]">Applying Neural Strokes...</p>
+                  <CancelButton onClick={handleCancel} />
                 </div>
               ) : drawingUrl ? (
                 <img src={drawingUrl} className="w-full h-full object-contain p-4 animate-in fade-in zoom-in duration-1000 relative z-10" alt="drawing" />
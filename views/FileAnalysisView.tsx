@@ -1,8 +1,11 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateText, isAbortError } from '../services/geminiService';
+import { documentRepository } from '../services/artifactRepository';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { AppView, Artifact, DocumentArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface FileAnalysisViewProps {
   onViewChange: (view: AppView) => void;
@@ -14,7 +17,8 @@ const FileAnalysisView: React.FC<FileAnalysisViewProps> = ({ onViewChange, onPla
   const [loading, setLoading] = useState(false);
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('Analyze this document and provide a comprehensive summary with key points.');
-  const [history, setHistory] = useState<any[]>([]);
+  const [history, setHistory] = useState<Artifact<DocumentArtifact>[]>([]);
+  const request = useCancellableRequest();
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -23,8 +27,8 @@ const FileAnalysisView: React.FC<FileAnalysisViewProps> = ({ onViewChange, onPla
   }, []);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_analysis_history');
-    if (data) setHistory(data);
+    const saved = await documentRepository.page({ type: 'document', limit: 20 });
+    setHistory(saved.items);
   };
 
   const fileToBase64 = (file: File): Promise<string> => {
@@ -47,44 +51,45 @@ const FileAnalysisView: React.FC<FileAnalysisViewProps> = ({ onViewChange, onPla
   const handleAnalyze = async () => {
     if (!selectedFile || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setAnalysis(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const base64 = await fileToBase64(selectedFile);
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+      const response = await generateText({
         contents: {
           parts: [
             { inlineData: { data: base64, mimeType: selectedFile.type } },
             { text: prompt }
           ]
-        }
+        },
+        signal,
+        task: 'file-analysis'
       });
 
       const result = response.text || "Analysis failed to return text content.";
       setAnalysis(result);
 
-      const newEntry = {
-        id: Date.now().toString(),
-        title: selectedFile.name,
-        content: result,
-        timestamp: Date.now()
-      };
-      const newHistory = [newEntry, ...history].slice(0, 20);
-      setHistory(newHistory);
-      await saveToVault('neural_analysis_history', newHistory);
+      const entry = await documentRepository.add('document', { title: selectedFile.name, content: result });
+      setHistory(prev => [entry, ...prev].slice(0, 20));
 
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("Analysis failed. Please try a different file format (PDF, PNG, JPG supported).");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full w-full bg-[#050505] overflow-auto custom-scrollbar p-6 md:p-12 font-sans relative">
       
@@ -105,7 +110,7 @@ const FileAnalysisView: React.FC<FileAnalysisViewProps> = ({ onViewChange, onPla
             <span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.3em]">Document Intelligence Hub</span>
           </div>
           <h1 className="text-5xl font-black text-white tracking-tighter">AI File Analysis</h1>
-          <p className="text-gray-500 max-w-xl mx-auto text-sm">Upload reports to extract deep insights. Persistent in 1TB Vault.</p>
+          <p className="text-gray-500 max-w-xl mx-auto text-sm">Upload reports to extract deep insights. Kept in your vault.</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-12 items-start">
@@ -151,11 +156,10 @@ const FileAnalysisView: React.FC<FileAnalysisViewProps> = ({ onViewChange, onPla
               {loading ? (
                 <div className="flex-1 flex flex-col items-center justify-center space-y-6">
                   <div className="w-16 h-16 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                  <CancelButton onClick={handleCancel} />
                 </div>
               ) : analysis ? (
-                <div className="prose prose-invert max-w-none text-gray-300 leading-relaxed font-medium whitespace-pre-wrap text-[15px]">
-                  {analysis}
-                </div>
+                <MarkdownRenderer content={analysis} className="max-w-none text-gray-300 leading-relaxed font-medium text-[15px]" />
               ) : (
                 <div className="flex-1 flex flex-col items-center justify-center text-center opacity-10">
                    <i className="fas fa-file-medical-alt text-[8rem]"></i>
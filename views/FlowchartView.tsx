@@ -1,7 +1,10 @@
 
 import React, { useState } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { generateJson, isAbortError } from '../services/geminiService';
 import { AppView } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface FlowNode {
   id: string;
@@ -29,65 +32,70 @@ const FlowchartView: React.FC<FlowchartViewProps> = ({ onViewChange, onPlaySound
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [flowData, setFlowData] = useState<FlowData | null>(null);
+  const request = useCancellableRequest();
 
   const handleGenerate = async () => {
     if (!input.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setFlowData(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+      const data = await generateJson<FlowData>({
         contents: `Generate a logical flowchart for this process: "${input}". 
         Provide a list of nodes and edges connecting them. 
         Node types: 'start', 'process', 'decision', 'end'.`,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              nodes: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    label: { type: Type.STRING },
-                    type: { type: Type.STRING, enum: ['start', 'process', 'decision', 'end'] }
-                  },
-                  required: ['id', 'label', 'type']
-                }
-              },
-              edges: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    from: { type: Type.STRING },
-                    to: { type: Type.STRING },
-                    label: { type: Type.STRING }
-                  },
-                  required: ['from', 'to']
-                }
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            nodes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  label: { type: Type.STRING },
+                  type: { type: Type.STRING, enum: ['start', 'process', 'decision', 'end'] }
+                },
+                required: ['id', 'label', 'type']
               }
             },
-            required: ['nodes', 'edges']
-          }
-        }
+            edges: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  from: { type: Type.STRING },
+                  to: { type: Type.STRING },
+                  label: { type: Type.STRING }
+                },
+                required: ['from', 'to']
+              }
+            }
+          },
+          required: ['nodes', 'edges']
+        },
+        signal,
+        task: 'flowchart'
       });
 
-      const data = JSON.parse(response.text);
       setFlowData(data);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("Failed to build flowchart. Try a simpler description.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full w-full bg-[#050505] overflow-auto custom-scrollbar p-6 md:p-12 relative">
       
@@ -144,6 +152,7 @@ const FlowchartView: React.FC<FlowchartViewProps> = ({ onViewChange, onPlaySound
              <div className="flex flex-col items-center justify-center space-y-6 self-center h-full relative z-10">
                <div className="w-12 h-12 border-2 border-yellow-500 border-t-transparent rounded-full animate-spin"></div>
                <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.4em]">Logic Engine Processing...</p>
+               <CancelButton onClick={handleCancel} />
              </div>
            ) : flowData ? (
              <div className="w-full relative z-10 animate-in fade-in slide-in-from-top-10 duration-700 flex flex-col items-center space-y-12">
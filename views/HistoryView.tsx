@@ -1,6 +1,9 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { ChatSession, AppView } from '../types';
+import { getActivePath } from '../services/conversationService';
+import { searchIndex, SearchResult } from '../services/searchIndex';
+import { useSemanticSearch } from '../hooks/useSemanticSearch';
 
 interface HistoryViewProps {
   sessions: ChatSession[];
@@ -13,10 +16,21 @@ interface HistoryViewProps {
 const HistoryView: React.FC<HistoryViewProps> = ({ sessions, onSelect, onDelete, onViewChange, onPlaySound }) => {
   const [searchQuery, setSearchQuery] = useState('');
 
-  const filteredSessions = sessions.filter(s => 
-    s.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-    s.messages.some(m => m.content.toLowerCase().includes(searchQuery.toLowerCase()))
-  );
+  const similar = useSemanticSearch(searchQuery, 'chat');
+
+  // Keyword matches first, best first, then sessions that only match in meaning.
+  const filteredSessions = useMemo(() => {
+    if (!searchQuery.trim()) return sessions;
+    const byId = new Map(sessions.map(s => [s.id, s]));
+    const ranked = new Set<ChatSession>();
+    const add = (result: SearchResult) => {
+      const session = result.target.kind === 'chat' && byId.get(result.target.sessionId);
+      if (session) ranked.add(session);
+    };
+    searchIndex.search(searchQuery, { kind: 'chat', limit: 500 }).forEach(add);
+    similar.forEach(add);
+    return [...ranked];
+  }, [sessions, searchQuery, similar]);
 
   return (
     <div className="h-full overflow-y-auto p-6 md:p-12 custom-scrollbar bg-transparent relative">
@@ -83,7 +97,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ sessions, onSelect, onDelete,
 
                 <div className="flex items-start justify-between mb-8 relative z-10">
                   <div className="w-12 h-12 rounded-2xl bg-pink-500/10 flex items-center justify-center text-pink-500 border border-pink-500/10 shadow-inner group-hover:scale-110 transition-transform">
-                    <i className="far fa-comments text-sm"></i>
+                    <i className={session.voice ? 'fas fa-microphone-lines text-sm' : 'far fa-comments text-sm'}></i>
                   </div>
                   <button 
                     onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
@@ -99,7 +113,7 @@ const HistoryView: React.FC<HistoryViewProps> = ({ sessions, onSelect, onDelete,
                 </h3>
                 
                 <p className="text-[12px] text-gray-500 line-clamp-2 mb-8 flex-1 font-medium leading-relaxed relative z-10">
-                  {session.messages[session.messages.length - 1]?.content || 'Empty transmission...'}
+                  {getActivePath(session).slice(-1)[0]?.content || 'Empty transmission...'}
                 </p>
 
                 <div className="flex items-center justify-between mt-auto pt-6 border-t border-white/5 relative z-10">
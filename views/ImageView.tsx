@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateImage, isAbortError } from '../services/geminiService';
+import { imageRepository } from '../services/artifactRepository';
+import { dataUrlToBlob, createThumbnail, randomSeed } from '../services/mediaService';
+import { AppView, Artifact, ImageArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import CancelButton from '../components/CancelButton';
+import VaultMedia from '../components/VaultMedia';
 
 interface ImageViewProps {
   onViewChange: (view: AppView) => void;
@@ -12,17 +17,19 @@ interface ImageViewProps {
 const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [image, setImage] = useState<Blob | string | null>(null);
   const [aspectRatio, setAspectRatio] = useState('1:1');
   const [isHighQuality, setIsHighQuality] = useState(false);
-  const [history, setHistory] = useState<string[]>([]);
+  const [history, setHistory] = useState<Artifact<ImageArtifact>[]>([]);
   const [hasKey, setHasKey] = useState(false);
+  const request = useCancellableRequest();
+  const imageUrl = useObjectUrl(image);
 
   useEffect(() => {
     const loadData = async () => {
       checkKey();
-      const savedHistory = await getFromVault('neural_image_gallery');
-      if (savedHistory) setHistory(savedHistory);
+      const saved = await imageRepository.page({ type: 'image', limit: 20 });
+      setHistory(saved.items);
     };
     loadData();
   }, []);
@@ -52,38 +59,37 @@ const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
     }
 
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
-    setImageUrl(null);
+    setImage(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const modelName = isHighQuality ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-      
-      const response = await ai.models.generateContent({
-        model: modelName,
-        contents: { parts: [{ text: prompt }] },
-        config: {
-          imageConfig: { 
-            aspectRatio: aspectRatio as any,
-            imageSize: isHighQuality ? "1K" : undefined
-          }
-        }
+      const seed = randomSeed();
+      const result = await generateImage({
+        task: isHighQuality ? 'image-pro' : 'image',
+        prompt,
+        aspectRatio,
+        imageSize: isHighQuality ? "1K" : undefined,
+        seed,
+        signal
       });
 
-      let extractedUrl = '';
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          extractedUrl = `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-
-      if (extractedUrl) {
-        setImageUrl(extractedUrl);
-        const newHistory = [extractedUrl, ...history].slice(0, 20);
-        setHistory(newHistory);
-        await saveToVault('neural_image_gallery', newHistory);
+      if (result.url) {
+        const blob = dataUrlToBlob(result.url);
+        setImage(blob);
+        const entry = await imageRepository.add('image', {
+          blob,
+          thumbnail: await createThumbnail(blob),
+          mimeType: blob.type,
+          prompt,
+          model: result.model,
+          aspectRatio,
+          seed
+        });
+        setHistory(prev => [entry, ...prev].slice(0, 20));
       }
     } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
       if (e.message?.includes('Requested entity was not found')) {
         setHasKey(false);
@@ -92,10 +98,16 @@ const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
         alert("Image generation failed. Try a different prompt or check your API key.");
       }
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full w-full bg-[#050505] overflow-y-auto custom-scrollbar p-6 md:p-12 font-sans relative">
       
@@ -115,7 +127,7 @@ const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
             <span className="text-[10px] font-black text-blue-500 uppercase tracking-[0.3em]">Neural Canvas Engine</span>
           </div>
           <h1 className="text-5xl font-black text-white tracking-tighter">AI Image Lab</h1>
-          <p className="text-gray-500 max-w-xl mx-auto text-sm">Create breathtaking visuals with high-fidelity neural synthesis. Saved to 1TB Vault.</p>
+          <p className="text-gray-500 max-w-xl mx-auto text-sm">Create breathtaking visuals with high-fidelity neural synthesis. Saved to your vault.</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
@@ -175,13 +187,13 @@ const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
               <div className="space-y-4">
                 <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest px-1">Neural Gallery (Vault)</h3>
                 <div className="flex space-x-4 overflow-x-auto pb-4 custom-scrollbar">
-                  {history.map((url, i) => (
+                  {history.map((entry) => (
                     <div 
-                      key={i} 
-                      onClick={() => setImageUrl(url)}
+                      key={entry.id} 
+                      onClick={() => setImage(entry.blob || entry.content || null)}
                       className="w-20 h-20 rounded-xl border border-white/10 overflow-hidden shrink-0 cursor-pointer hover:border-blue-500 transition-all shadow-lg"
                     >
-                      <img src={url} className="w-full h-full object-cover" alt="history" />
+                      <VaultMedia source={entry.thumbnail || entry.blob || entry.content} className="w-full h-full object-cover" alt="history" />
                     </div>
                   ))}
                 </div>
@@ -195,6 +207,7 @@ const ImageView: React.FC<ImageViewProps> = ({ onViewChange, onPlaySound }) => {
                 <div className="flex flex-col items-center space-y-6">
                   <div className={`w-16 h-16 border-4 rounded-full animate-spin ${isHighQuality ? 'border-purple-500/10 border-t-purple-500' : 'border-blue-500/10 border-t-blue-500'}`}></div>
                   <p className="text-[10px] font-black text-gray-500 uppercase tracking-[0.4em]">Rendering Neural Buffer...</p>
+                  <CancelButton onClick={handleCancel} />
                 </div>
               ) : imageUrl ? (
                 <img src={imageUrl} className="w-full h-full object-contain p-4 animate-in fade-in zoom-in duration-700" alt="generated" />
@@ -1,35 +1,91 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage, FunctionDeclaration, Type } from '@google/genai';
-import { decodeBase64, encodeBase64, decodeAudioData } from '../services/geminiService';
-import { MemoryEntry } from '../types';
+import { Modality, LiveServerMessage } from '@google/genai';
+import { saveMemoryTool } from '../services/geminiService';
+import { encodeBase64 } from '../services/encoding';
+import { getProvider } from '../services/providerService';
+import { startAudioCapture, AudioCapture, CaptureSource, VoiceActivityDetector, CAPTURE_MIME_TYPE } from '../services/audioCapture';
+import { createPlaybackQueue, PlaybackQueue } from '../services/audioPlayback';
+import { connectResilientLive, LiveConnectionStatus } from '../services/liveConnection';
+import { startVideoCapture, VideoCapture, VideoSourceKind, VIDEO_FRAME_MIME_TYPE } from '../services/videoCapture';
+import AudioLevelMeter from '../components/AudioLevelMeter';
+import { appendTranscript, sessionFromTranscript } from '../services/conversationService';
+import { MemoryEntry, ChatSession, TranscriptTurn } from '../types';
 
 interface LiveViewProps {
   memories: MemoryEntry[];
   onSaveMemory: (content: string) => void;
+  onSaveTranscript: (session: ChatSession) => void; // Called once per call that had any speech
+  onOpenSession: (id: string) => void;
+  videoFrameRate: number;
   sweetheartMode?: boolean;
 }
 
-const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, sweetheartMode }) => {
+const VISIBLE_TURNS = 4;
+
+const VIDEO_SOURCES: { kind: VideoSourceKind; label: string; icon: string }[] = [
+  { kind: 'camera', label: 'Camera', icon: 'fa-video' },
+  { kind: 'screen', label: 'Screen', icon: 'fa-display' }
+];
+
+const VideoPreview: React.FC<{ stream: MediaStream; mirrored: boolean }> = ({ stream, mirrored }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+  return <video ref={videoRef} autoPlay muted playsInline className={`w-full h-full object-cover ${mirrored ? '-scale-x-100' : ''}`} />;
+};
+
+const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, onSaveTranscript, onOpenSession, videoFrameRate, sweetheartMode }) => {
   const [isActive, setIsActive] = useState(false);
   const [isMuted, setIsMuted] = useState(false);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [isValidating, setIsValidating] = useState(false);
+  const [connection, setConnection] = useState<LiveConnectionStatus>('live');
   
-  const [userInput, setUserInput] = useState('');
-  const [aiOutput, setAiOutput] = useState('');
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+  const [savedSessionId, setSavedSessionId] = useState<string | null>(null);
+  const [videoStreams, setVideoStreams] = useState<Partial<Record<VideoSourceKind, MediaStream>>>({});
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const videoCapturesRef = useRef(new Map<VideoSourceKind, VideoCapture>());
+  const playbackRef = useRef<PlaybackQueue | null>(null);
+  const micLevelRef = useRef(0);
+  const voiceActivityRef = useRef(new VoiceActivityDetector());
+  // Set when the user talks over the reply; its remaining audio is dropped until the server ends or interrupts the turn.
+  const bargedInRef = useRef(false);
   const sessionRef = useRef<any>(null);
-  const nextStartTimeRef = useRef(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const micStreamRef = useRef<MediaStream | null>(null);
+  // The transcript lives in a ref too, so stopSession (also run from socket callbacks) sees the latest one.
+  const transcriptRef = useRef<TranscriptTurn[]>([]);
+  const turnEndedRef = useRef(false);
+  const callStartRef = useRef(0);
+  // Bumped by every start and stop, so a call still connecting when the user hangs up or leaves can tell it was cancelled.
+  const callRef = useRef(0);
+  const onSaveTranscriptRef = useRef(onSaveTranscript);
+  onSaveTranscriptRef.current = onSaveTranscript;
+
+  const addToTranscript = (role: TranscriptTurn['role'], fragment: string) => {
+    transcriptRef.current = appendTranscript(transcriptRef.current, role, fragment, turnEndedRef.current);
+    turnEndedRef.current = false;
+    setTranscript(transcriptRef.current);
+  };
 
   const stopSession = useCallback(async () => {
+    callRef.current++;
     setIsActive(false);
     setIsValidating(false);
 
+    const turns = transcriptRef.current;
+    transcriptRef.current = [];
+    if (turns.some(turn => turn.text.trim())) {
+      const session = sessionFromTranscript(turns, callStartRef.current);
+      onSaveTranscriptRef.current(session);
+      setSavedSessionId(session.id);
+    }
+
     if (sessionRef.current) {
       try {
         sessionRef.current.close();
@@ -39,184 +95,196 @@ const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, sweetheartM
       sessionRef.current = null;
     }
     
-    for (const source of sourcesRef.current) {
-      try {
-        source.stop();
-      } catch (e) {}
-    }
-    sourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
+    const playback = playbackRef.current;
+    playbackRef.current = null;
+    playback?.flush();
+    micLevelRef.current = 0;
 
-    if (micStreamRef.current) {
-      micStreamRef.current.getTracks().forEach(track => track.stop());
-      micStreamRef.current = null;
-    }
+    videoCapturesRef.current.forEach(video => video.stop());
+    videoCapturesRef.current.clear();
+    setVideoStreams({});
 
-    if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
-      try { await audioContextRef.current.close(); } catch (e) {}
-    }
-    if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
-      try { await outputAudioContextRef.current.close(); } catch (e) {}
-    }
-    
-    audioContextRef.current = null;
-    outputAudioContextRef.current = null;
+    const capture = captureRef.current;
+    captureRef.current = null;
+    await capture?.stop();
+    await playback?.close();
   }, []);
 
-  // Memory Tool Definition
-  const saveInfoTool: FunctionDeclaration = {
-    name: 'save_important_info',
-    parameters: {
-      type: Type.OBJECT,
-      description: 'Saves important facts, user preferences, names, or tasks to remember for future conversations.',
-      properties: {
-        info: {
-          type: Type.STRING,
-          description: 'The specific detail to remember about the user.',
-        },
-      },
-      required: ['info'],
-    },
+  // Mute and push-to-talk are applied here rather than read inside audio callbacks, where they would go stale.
+  const gateOpen = isActive && !isMuted && (!pushToTalk || isTalking);
+  useEffect(() => {
+    captureRef.current?.setOpen(gateOpen);
+  }, [gateOpen]);
+
+  useEffect(() => {
+    if (!pushToTalk || !isActive) return;
+    const isTyping = (target: EventTarget | null) => target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const press = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      setIsTalking(true);
+    };
+    const release = (e: KeyboardEvent) => { if (e.code === 'Space') setIsTalking(false); };
+    const cancel = () => setIsTalking(false);
+    window.addEventListener('keydown', press);
+    window.addEventListener('keyup', release);
+    window.addEventListener('blur', cancel);
+    return () => {
+      window.removeEventListener('keydown', press);
+      window.removeEventListener('keyup', release);
+      window.removeEventListener('blur', cancel);
+      setIsTalking(false);
+    };
+  }, [pushToTalk, isActive]);
+
+  useEffect(() => {
+    videoCapturesRef.current.forEach(video => video.setFrameRate(videoFrameRate));
+  }, [videoFrameRate]);
+
+  const stopVideo = (kind: VideoSourceKind) => {
+    videoCapturesRef.current.get(kind)?.stop();
+    videoCapturesRef.current.delete(kind);
+    setVideoStreams(prev => {
+      const next = { ...prev };
+      delete next[kind];
+      return next;
+    });
+  };
+
+  const toggleVideo = async (kind: VideoSourceKind) => {
+    if (videoCapturesRef.current.has(kind)) return stopVideo(kind);
+    setAuthError(null);
+    try {
+      const video = await startVideoCapture(kind, videoFrameRate, {
+        onFrame: (data) => sessionRef.current?.sendRealtimeInput({ media: { data, mimeType: VIDEO_FRAME_MIME_TYPE } }),
+        onEnded: () => stopVideo(kind)
+      });
+      // The call may have ended while the permission prompt or screen picker was open.
+      if (!sessionRef.current || videoCapturesRef.current.has(kind)) {
+        video.stop();
+        return;
+      }
+      videoCapturesRef.current.set(kind, video);
+      setVideoStreams(prev => ({ ...prev, [kind]: video.stream }));
+    } catch (err: any) {
+      if (err?.name === 'NotAllowedError') return; // Declined or picker cancelled
+      console.error("Video capture failed", err);
+      setAuthError(err?.message || "Video could not be started.");
+    }
   };
 
-  const startSession = async () => {
+  const startSession = async (source: CaptureSource = { kind: 'microphone' }) => {
     setAuthError(null);
     setIsValidating(true);
-    setUserInput('');
-    setAiOutput('');
+    setConnection('live');
+    setTranscript([]);
+    setSavedSessionId(null);
+    transcriptRef.current = [];
+    turnEndedRef.current = false;
+    callStartRef.current = Date.now();
+    const call = ++callRef.current;
+    const cancelled = () => callRef.current !== call;
 
-    if (!process.env.API_KEY) {
-      setAuthError("No API key detected.");
+    const auth = getProvider().validate();
+    if (!auth.valid) {
+      setAuthError(auth.reason || "No API key detected.");
       setIsValidating(false);
       return;
     }
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      micStreamRef.current = stream;
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ 
-        sampleRate: 16000,
-        latencyHint: 'interactive'
-      });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ 
-        sampleRate: 24000,
-        latencyHint: 'interactive'
+      // Frames only flow once the call is open and the gate effect lets them through.
+      const capture = await startAudioCapture(source, {
+        onFrame: (pcm) => {
+          const media = { data: encodeBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)), mimeType: CAPTURE_MIME_TYPE };
+          sessionPromise.then(session => session.sendRealtimeInput({ media }));
+        },
+        onPause: () => {
+          micLevelRef.current = 0;
+          voiceActivityRef.current.reset();
+          sessionPromise.then(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+        },
+        onLevel: (level) => {
+          micLevelRef.current = level;
+          // Barge-in: cut the reply as soon as the user starts talking, without waiting for the server to notice.
+          if (voiceActivityRef.current.update(level) && playbackRef.current?.flush()) bargedInRef.current = true;
+        }
       });
-      
-      await inputCtx.resume();
-      await outputCtx.resume();
-      
-      audioContextRef.current = inputCtx;
-      outputAudioContextRef.current = outputCtx;
+      // Whatever is created after the call was stopped is torn down here, since stopSession has already run.
+      if (cancelled()) return capture.stop();
+      captureRef.current = capture;
+      const playback = await createPlaybackQueue();
+      if (cancelled()) return playback.close();
+      playbackRef.current = playback;
+      voiceActivityRef.current.reset();
+      bargedInRef.current = false;
 
       const memoryString = memories.length > 0 
         ? `\n\nActive Memories (Things you know about me): ${memories.map(m => m.content).join('; ')}`
         : '';
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
+      const sessionPromise = connectResilientLive({
+        transcript: () => transcriptRef.current,
+        onstatus: (status) => {
+          if (cancelled()) return;
+          setConnection(status);
+          if (status === 'live') {
             setIsActive(true);
             setIsValidating(false);
-            
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(2048, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (isMuted) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) {
-                int16[i] = inputData[i] * 32768;
-              }
-              
-              const pcmBlob = {
-                data: encodeBase64(new Uint8Array(int16.buffer)),
-                mimeType: 'audio/pcm;rate=16000',
-              };
-              
-              sessionPromise.then((session) => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Memory tool handling
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                if (fc.name === 'save_important_info') {
-                  const info = (fc.args as any).info;
-                  onSaveMemory(info);
-                  sessionPromise.then(session => session.sendToolResponse({
-                    functionResponses: {
-                      id: fc.id,
-                      name: fc.name,
-                      response: { result: "I have saved that in my neural vault. I will remember it." }
-                    }
-                  }));
-                }
+            return;
+          }
+          // Whatever was mid-reply is lost with the socket; the transcript carries over.
+          playbackRef.current?.flush();
+          bargedInRef.current = false;
+          turnEndedRef.current = true;
+        },
+        onmessage: async (message: LiveServerMessage) => {
+          if (cancelled()) return;
+          // Memory tool handling
+          if (message.toolCall) {
+            for (const fc of message.toolCall.functionCalls) {
+              if (fc.name === saveMemoryTool.name) {
+                const info = (fc.args as any).info;
+                onSaveMemory(info);
+                sessionPromise.then(session => session.sendToolResponse({
+                  functionResponses: {
+                    id: fc.id,
+                    name: fc.name,
+                    response: { result: "I have saved that in my neural vault. I will remember it." }
+                  }
+                }));
               }
             }
+          }
 
-            if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              if (text) setUserInput(text);
-            }
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              if (text) setAiOutput(text);
-            }
+          if (message.serverContent?.inputTranscription) {
+            const text = message.serverContent.inputTranscription.text;
+            if (text) addToTranscript('user', text);
+          }
+          if (message.serverContent?.outputTranscription) {
+            const text = message.serverContent.outputTranscription.text;
+            if (text) addToTranscript('model', text);
+          }
+          if (message.serverContent?.turnComplete || message.serverContent?.interrupted) turnEndedRef.current = true;
 
-            const audioPart = message.serverContent?.modelTurn?.parts?.find(p => p.inlineData);
-            const base64Audio = audioPart?.inlineData?.data;
-
-            if (base64Audio && outputAudioContextRef.current) {
-              const ctx = outputAudioContextRef.current;
-              if (ctx.state === 'suspended') await ctx.resume();
-              
-              const decoded = decodeBase64(base64Audio);
-              const buffer = await decodeAudioData(decoded, ctx, 24000, 1);
-              
-              const source = ctx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(ctx.destination);
-              
-              const now = ctx.currentTime;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, now);
-              
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              
-              sourcesRef.current.add(source);
-              source.onended = () => sourcesRef.current.delete(source);
-            }
+          const audioPart = message.serverContent?.modelTurn?.parts?.find(p => p.inlineData);
+          const base64Audio = audioPart?.inlineData?.data;
 
-            if (message.serverContent?.interrupted) {
-              for (const source of sourcesRef.current) {
-                try { source.stop(); } catch(e) {}
-              }
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onclose: () => stopSession(),
-          onerror: (e: any) => {
-            console.error("Live Error", e);
-            stopSession();
-          }
+          if (base64Audio && !bargedInRef.current) await playbackRef.current?.enqueue(base64Audio);
+
+          if (message.serverContent?.interrupted) playbackRef.current?.flush();
+          if (message.serverContent?.interrupted || message.serverContent?.turnComplete) bargedInRef.current = false;
+        },
+        onclose: (reason) => {
+          if (cancelled()) return;
+          stopSession();
+          if (reason) setAuthError(reason);
         },
         config: {
           responseModalities: [Modality.AUDIO],
           inputAudioTranscription: {},
           outputAudioTranscription: {},
-          tools: [{ functionDeclarations: [saveInfoTool] }],
+          tools: [{ functionDeclarations: [saveMemoryTool] }],
           speechConfig: { 
             voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } 
           },
@@ -224,11 +292,14 @@ const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, sweetheartM
         }
       });
       
-      sessionRef.current = await sessionPromise;
+      const session = await sessionPromise;
+      if (cancelled()) return session.close();
+      sessionRef.current = session;
     } catch (err) {
+      if (cancelled()) return;
       console.error("Voice sync failed", err);
-      setIsValidating(false);
-      setAuthError("Neural sync failed.");
+      stopSession();
+      setAuthError(source.kind === 'file' ? "That recording could not be played." : "Neural sync failed.");
     }
   };
 
@@ -246,25 +317,45 @@ const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, sweetheartM
          </div>
       </div>
 
+      {Object.keys(videoStreams).length > 0 && (
+        <div className="absolute top-6 right-6 z-20 flex flex-col space-y-3">
+          {VIDEO_SOURCES.filter(({ kind }) => videoStreams[kind]).map(({ kind, label, icon }) => (
+            <div key={kind} className="relative w-48 aspect-video rounded-2xl overflow-hidden border border-pink-500/30 bg-black shadow-2xl">
+              <VideoPreview stream={videoStreams[kind]!} mirrored={kind === 'camera'} />
+              <div className="absolute bottom-2 left-3 text-[8px] font-black uppercase tracking-widest text-white/80">
+                <i className={`fas ${icon} mr-1 text-pink-500`}></i>{label} · {videoFrameRate} fps
+              </div>
+              <button onClick={() => stopVideo(kind)} title={`Stop sharing ${label.toLowerCase()}`} className="absolute top-2 right-2 w-6 h-6 rounded-full bg-black/60 text-white/70 hover:text-white flex items-center justify-center">
+                <i className="fas fa-xmark text-[10px]"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="z-10 text-center space-y-12 max-w-lg">
          <div className="space-y-4">
             <h1 className="text-6xl font-black text-white tracking-tighter">Little Ai <span className="text-pink-500 italic">Live</span></h1>
             <p className="text-gray-500 text-[10px] font-black uppercase tracking-[0.6em] leading-relaxed">
-              {isActive ? 'Listening with care...' : 'Voice Synchronizer Ready'}
+              {!isActive ? 'Voice Synchronizer Ready' : connection === 'reconnecting' ? 'Reconnecting... the conversation is kept' : gateOpen ? 'Listening with care...' : pushToTalk ? 'Hold space or the button to talk' : 'Muted'}
             </p>
+            {isActive && (
+              <div className="flex justify-center space-x-8 pt-2">
+                <AudioLevelMeter label="You" icon="fa-microphone" getLevel={() => micLevelRef.current} />
+                <AudioLevelMeter label="Little Ai" icon="fa-volume-high" getLevel={() => playbackRef.current?.level() ?? 0} />
+              </div>
+            )}
+            {authError && <p className="text-red-400 text-[10px] font-black uppercase tracking-widest">{authError}</p>}
          </div>
 
-         <div className="h-32 flex flex-col items-center justify-center space-y-3">
-            {userInput && (
-              <p className="text-white font-medium italic opacity-60 text-sm">"{userInput}"</p>
-            )}
-            {aiOutput && (
-              <p className="text-pink-400 font-bold text-lg">"{aiOutput}"</p>
-            )}
+         <div className="h-32 flex flex-col items-center justify-end space-y-2 overflow-hidden">
+            {transcript.slice(-VISIBLE_TURNS).map(turn => (
+              <p key={`${turn.role}-${turn.timestamp}`} className={turn.role === 'user' ? 'text-white font-medium italic opacity-60 text-sm' : 'text-pink-400 font-bold text-lg'}>"{turn.text.trim()}"</p>
+            ))}
          </div>
 
          <button 
-          onClick={isActive ? stopSession : startSession}
+          onClick={() => isActive ? stopSession() : startSession()}
           disabled={isValidating}
           className={`w-44 h-44 rounded-full flex items-center justify-center transition-all duration-700 border-4 ${
             isActive ? 'bg-white border-pink-500 text-pink-500 scale-110 shadow-[0_0_80px_rgba(236,72,153,0.4)]' : 'bg-transparent border-white/10 text-white hover:border-pink-500/40 hover:bg-white/5'
@@ -274,13 +365,58 @@ const LiveView: React.FC<LiveViewProps> = ({ memories, onSaveMemory, sweetheartM
         </button>
 
         <div className="flex justify-center space-x-6">
+           <button onClick={() => setPushToTalk(!pushToTalk)} title="Push to talk" className={`w-14 h-14 rounded-full flex items-center justify-center border transition-all ${pushToTalk ? 'bg-pink-500/20 border-pink-500 text-pink-500 shadow-lg' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}>
+              <i className="fas fa-hand text-lg"></i>
+           </button>
            <button onClick={() => setIsMuted(!isMuted)} className={`w-14 h-14 rounded-full flex items-center justify-center border transition-all ${isMuted ? 'bg-red-500/20 border-red-500 text-red-500 shadow-lg' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}>
               <i className={`fas ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'} text-lg`}></i>
            </button>
+           {isActive && VIDEO_SOURCES.map(({ kind, label, icon }) => (
+             <button key={kind} onClick={() => toggleVideo(kind)} title={`${videoStreams[kind] ? 'Stop sharing' : 'Share'} ${label.toLowerCase()}`} className={`w-14 h-14 rounded-full flex items-center justify-center border transition-all ${videoStreams[kind] ? 'bg-pink-500/20 border-pink-500 text-pink-500 shadow-lg' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}>
+                <i className={`fas ${icon} text-lg`}></i>
+             </button>
+           ))}
            <button onClick={() => stopSession()} className="w-14 h-14 rounded-full flex items-center justify-center border border-white/10 bg-white/5 text-gray-500 hover:text-white transition-all">
               <i className="fas fa-phone-slash text-lg"></i>
            </button>
         </div>
+
+        {pushToTalk && isActive && (
+          <button
+            onPointerDown={() => setIsTalking(true)}
+            onPointerUp={() => setIsTalking(false)}
+            onPointerLeave={() => setIsTalking(false)}
+            className={`px-10 py-4 rounded-2xl border text-[10px] font-black uppercase tracking-[0.3em] transition-all touch-none ${isTalking ? 'bg-pink-500 border-pink-500 text-white' : 'bg-white/5 border-white/10 text-gray-400 hover:text-white'}`}
+          >
+            {isTalking ? 'Talking…' : 'Hold to talk'}
+          </button>
+        )}
+
+        {!isActive && !isValidating && (
+          <>
+            <button onClick={() => recordingInputRef.current?.click()} className="block mx-auto text-[9px] font-black uppercase tracking-[0.3em] text-gray-600 hover:text-pink-400 transition-colors">
+              Test with a recording instead of the mic
+            </button>
+            <input
+              ref={recordingInputRef}
+              type="file"
+              accept="audio/wav,audio/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) startSession({ kind: 'file', file });
+              }}
+            />
+          </>
+        )}
+
+        {savedSessionId && !isActive && (
+          <button onClick={() => onOpenSession(savedSessionId)} className="inline-flex items-center space-x-3 px-6 py-3 rounded-2xl bg-white/5 border border-white/10 text-gray-400 hover:text-white hover:border-pink-500/30 transition-all">
+            <i className="far fa-comments text-xs text-pink-500"></i>
+            <span className="text-[10px] font-black uppercase tracking-[0.2em]">Transcript saved · Continue in chat</span>
+          </button>
+        )}
       </div>
     </div>
   );
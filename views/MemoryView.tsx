@@ -0,0 +1,252 @@
+
+import React, { useState, useMemo, useEffect } from 'react';
+import { AppView, MemoryEntry, MemoryCategory } from '../types';
+import { MEMORY_CATEGORIES, findNearDuplicate, sortMemories, newMemoryId } from '../services/memoryService';
+
+interface MemoryViewProps {
+  memories: MemoryEntry[];
+  onUpdateMemories: React.Dispatch<React.SetStateAction<MemoryEntry[]>>;
+  onViewChange: (view: AppView) => void;
+  onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
+  focusMemoryId?: string | null; // Scrolled to and highlighted, e.g. from the search palette
+}
+
+const CATEGORY_ICONS: Record<MemoryCategory, string> = {
+  personal: 'fa-user',
+  preference: 'fa-heart',
+  work: 'fa-briefcase',
+  task: 'fa-list-check',
+  general: 'fa-brain'
+};
+
+const MemoryView: React.FC<MemoryViewProps> = ({ memories, onUpdateMemories, onViewChange, onPlaySound, focusMemoryId }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState<MemoryCategory | 'all'>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newFact, setNewFact] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [highlightId, setHighlightId] = useState<string | null>(null);
+
+  const filteredMemories = useMemo(() => {
+    const q = searchQuery.toLowerCase();
+    return sortMemories(memories).filter(m =>
+      (categoryFilter === 'all' || (m.category || 'general') === categoryFilter) &&
+      (!q || m.content.toLowerCase().includes(q))
+    );
+  }, [memories, searchQuery, categoryFilter]);
+
+  useEffect(() => {
+    if (!focusMemoryId) return;
+    document.getElementById(`memory-${focusMemoryId}`)?.scrollIntoView({ block: 'center' });
+    setHighlightId(focusMemoryId);
+    const timer = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [focusMemoryId]);
+
+  const flashNotice = (text: string) => {
+    setNotice(text);
+    setTimeout(() => setNotice(null), 2500);
+  };
+
+  const patch = (id: string, changes: Partial<MemoryEntry>) => {
+    onUpdateMemories(prev => prev.map(m => m.id === id ? { ...m, ...changes, updatedAt: Date.now() } : m));
+  };
+
+  const handleAdd = () => {
+    const content = newFact.trim();
+    if (!content) return;
+    onPlaySound?.('click');
+    const duplicate = findNearDuplicate(memories, content);
+    if (duplicate) {
+      flashNotice('Already remembered — refreshed the existing memory.');
+      patch(duplicate.id, { content: content.length > duplicate.content.length ? content : duplicate.content });
+    } else {
+      const now = Date.now();
+      onUpdateMemories(prev => [{ id: newMemoryId(), content, timestamp: now, updatedAt: now, category: categoryFilter === 'all' ? 'general' : categoryFilter }, ...prev]);
+    }
+    setNewFact('');
+  };
+
+  // Leaving the field or pressing Escape drops the draft; only Enter or Save writes it.
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setDraft('');
+  };
+
+  const handleSaveEdit = (memory: MemoryEntry) => {
+    const content = draft.trim();
+    setEditingId(null);
+    if (!content || content === memory.content) return;
+    onPlaySound?.('click');
+    const duplicate = findNearDuplicate(memories, content, memory.id);
+    if (duplicate) {
+      // Editing one fact into another merges them instead of leaving two copies.
+      flashNotice('Merged with a matching memory.');
+      onUpdateMemories(prev => prev
+        .filter(m => m.id !== memory.id)
+        .map(m => m.id === duplicate.id ? { ...m, content, pinned: m.pinned || memory.pinned, updatedAt: Date.now() } : m));
+      return;
+    }
+    patch(memory.id, { content });
+  };
+
+  const handleDelete = (id: string) => {
+    onPlaySound?.('outside');
+    onUpdateMemories(prev => prev.filter(m => m.id !== id));
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 md:p-12 custom-scrollbar bg-transparent relative">
+
+      {/* Universal Back Button */}
+      <button
+        onClick={() => { onPlaySound?.('click'); onViewChange(AppView.CHAT); }}
+        className="fixed top-8 left-32 z-[100] flex items-center space-x-3 px-6 py-3 bg-white/5 border border-white/10 rounded-2xl text-primary/60 hover:text-white hover:bg-white/10 hover:border-white/20 transition-all backdrop-blur-3xl group shadow-2xl"
+      >
+        <i className="fas fa-chevron-left text-[10px] group-hover:-translate-x-1 transition-transform"></i>
+        <span className="text-[10px] font-black uppercase tracking-[0.2em]">Return to Link</span>
+      </button>
+
+      <div className="max-w-5xl mx-auto space-y-12 pt-20">
+        <div className="flex flex-col md:flex-row md:items-end justify-between gap-8 pt-8">
+          <div className="space-y-4">
+            <div className="inline-flex items-center px-4 py-1.5 bg-pink-500/10 border border-pink-500/20 rounded-full">
+              <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.3em]">{memories.length} Facts Stored</span>
+            </div>
+            <h2 className="text-5xl font-black tracking-tighter text-white">Memory Core</h2>
+            <p className="text-gray-500 text-sm max-w-md font-medium">Everything Little Ai remembers about you. Pinned memories travel with every conversation.</p>
+          </div>
+
+          <div className="relative w-full md:w-80">
+            <i className="fas fa-search absolute left-5 top-1/2 -translate-y-1/2 text-gray-700 text-xs"></i>
+            <input
+              type="text"
+              placeholder="Search memories..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="bg-white/[0.03] border border-white/10 rounded-2xl pl-12 pr-6 py-4 text-sm focus:outline-none focus:border-pink-500/30 transition-all w-full text-white placeholder:text-gray-800 placeholder:uppercase placeholder:font-black placeholder:tracking-widest placeholder:text-[9px]"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {(['all', ...MEMORY_CATEGORIES] as const).map(cat => (
+            <button
+              key={cat}
+              onClick={() => { onPlaySound?.('click'); setCategoryFilter(cat); }}
+              className={`px-5 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest border transition-all ${categoryFilter === cat ? 'bg-pink-600 border-pink-400 text-white' : 'border-white/10 text-gray-500 hover:text-white'}`}
+            >
+              {cat !== 'all' && <i className={`fas ${CATEGORY_ICONS[cat]} mr-2`}></i>}
+              {cat}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex space-x-4 bg-white/[0.02] p-3 rounded-[2rem] border border-white/10">
+          <input
+            type="text"
+            value={newFact}
+            onChange={e => setNewFact(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleAdd()}
+            placeholder="Teach Little Ai something new..."
+            className="flex-1 bg-transparent border-none px-6 py-3 text-white text-sm font-bold focus:outline-none placeholder:text-gray-700"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newFact.trim()}
+            className="px-8 bg-pink-600/20 hover:bg-pink-600 text-pink-500 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-20"
+          >
+            Remember
+          </button>
+        </div>
+
+        {notice && (
+          <p className="text-[10px] font-black text-pink-500 uppercase tracking-widest animate-in fade-in duration-300">{notice}</p>
+        )}
+
+        {filteredMemories.length === 0 ? (
+          <div className="py-24 flex flex-col items-center justify-center text-center space-y-6">
+            <div className="w-20 h-20 rounded-[2rem] bg-white/5 border border-white/10 flex items-center justify-center text-gray-800 text-2xl">
+              <i className="fas fa-brain"></i>
+            </div>
+            <p className="text-gray-600 text-[10px] font-black uppercase tracking-[0.4em]">No memories match</p>
+          </div>
+        ) : (
+          <div className="space-y-4 pb-20">
+            {filteredMemories.map(memory => (
+              <div
+                key={memory.id}
+                id={`memory-${memory.id}`}
+                className={`group bg-white/[0.02] border rounded-[2rem] p-6 flex items-start space-x-5 transition-all ${highlightId === memory.id ? 'border-pink-500/60' : memory.pinned ? 'border-pink-500/30' : 'border-white/10 hover:border-white/20'}`}
+              >
+                <div className="w-11 h-11 rounded-2xl bg-pink-500/10 flex items-center justify-center text-pink-500 border border-pink-500/10 shrink-0">
+                  <i className={`fas ${CATEGORY_ICONS[memory.category || 'general']} text-sm`}></i>
+                </div>
+
+                <div className="flex-1 min-w-0 space-y-3">
+                  {editingId === memory.id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        autoFocus
+                        value={draft}
+                        onChange={e => setDraft(e.target.value)}
+                        onBlur={handleCancelEdit}
+                        onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSaveEdit(memory); } if (e.key === 'Escape') handleCancelEdit(); }}
+                        rows={2}
+                        className="w-full bg-black/20 border border-white/10 rounded-2xl p-4 text-white text-sm font-bold focus:outline-none focus:border-pink-500/40 resize-none"
+                      />
+                      <div className="flex items-center justify-end space-x-3 text-[9px] font-black uppercase tracking-widest">
+                        <span className="text-gray-600">Enter to save · Esc to cancel</span>
+                        {/* Pressing the button would blur the field, and cancel, before the click lands. */}
+                        <button onMouseDown={e => e.preventDefault()} onClick={() => handleSaveEdit(memory)} className="px-3 py-1 rounded-lg bg-pink-500/10 text-pink-500 hover:bg-pink-600 hover:text-white transition-all">Save</button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p onDoubleClick={() => { setEditingId(memory.id); setDraft(memory.content); }} className="text-white text-sm font-bold leading-relaxed">{memory.content}</p>
+                  )}
+                  <div className="flex items-center space-x-4 text-[9px] font-black uppercase tracking-widest text-gray-600">
+                    <select
+                      value={memory.category || 'general'}
+                      onChange={e => { onPlaySound?.('click'); patch(memory.id, { category: e.target.value as MemoryCategory }); }}
+                      className="bg-transparent border border-white/10 rounded-lg px-2 py-1 text-gray-400 uppercase focus:outline-none"
+                    >
+                      {MEMORY_CATEGORIES.map(cat => <option key={cat} value={cat} className="bg-black">{cat}</option>)}
+                    </select>
+                    <span>{new Date(memory.updatedAt || memory.timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 shrink-0">
+                  <button
+                    onClick={() => { onPlaySound?.('click'); patch(memory.id, { pinned: !memory.pinned }); }}
+                    className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${memory.pinned ? 'bg-pink-500/20 text-pink-500' : 'bg-white/5 text-gray-700 hover:text-white'}`}
+                    title={memory.pinned ? 'Unpin' : 'Pin'}
+                  >
+                    <i className="fas fa-thumbtack text-xs"></i>
+                  </button>
+                  <button
+                    onClick={() => { setEditingId(memory.id); setDraft(memory.content); }}
+                    className="w-10 h-10 rounded-xl bg-white/5 text-gray-700 hover:text-white transition-all flex items-center justify-center"
+                    title="Edit"
+                  >
+                    <i className="fas fa-pen text-xs"></i>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(memory.id)}
+                    className="w-10 h-10 rounded-xl bg-red-500/5 text-gray-700 hover:text-red-500 hover:bg-red-500/10 transition-all flex items-center justify-center"
+                    title="Forget"
+                  >
+                    <i className="fas fa-trash-alt text-xs"></i>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MemoryView;
@@ -1,7 +1,10 @@
 
 import React, { useState } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
+import { generateJson, isAbortError } from '../services/geminiService';
 import { AppView } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface MindNode {
   label: string;
@@ -17,58 +20,63 @@ const MindMapView: React.FC<MindMapViewProps> = ({ onViewChange, onPlaySound })
   const [topic, setTopic] = useState('');
   const [loading, setLoading] = useState(false);
   const [mindMapData, setMindMapData] = useState<MindNode | null>(null);
+  const request = useCancellableRequest();
 
   const handleGenerate = async () => {
     if (!topic.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setMindMapData(null);
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+      const data = await generateJson<MindNode>({
         contents: `Generate a structured mind map for the topic: "${topic}". Provide a clear hierarchy of sub-topics.`,
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              label: { type: Type.STRING, description: "The central topic name." },
-              children: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    label: { type: Type.STRING },
-                    children: {
-                      type: Type.ARRAY,
-                      items: {
-                        type: Type.OBJECT,
-                        properties: {
-                          label: { type: Type.STRING }
-                        }
+        schema: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING, description: "The central topic name." },
+            children: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  label: { type: Type.STRING },
+                  children: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        label: { type: Type.STRING }
                       }
                     }
                   }
                 }
               }
-            },
-            required: ["label"]
-          }
-        }
+            }
+          },
+          required: ["label"]
+        },
+        signal,
+        task: 'mindmap'
       });
 
-      const data = JSON.parse(response.text);
       setMindMapData(data);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       alert("Failed to build mind map. Try a simpler topic.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   const renderNode = (node: MindNode, depth: number = 0) => (
     <div key={node.label} className={`flex flex-col items-center ${depth === 0 ? 'w-full' : 'mt-8'}`}>
       <div className={`px-6 py-3 rounded-2xl border transition-all shadow-xl text-center min-w-[140px] ${
@@ -147,6 +155,7 @@ const MindMapView: React.FC<MindMapViewProps> = ({ onViewChange, onPlaySound })
              <div className="flex flex-col items-center justify-center space-y-6 self-center relative z-10">
                <div className="w-12 h-12 border-2 border-green-500 border-t-transparent rounded-full animate-spin"></div>
                <p className="text-[10px] font-black text-gray-600 uppercase tracking-[0.4em]">Constructing Semantic Nodes...</p>
+               <CancelButton onClick={handleCancel} />
              </div>
            ) : mindMapData ? (
              <div className="relative z-10 animate-in fade-in slide-in-from-top-10 duration-700">
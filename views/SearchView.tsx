@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { searchWithGemini, searchWithMaps } from '../services/geminiService';
+import { searchWithGemini, searchWithMaps, isAbortError } from '../services/geminiService';
 import { SearchResult, AppView } from '../types';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import CancelButton from '../components/CancelButton';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
 
 const SEARCH_HISTORY_KEY = 'little_ai_search_history';
 const MAX_HISTORY_ITEMS = 12;
@@ -25,6 +28,7 @@ const SearchView: React.FC<SearchViewProps> = ({ onViewChange, onPlaySound }) =>
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [mapMode, setMapMode] = useState(false);
   const [userLocation, setUserLocation] = useState<{ latitude: number, longitude: number } | null>(null);
+  const request = useCancellableRequest();
 
   useEffect(() => {
     const savedHistory = localStorage.getItem(SEARCH_HISTORY_KEY);
@@ -90,6 +94,7 @@ const SearchView: React.FC<SearchViewProps> = ({ onViewChange, onPlaySound }) =>
     if (!searchTarget.trim() || loading) return;
 
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setAnswer('');
     setSources([]);
@@ -102,44 +107,30 @@ const SearchView: React.FC<SearchViewProps> = ({ onViewChange, onPlaySound }) =>
 
     try {
       const response = mapMode 
-        ? await searchWithMaps(searchTarget, userLocation || undefined)
-        : await searchWithGemini(searchTarget);
+        ? await searchWithMaps(searchTarget, userLocation || undefined, signal)
+        : await searchWithGemini(searchTarget, signal);
 
       setAnswer(response.text || "No results found.");
-      
-      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-      const extractedSources: MapSource[] = [];
-      
-      chunks.forEach((chunk: any) => {
-        if (chunk.web) {
-          extractedSources.push({
-            title: chunk.web.title || 'Source',
-            uri: chunk.web.uri,
-            isMap: false
-          });
-        }
-        if (chunk.maps) {
-          extractedSources.push({
-            title: chunk.maps.title || 'Place Detail',
-            uri: chunk.maps.uri,
-            isMap: true,
-            reviews: chunk.maps.placeAnswerSources?.[0]?.reviewSnippets
-          });
-        }
-      });
 
-      const uniqueSources = Array.from(new Set(extractedSources.map(s => s.uri)))
-        .map(uri => extractedSources.find(s => s.uri === uri) as MapSource);
+      const uniqueSources = Array.from(new Set(response.sources.map(s => s.uri)))
+        .map(uri => response.sources.find(s => s.uri === uri) as MapSource);
       
       setSources(uniqueSources);
       addToHistory(searchTarget);
     } catch (e) {
+      if (isAbortError(e)) return;
       setAnswer("Search failed. Please try again later.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   return (
     <div className="h-full overflow-y-auto p-4 md:p-8 custom-scrollbar bg-transparent relative">
       
@@ -252,14 +243,15 @@ const SearchView: React.FC<SearchViewProps> = ({ onViewChange, onPlaySound }) =>
 
         {/* Results Display */}
         {loading ? (
-          <div className="py-24 flex flex-col items-center justify-center space-y-8 animate-pulse">
+          <div className="py-24 flex flex-col items-center justify-center space-y-8">
             <div className="relative">
                <div className={`w-20 h-20 border-4 ${mapMode ? 'border-blue-500/10 border-t-blue-500' : 'border-green-500/10 border-t-green-500'} rounded-[2.5rem] animate-spin`}></div>
                <div className="absolute inset-0 flex items-center justify-center">
                  <i className={`fas ${mapMode ? 'fa-location-dot' : 'fa-satellite'} ${mapMode ? 'text-blue-500/40' : 'text-green-500/40'} text-xl`}></i>
                </div>
             </div>
-            <p className="text-[11px] font-black text-gray-600 uppercase tracking-[0.5em]">{mapMode ? 'Triangulating Maps Data' : 'Querying Global Web Layer'}</p>
+            <p className="text-[11px] font-black text-gray-600 uppercase tracking-[0.5em] animate-pulse">{mapMode ? 'Triangulating Maps Data' : 'Querying Global Web Layer'}</p>
+            <CancelButton onClick={handleCancel} />
           </div>
         ) : answer ? (
           <div className="space-y-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
@@ -273,7 +265,7 @@ const SearchView: React.FC<SearchViewProps> = ({ onViewChange, onPlaySound }) =>
                    Synthesis Protocol: Finalized
                  </h3>
                </div>
-               <p className="text-gray-100 text-[18px] leading-relaxed whitespace-pre-wrap relative z-10 font-medium selection:bg-white/10">{answer}</p>
+               <MarkdownRenderer content={answer} className="text-gray-100 text-[18px] leading-relaxed relative z-10 font-medium selection:bg-white/10" />
             </div>
 
             {sources.length > 0 && (
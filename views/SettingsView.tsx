@@ -2,28 +2,67 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { User, AppView } from '../types';
 import { AppSettings } from '../App';
-import { getVaultUsage, wipeVault } from '../services/storageService';
+import { VaultUsage, getVaultUsage, requestPersistentStorage, wipeVault, isVaultEncrypted, onVaultLockChange, enableVaultEncryption, rotateVaultKey, disableVaultEncryption } from '../services/storageService';
+import { TOOLS, ToolId, modelsForTool, getModelInfo, getFallbackModel } from '../services/modelRegistry';
+import { getUsageLedger, onUsageRecorded, summarizeUsage, creditsSpentThisMonth, DEFAULT_PRICE_TABLE, ModelPrice } from '../services/usageService';
+import { VAULT_FOLDERS } from '../services/vaultFolders';
+import { GUEST_NAMESPACE } from '../services/sessionService';
+import { VaultBackup, ImportMode, ImportReport, createVaultBackup, backupToBlob, backupFileName, parseVaultBackup, isSealedBackup } from '../services/backupService';
+import { getDeviceProfiles, changePassword, MIN_PASSWORD_LENGTH } from '../services/accountService';
+import { RetentionRule, StorageBreakdown, enforceRetention, measureStorageBreakdown } from '../services/retentionService';
+import { VIDEO_FRAME_RATES, DEFAULT_VIDEO_FRAME_RATE } from '../services/videoCapture';
 
 interface SettingsViewProps {
   user: User | null;
   onLogout: () => void;
   onOpenAuth: () => void;
+  onSwitchProfile: (username: string) => void;
+  onLockVault: () => void;
+  onImportVault: (backup: VaultBackup, mode: ImportMode) => Promise<ImportReport>;
   settings: AppSettings;
   onUpdateSettings: (s: AppSettings) => void;
   onViewChange: (view: AppView) => void;
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth, settings, onUpdateSettings, onViewChange, onPlaySound }) => {
-  const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'studio' | 'storage' | 'account'>('appearance');
-  const [storageStats, setStorageStats] = useState({ used: 0, total: 107374182400 });
+const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth, onSwitchProfile, onLockVault, onImportVault, settings, onUpdateSettings, onViewChange, onPlaySound }) => {
+  const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'models' | 'usage' | 'studio' | 'storage' | 'account'>('appearance');
+  const [storageStats, setStorageStats] = useState<VaultUsage>({ used: 0, quota: 0, persisted: false });
+  const [storageBreakdown, setStorageBreakdown] = useState<StorageBreakdown | null>(null);
+  const [storageStatus, setStorageStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
   const [customWallInput, setCustomWallInput] = useState(settings.customWallpaper || '');
   const [isSyncing, setIsSyncing] = useState(false);
+  const [usageLedger, setUsageLedger] = useState(getUsageLedger);
+  const [budgetInput, setBudgetInput] = useState(settings.usageBudget ? String(settings.usageBudget) : '');
+  const [passwordForm, setPasswordForm] = useState({ current: '', next: '', confirm: '' });
+  const [passwordStatus, setPasswordStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
+  const [vaultEncrypted, setVaultEncrypted] = useState(isVaultEncrypted);
+  const [vaultForm, setVaultForm] = useState({ current: '', next: '', confirm: '' });
+  const [vaultStatus, setVaultStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isVaultBusy, setIsVaultBusy] = useState(false);
+  const [backupFolders, setBackupFolders] = useState<string[] | null>(null); // null backs up everything
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [backupStatus, setBackupStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [sealBackup, setSealBackup] = useState(true); // Offered while the vault is encrypted
+  const [sealForm, setSealForm] = useState({ next: '', confirm: '' });
+  const [sealedImport, setSealedImport] = useState<File | null>(null); // Waiting for its passphrase
+  const [importPassphrase, setImportPassphrase] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    updateStorageStats();
-  }, []);
+    if (activeTab === 'storage') updateStorageStats();
+  }, [activeTab]);
+
+  useEffect(() => onVaultLockChange(() => setVaultEncrypted(isVaultEncrypted())), []);
+
+  useEffect(() => {
+    setUsageLedger(getUsageLedger());
+    return onUsageRecorded(() => setUsageLedger(getUsageLedger()));
+  }, [user?.username]);
 
   const triggerWallpaperUpdate = useCallback((url: string) => {
     const trimmedUrl = url.trim();
@@ -61,11 +100,161 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth,
     }
   };
 
+  const semanticSearchOn = !!settings.semanticSearch && (!vaultEncrypted || !!settings.semanticSearchEncrypted);
+
+  const toggleSemanticSearch = () => {
+    if (semanticSearchOn) return update({ semanticSearch: false, semanticSearchEncrypted: false });
+    const consent = [
+      "Semantic search sends the text of your chats, memories and vault items to the embedding model, in the background and again whenever they change.",
+      "Each batch is billed against your credits.",
+      vaultEncrypted ? "Your vault is protected with a passphrase; its contents will leave this device to be embedded." : "",
+      "Turn it on?"
+    ].filter(Boolean).join('\n\n');
+    if (!window.confirm(consent)) return;
+    update({ semanticSearch: true, semanticSearchEncrypted: vaultEncrypted });
+  };
+
   const update = (changes: Partial<AppSettings>) => {
     onPlaySound?.('click');
     onUpdateSettings({ ...settings, ...changes });
   };
 
+  const setToolModel = (tool: ToolId, modelId: string) => {
+    const models = { ...settings.models };
+    const defaultModel = TOOLS.find(t => t.id === tool)?.defaultModel;
+    if (modelId === defaultModel) delete models[tool];
+    else models[tool] = modelId;
+    update({ models });
+  };
+
+  const applyBudget = () => {
+    const value = parseFloat(budgetInput);
+    update({ usageBudget: value > 0 ? value : undefined });
+    if (!(value > 0)) setBudgetInput('');
+  };
+
+  // An empty field falls back to the built-in price; a model with no overrides left is dropped.
+  const setModelPrice = (model: string, field: keyof ModelPrice, raw: string) => {
+    const value = parseFloat(raw);
+    const price = { ...settings.modelPrices?.[model] };
+    if (value >= 0) price[field] = value;
+    else delete price[field];
+    const modelPrices = { ...settings.modelPrices, [model]: price };
+    if (!Object.keys(price).length) delete modelPrices[model];
+    onUpdateSettings({ ...settings, modelPrices: Object.keys(modelPrices).length ? modelPrices : undefined });
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (passwordForm.next !== passwordForm.confirm) {
+      setPasswordStatus({ ok: false, message: 'New security keys do not match.' });
+      return;
+    }
+    onPlaySound?.('click');
+    setIsChangingPassword(true);
+    setPasswordStatus(null);
+    try {
+      await changePassword(user.username, passwordForm.current, passwordForm.next);
+      setPasswordForm({ current: '', next: '', confirm: '' });
+      setPasswordStatus({ ok: true, message: 'Security key updated.' });
+    } catch (err: any) {
+      setPasswordStatus({ ok: false, message: err.message || 'Could not update the security key.' });
+    } finally {
+      setIsChangingPassword(false);
+    }
+  };
+
+  /**
+   * Runs an encryption change with a spinner; the whole vault is re-encrypted, which can take a while.
+   */
+  const runVaultTask = async (task: () => Promise<void>, success: string, needsNewPassphrase = false) => {
+    if (needsNewPassphrase && vaultForm.next !== vaultForm.confirm) {
+      setVaultStatus({ ok: false, message: 'New passphrases do not match.' });
+      return;
+    }
+    if (needsNewPassphrase && vaultForm.next.length < MIN_PASSWORD_LENGTH) {
+      setVaultStatus({ ok: false, message: `Passphrase must be at least ${MIN_PASSWORD_LENGTH} characters.` });
+      return;
+    }
+    onPlaySound?.('click');
+    setIsVaultBusy(true);
+    setVaultStatus(null);
+    try {
+      await task();
+      setVaultForm({ current: '', next: '', confirm: '' });
+      setVaultStatus({ ok: true, message: success });
+    } catch (err: any) {
+      setVaultStatus({ ok: false, message: err.message || 'Vault update failed.' });
+    } finally {
+      setIsVaultBusy(false);
+    }
+  };
+
+  const toggleBackupFolder = (id: string) => {
+    onPlaySound?.('click');
+    const current = backupFolders || [];
+    const next = current.includes(id) ? current.filter(f => f !== id) : [...current, id];
+    setBackupFolders(next.length ? next : null);
+  };
+
+  const handleExportVault = async () => {
+    onPlaySound?.('click');
+    setIsBackupBusy(true);
+    setBackupStatus(null);
+    try {
+      const sealed = vaultEncrypted && sealBackup;
+      if (sealed && !sealForm.next) throw new Error('Choose a passphrase to seal the archive with.');
+      if (sealed && sealForm.next !== sealForm.confirm) throw new Error('Passphrases do not match.');
+      const backup = await createVaultBackup(user?.username || GUEST_NAMESPACE, backupFolders || undefined);
+      const url = URL.createObjectURL(await backupToBlob(backup, sealed ? sealForm.next : undefined));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName(backup);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      setBackupStatus({ ok: true, message: `Exported ${backup.manifest.keys.length} records (${backup.manifest.itemCount} items)${sealed ? ', sealed' : ''}.` });
+      setSealForm({ next: '', confirm: '' });
+    } catch (err: any) {
+      setBackupStatus({ ok: false, message: err.message || 'Export failed.' });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const importArchive = async (file: File, passphrase?: string) => {
+    setIsBackupBusy(true);
+    setBackupStatus(null);
+    try {
+      if (!passphrase && await isSealedBackup(file)) {
+        setSealedImport(file);
+        setBackupStatus({ ok: true, message: 'This archive is sealed. Enter its passphrase to import it.' });
+        return;
+      }
+      const backup = await parseVaultBackup(file, passphrase);
+      const report = await onImportVault(backup, importMode);
+      setSealedImport(null);
+      setImportPassphrase('');
+      setBackupStatus({ ok: true, message: `Imported ${report.records} records: ${report.added} added, ${report.updated} updated, ${report.skipped} skipped.` });
+    } catch (err: any) {
+      setBackupStatus({ ok: false, message: err.message || 'Import failed.' });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onPlaySound?.('click');
+    setSealedImport(null);
+    setImportPassphrase('');
+    importArchive(file);
+  };
+
+  const formatCredits = (credits: number) => credits < 10 ? credits.toFixed(2) : Math.round(credits).toLocaleString();
+
   const formatBytes = (bytes: number) => {
     const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
     if (bytes === 0) return '0 Bytes';
@@ -74,8 +263,44 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth,
   };
 
   const updateStorageStats = async () => {
-    const stats = await getVaultUsage();
-    setStorageStats(stats);
+    try {
+      const [stats, breakdown] = await Promise.all([getVaultUsage(), measureStorageBreakdown()]);
+      setStorageStats(stats);
+      setStorageBreakdown(breakdown);
+    } catch (e) {
+      console.error("Failed to measure vault storage", e);
+    }
+  };
+
+  const handlePersistStorage = async () => {
+    onPlaySound?.('click');
+    const granted = await requestPersistentStorage();
+    setStorageStatus(granted
+      ? { ok: true, message: 'The browser will keep the vault when space runs low.' }
+      : { ok: false, message: 'The browser declined. Installing or bookmarking the app usually helps.' });
+    updateStorageStats();
+  };
+
+  const setRetentionLimit = (folderId: string, field: keyof RetentionRule, value: string) => {
+    const amount = Math.floor(Number(value));
+    const limit = amount > 0 ? (field === 'maxBytes' ? amount * 1024 * 1024 : amount) : undefined;
+    const rule = { ...settings.retention?.[folderId], [field]: limit };
+    onUpdateSettings({ ...settings, retention: { ...settings.retention, [folderId]: rule } });
+  };
+
+  const handleRunCleanup = async () => {
+    onPlaySound?.('click');
+    setIsCleaning(true);
+    setStorageStatus(null);
+    try {
+      const report = await enforceRetention(settings.retention || {});
+      setStorageStatus({ ok: true, message: report.removed ? `Removed ${report.removed} items, about ${formatBytes(report.freed)}.` : 'Nothing is over the retention limits.' });
+      await updateStorageStats();
+    } catch (err: any) {
+      setStorageStatus({ ok: false, message: err.message || 'Cleanup failed.' });
+    } finally {
+      setIsCleaning(false);
+    }
   };
 
   return (
@@ -100,7 +325,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth,
         </header>
 
         <nav className="flex flex-wrap gap-2 p-1 rounded-[2.5rem] border border-white/10 glass-panel shadow-2xl w-fit">
-           {['general', 'appearance', 'studio', 'storage', 'account'].map(tab => (
+           {['general', 'appearance', 'models', 'usage', 'studio', 'storage', 'account'].map(tab => (
              <button 
                 key={tab} 
                 onClick={() => { onPlaySound?.('click'); setActiveTab(tab as any); }} 
@@ -210,6 +435,633 @@ const SettingsView: React.FC<SettingsViewProps> = ({ user, onLogout, onOpenAuth,
               </div>
             </div>
           )}
+
+          {activeTab === 'models' && (
+            <div className="space-y-10">
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-10 shadow-4xl">
+                <div className="flex items-center justify-between">
+                   <h3 className="text-2xl font-black text-primary tracking-tight">Model Routing</h3>
+                   <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">Per-Tool Engines</span>
+                </div>
+
+                <div className="flex items-center justify-between pt-6 border-t border-white/5">
+                  <div className="space-y-1">
+                    <h3 className="text-xl font-bold text-primary">Automatic Fallback</h3>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-secondary">When a model runs out of quota, retry on the next cheaper one</p>
+                  </div>
+                  <button onClick={() => update({ autoModelFallback: !(settings.autoModelFallback ?? true) })} className={`w-14 h-7 rounded-full transition-all relative ${(settings.autoModelFallback ?? true) ? 'bg-pink-600 shadow-[0_0_15px_var(--accent)]' : 'bg-gray-300'}`}>
+                    <div className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-all ${(settings.autoModelFallback ?? true) ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between pt-6 border-t border-white/5">
+                  <div className="space-y-1">
+                    <h3 className="text-xl font-bold text-primary">Semantic Search</h3>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-secondary">
+                      {settings.semanticSearch && !semanticSearchOn ? 'Paused since the vault was protected with a passphrase. Turn on again to include it' : 'Find chats, memories and vault items by meaning. Sends their text to the embedding model'}
+                    </p>
+                  </div>
+                  <button onClick={toggleSemanticSearch} className={`w-14 h-7 rounded-full transition-all relative ${semanticSearchOn ? 'bg-pink-600 shadow-[0_0_15px_var(--accent)]' : 'bg-gray-300'}`}>
+                    <div className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-all ${semanticSearchOn ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between pt-6 border-t border-white/5">
+                  <div className="space-y-1">
+                    <h3 className="text-xl font-bold text-primary">Live Video</h3>
+                    <p className="text-[10px] font-black uppercase tracking-widest text-secondary">Frames sent per second while sharing your camera or screen in a call</p>
+                  </div>
+                  <select
+                    value={settings.liveVideoFrameRate ?? DEFAULT_VIDEO_FRAME_RATE}
+                    onChange={(e) => update({ liveVideoFrameRate: Number(e.target.value) })}
+                    className="bg-black/10 border border-white/10 rounded-xl px-4 py-3 text-[11px] font-black text-primary focus:outline-none focus:border-pink-500/50"
+                  >
+                    {VIDEO_FRAME_RATES.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                  </select>
+                </div>
+
+                <div className="space-y-3 pt-6 border-t border-white/5">
+                  {TOOLS.map(tool => {
+                    const selected = settings.models?.[tool.id] && getModelInfo(settings.models[tool.id]!) ? settings.models[tool.id]! : tool.defaultModel;
+                    const fallback = getFallbackModel(tool.id, selected);
+                    return (
+                      <div key={tool.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-5 rounded-[2rem] border border-white/5 bg-black/5">
+                        <div className="flex items-center space-x-4">
+                          <i className={`fas ${tool.icon} w-6 text-center text-pink-500`}></i>
+                          <div>
+                            <p className="text-sm font-black text-primary">{tool.label}</p>
+                            <p className="text-[9px] font-black uppercase tracking-widest text-secondary">
+                              {fallback ? `Falls back to ${getModelInfo(fallback)?.label}` : 'No cheaper fallback'}
+                            </p>
+                          </div>
+                        </div>
+                        <select
+                          value={selected}
+                          onChange={(e) => setToolModel(tool.id, e.target.value)}
+                          className="bg-black/10 border border-white/10 rounded-xl px-4 py-3 text-[11px] font-black text-primary focus:outline-none focus:border-pink-500/50"
+                        >
+                          {modelsForTool(tool.id).map(model => (
+                            <option key={model.id} value={model.id}>
+                              {model.label} · {model.tier}{model.id === tool.defaultModel ? ' (default)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <button
+                  onClick={() => update({ models: {} })}
+                  className="px-8 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all"
+                >
+                  Reset to Defaults
+                </button>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'usage' && (() => {
+            const summary = summarizeUsage(usageLedger);
+            const spent = creditsSpentThisMonth();
+            const budget = settings.usageBudget;
+            const peak = Math.max(...summary.byDay.map(d => d.credits), 0.0001);
+            return (
+              <div className="space-y-10">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  {[
+                    { label: 'Credit Balance', value: user ? formatCredits(user.credit ?? 0) : '—', hint: user ? 'Charged per request' : 'Sign in to track credits' },
+                    { label: 'Spent This Month', value: formatCredits(spent), hint: budget ? `of ${budget} budget` : 'No budget set' },
+                    { label: 'Tokens Recorded', value: (summary.total.promptTokens + summary.total.outputTokens).toLocaleString(), hint: `${summary.total.requests} requests` }
+                  ].map(card => (
+                    <div key={card.label} className="glass-panel border rounded-[2.5rem] p-8 space-y-2 shadow-2xl">
+                      <p className="text-[10px] font-black uppercase tracking-widest text-secondary">{card.label}</p>
+                      <p className="text-4xl font-black text-primary tracking-tighter">{card.value}</p>
+                      <p className="text-[9px] font-black uppercase tracking-widest text-pink-500">{card.hint}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-2xl font-black text-primary tracking-tight">Monthly Budget</h3>
+                    <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">Soft Limit</span>
+                  </div>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-secondary">Requests are blocked once this month's spend reaches the limit. Leave empty for no limit.</p>
+                  <div className="flex space-x-4">
+                    <input
+                      type="number"
+                      min="0"
+                      value={budgetInput}
+                      onChange={(e) => setBudgetInput(e.target.value)}
+                      placeholder="CREDITS PER MONTH"
+                      className="flex-1 bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                    />
+                    <button onClick={applyBudget} className="px-10 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all">
+                      Apply
+                    </button>
+                  </div>
+                  {budget && (
+                    <div className="h-2 rounded-full bg-white/5 overflow-hidden">
+                      <div className={`h-full rounded-full ${spent >= budget ? 'bg-red-500' : 'bg-pink-500'}`} style={{ width: `${Math.min(100, (spent / budget) * 100)}%` }}></div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-2xl font-black text-primary tracking-tight">Model Prices</h3>
+                    {settings.modelPrices && (
+                      <button onClick={() => { onPlaySound?.('click'); update({ modelPrices: undefined }); }} className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em] hover:text-pink-400">
+                        Reset
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-secondary">Credits charged per 1,000 tokens and per request. Empty fields use the built-in price; changes apply to new requests.</p>
+                  <table className="w-full text-left">
+                    <thead>
+                      <tr className="text-[9px] font-black uppercase tracking-widest text-secondary">
+                        <th className="py-3">Model</th>
+                        <th className="py-3 text-right">Input / 1K</th>
+                        <th className="py-3 text-right">Output / 1K</th>
+                        <th className="py-3 text-right">Per Request</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.entries(DEFAULT_PRICE_TABLE).map(([model, price]) => (
+                        <tr key={model} className="border-t border-white/5 text-sm font-bold text-primary">
+                          <td className="py-3">{getModelInfo(model)?.label || model}</td>
+                          {(['inputPer1K', 'outputPer1K', 'perRequest'] as const).map(field => (
+                            <td key={field} className="py-2 pl-4">
+                              <input
+                                type="number"
+                                min="0"
+                                step="any"
+                                value={settings.modelPrices?.[model]?.[field] ?? ''}
+                                onChange={(e) => setModelPrice(model, field, e.target.value)}
+                                placeholder={String(price[field] ?? 0)}
+                                className="w-full bg-black/5 border border-white/10 rounded-xl px-3 py-2 text-right text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black"
+                              />
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Last 14 Days</h3>
+                  <div className="flex items-end h-40 gap-2">
+                    {summary.byDay.map(day => (
+                      <div key={day.day} className="flex-1 flex flex-col items-center justify-end h-full group" title={`${day.day}: ${formatCredits(day.credits)} credits, ${day.requests} requests`}>
+                        <div className="w-full rounded-t-lg bg-pink-500/70 group-hover:bg-pink-500 transition-all" style={{ height: `${(day.credits / peak) * 100}%`, minHeight: day.requests ? '4px' : '0' }}></div>
+                        <span className="mt-2 text-[8px] font-black text-secondary">{day.day.slice(8)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="glass-panel border rounded-[3rem] p-12 space-y-6 shadow-4xl">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">By Tool</h3>
+                  {summary.byTool.length === 0 ? (
+                    <p className="text-[10px] font-black uppercase tracking-widest text-secondary">No requests recorded yet</p>
+                  ) : (
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="text-[9px] font-black uppercase tracking-widest text-secondary">
+                          <th className="py-3">Tool</th>
+                          <th className="py-3 text-right">Requests</th>
+                          <th className="py-3 text-right">Input</th>
+                          <th className="py-3 text-right">Output</th>
+                          <th className="py-3 text-right">Credits</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {summary.byTool.map(row => (
+                          <tr key={row.tool} className="border-t border-white/5 text-sm font-bold text-primary">
+                            <td className="py-3">{TOOLS.find(t => t.id === row.tool)?.label || row.tool}</td>
+                            <td className="py-3 text-right">{row.requests}</td>
+                            <td className="py-3 text-right">{row.promptTokens.toLocaleString()}</td>
+                            <td className="py-3 text-right">{row.outputTokens.toLocaleString()}</td>
+                            <td className="py-3 text-right text-pink-500">{formatCredits(row.credits)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            );
+          })()}
+
+          {activeTab === 'storage' && (
+            <div className="space-y-10">
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Vault Storage</h3>
+                  <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">{storageStats.persisted ? 'Persistent' : 'Best Effort'}</span>
+                </div>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-secondary">
+                    <span>{formatBytes(storageStats.used)} used</span>
+                    <span>{storageStats.quota ? `${formatBytes(storageStats.quota)} available to this site` : 'Quota not reported by this browser'}</span>
+                  </div>
+                  <div className="h-2 rounded-full bg-black/10 overflow-hidden">
+                    <div className="h-full bg-pink-600 rounded-full" style={{ width: `${storageStats.quota ? Math.min(100, Math.max(1, storageStats.used / storageStats.quota * 100)) : 0}%` }}></div>
+                  </div>
+                </div>
+                {!storageStats.persisted && (
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 pt-6 border-t border-white/5">
+                    <p className="text-[10px] font-black uppercase tracking-widest text-secondary">The browser may clear the vault when the device runs low on space.</p>
+                    <button onClick={handlePersistStorage} className="px-8 py-3 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all shrink-0">
+                      <i className="fas fa-thumbtack mr-2"></i>Keep Vault
+                    </button>
+                  </div>
+                )}
+
+                <div className="space-y-4 pt-6 border-t border-white/5">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-xl font-bold text-primary">Folders &amp; Retention</h3>
+                    <p className="text-[9px] font-black uppercase tracking-widest text-secondary">Limits apply to your items; the newest and favourites are kept</p>
+                  </div>
+                  {VAULT_FOLDERS.map(folder => {
+                    const usage = storageBreakdown?.folders[folder.id];
+                    const rule = settings.retention?.[folder.id] || {};
+                    const limits: { field: keyof RetentionRule; label: string; value?: number }[] = [
+                      { field: 'maxItems', label: 'Items', value: rule.maxItems },
+                      { field: 'maxAgeDays', label: 'Days', value: rule.maxAgeDays },
+                      { field: 'maxBytes', label: 'MB', value: rule.maxBytes && Math.round(rule.maxBytes / 1024 / 1024) }
+                    ];
+                    return (
+                      <div key={folder.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 rounded-2xl bg-black/5 border border-white/5">
+                        <div className="flex items-center space-x-4">
+                          <i className={`fas ${folder.icon} ${folder.color} w-5 text-center`}></i>
+                          <div>
+                            <p className="text-[11px] font-black text-primary uppercase tracking-widest">{folder.name}</p>
+                            <p className="text-[9px] font-black text-secondary uppercase tracking-widest">{usage ? `${usage.count} items · ${formatBytes(usage.bytes)}` : 'Measuring...'}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {limits.map(limit => (
+                            <label key={limit.field} className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-secondary">
+                              <input
+                                type="number"
+                                min={0}
+                                placeholder="∞"
+                                value={limit.value || ''}
+                                onChange={(e) => setRetentionLimit(folder.id, limit.field, e.target.value)}
+                                className="w-16 bg-black/5 border border-white/10 rounded-xl px-3 py-2 text-primary text-[10px] font-black focus:outline-none focus:border-pink-500/50"
+                              />
+                              {limit.label}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div className="flex justify-end">
+                    <button onClick={handleRunCleanup} disabled={isCleaning} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                      {isCleaning ? <i className="fas fa-spinner fa-spin mr-3"></i> : <i className="fas fa-broom mr-3"></i>}
+                      Clean Up Now
+                    </button>
+                  </div>
+                </div>
+
+                {storageBreakdown && (
+                  <div className="space-y-4 pt-6 border-t border-white/5">
+                    <h3 className="text-xl font-bold text-primary">Profiles</h3>
+                    {Object.entries(storageBreakdown.users).sort(([, a], [, b]) => b.bytes - a.bytes).map(([namespace, usage]) => (
+                      <div key={namespace} className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                        <span className="text-primary">{namespace === GUEST_NAMESPACE ? 'Guest' : `@${namespace}`}{namespace === (user?.username || GUEST_NAMESPACE) ? ' · You' : ''}</span>
+                        <span className="text-secondary">{usage.count} items · {formatBytes(usage.bytes)}</span>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
+                      <span className="text-primary">Device</span>
+                      <span className="text-secondary">{formatBytes(storageBreakdown.shared)}</span>
+                    </div>
+                  </div>
+                )}
+
+                {storageStatus && (
+                  <p className={`text-[10px] font-black uppercase tracking-widest ${storageStatus.ok ? 'text-emerald-500' : 'text-red-500'}`}>{storageStatus.message}</p>
+                )}
+              </div>
+
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Vault Encryption</h3>
+                  <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">{vaultEncrypted ? 'AES-256-GCM · On' : 'Off'}</span>
+                </div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-secondary">
+                  Encrypts chats, memories and saved artifacts on this device with a key derived from your passphrase. The passphrase cannot be recovered — forgetting it loses the vault.
+                </p>
+
+                {!vaultEncrypted ? (
+                  <form onSubmit={(e) => { e.preventDefault(); runVaultTask(() => enableVaultEncryption(vaultForm.next), 'Vault encrypted.', true); }} className="space-y-4">
+                    {([{ field: 'next', label: 'Passphrase' }, { field: 'confirm', label: 'Confirm Passphrase' }] as const).map(input => (
+                      <input
+                        key={input.field}
+                        required
+                        type="password"
+                        autoComplete="new-password"
+                        placeholder={input.label.toUpperCase()}
+                        value={vaultForm[input.field]}
+                        onChange={(e) => setVaultForm({ ...vaultForm, [input.field]: e.target.value })}
+                        className="w-full bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                      />
+                    ))}
+                    <div className="flex justify-end">
+                      <button disabled={isVaultBusy} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                        {isVaultBusy ? <i className="fas fa-spinner fa-spin mr-3"></i> : <i className="fas fa-lock mr-3"></i>}
+                        Encrypt Vault
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <div className="space-y-8">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-6 pt-6 border-t border-white/5">
+                      <div className="space-y-1">
+                        <h3 className="text-xl font-bold text-primary">Auto-Lock</h3>
+                        <p className="text-[10px] font-black uppercase tracking-widest text-secondary">Forget the key after this long without input</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {[5, 15, 30, 60, 0].map(minutes => (
+                          <button
+                            key={minutes}
+                            onClick={() => update({ vaultAutoLockMinutes: minutes })}
+                            className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${(settings.vaultAutoLockMinutes ?? 15) === minutes ? 'bg-pink-600 text-white' : 'bg-black/5 text-secondary hover:text-primary'}`}
+                          >
+                            {minutes ? `${minutes}m` : 'Never'}
+                          </button>
+                        ))}
+                        <button onClick={() => { onPlaySound?.('click'); onLockVault(); }} className="ml-4 px-6 py-2 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all">
+                          <i className="fas fa-lock mr-2"></i>Lock Now
+                        </button>
+                      </div>
+                    </div>
+
+                    <form onSubmit={(e) => { e.preventDefault(); runVaultTask(() => rotateVaultKey(vaultForm.current, vaultForm.next), 'Key rotated and every record re-encrypted.', true); }} className="space-y-4 pt-6 border-t border-white/5">
+                      <h3 className="text-xl font-bold text-primary">Rotate Key</h3>
+                      {([
+                        { field: 'current', label: 'Current Passphrase', autoComplete: 'current-password' },
+                        { field: 'next', label: 'New Passphrase', autoComplete: 'new-password' },
+                        { field: 'confirm', label: 'Confirm New Passphrase', autoComplete: 'new-password' }
+                      ] as const).map(input => (
+                        <input
+                          key={input.field}
+                          required
+                          type="password"
+                          autoComplete={input.autoComplete}
+                          placeholder={input.label.toUpperCase()}
+                          value={vaultForm[input.field]}
+                          onChange={(e) => setVaultForm({ ...vaultForm, [input.field]: e.target.value })}
+                          className="w-full bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                        />
+                      ))}
+                      <div className="flex justify-end gap-4">
+                        <button
+                          type="button"
+                          disabled={isVaultBusy || !vaultForm.current}
+                          onClick={() => runVaultTask(() => disableVaultEncryption(vaultForm.current), 'Encryption removed; the vault is stored in the clear.')}
+                          className="px-8 py-4 bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30"
+                        >
+                          Remove Encryption
+                        </button>
+                        <button disabled={isVaultBusy} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                          {isVaultBusy && <i className="fas fa-spinner fa-spin mr-3"></i>}
+                          Rotate Key
+                        </button>
+                      </div>
+                    </form>
+                  </div>
+                )}
+
+                {vaultStatus && (
+                  <p className={`text-[10px] font-black uppercase tracking-widest ${vaultStatus.ok ? 'text-emerald-500' : 'text-red-500'}`}>{vaultStatus.message}</p>
+                )}
+              </div>
+
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Backup & Restore</h3>
+                  <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">Single Archive</span>
+                </div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-secondary">
+                  Archives hold this profile's data only. {vaultEncrypted ? 'Seal them with a passphrase, or they are written unencrypted.' : 'They are written unencrypted, so keep the file somewhere safe.'}
+                </p>
+
+                <div className="space-y-4 pt-6 border-t border-white/5">
+                  <h3 className="text-xl font-bold text-primary">Export</h3>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => { onPlaySound?.('click'); setBackupFolders(null); }}
+                      className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${backupFolders === null ? 'bg-pink-600 text-white' : 'bg-black/5 text-secondary hover:text-primary'}`}
+                    >
+                      Everything
+                    </button>
+                    {VAULT_FOLDERS.map(folder => (
+                      <button
+                        key={folder.id}
+                        onClick={() => toggleBackupFolder(folder.id)}
+                        className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${backupFolders?.includes(folder.id) ? 'bg-pink-600 text-white' : 'bg-black/5 text-secondary hover:text-primary'}`}
+                      >
+                        <i className={`fas ${folder.icon} mr-2`}></i>{folder.name}
+                      </button>
+                    ))}
+                  </div>
+                  {vaultEncrypted && (
+                    <div className="space-y-4">
+                      <button
+                        onClick={() => { onPlaySound?.('click'); setSealBackup(!sealBackup); }}
+                        className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${sealBackup ? 'bg-pink-600 text-white' : 'bg-black/5 text-secondary hover:text-primary'}`}
+                      >
+                        <i className="fas fa-lock mr-2"></i>Seal with Passphrase
+                      </button>
+                      {sealBackup && ([
+                        { field: 'next', label: 'Archive Passphrase' },
+                        { field: 'confirm', label: 'Confirm Archive Passphrase' }
+                      ] as const).map(input => (
+                        <input
+                          key={input.field}
+                          type="password"
+                          autoComplete="new-password"
+                          placeholder={input.label.toUpperCase()}
+                          value={sealForm[input.field]}
+                          onChange={(e) => setSealForm({ ...sealForm, [input.field]: e.target.value })}
+                          className="w-full bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex justify-end">
+                    <button onClick={handleExportVault} disabled={isBackupBusy} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                      <i className="fas fa-download mr-3"></i>Export Archive
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-4 pt-6 border-t border-white/5">
+                  <h3 className="text-xl font-bold text-primary">Import</h3>
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="flex gap-2">
+                      {(['merge', 'replace'] as const).map(mode => (
+                        <button
+                          key={mode}
+                          onClick={() => { onPlaySound?.('click'); setImportMode(mode); }}
+                          className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${importMode === mode ? 'bg-pink-600 text-white' : 'bg-black/5 text-secondary hover:text-primary'}`}
+                        >
+                          {mode}
+                        </button>
+                      ))}
+                    </div>
+                    <button onClick={() => backupInputRef.current?.click()} disabled={isBackupBusy} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                      {isBackupBusy ? <i className="fas fa-spinner fa-spin mr-3"></i> : <i className="fas fa-upload mr-3"></i>}
+                      Choose Archive
+                    </button>
+                    <input type="file" ref={backupInputRef} onChange={handleImportFile} accept=".backup" className="hidden" />
+                  </div>
+                  {sealedImport && (
+                    <form onSubmit={(e) => { e.preventDefault(); importArchive(sealedImport, importPassphrase); }} className="flex flex-col md:flex-row gap-4">
+                      <input
+                        required
+                        type="password"
+                        autoComplete="off"
+                        placeholder="ARCHIVE PASSPHRASE"
+                        value={importPassphrase}
+                        onChange={(e) => setImportPassphrase(e.target.value)}
+                        className="flex-1 bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => { setSealedImport(null); setImportPassphrase(''); setBackupStatus(null); }}
+                        className="px-8 py-4 bg-black/5 text-secondary hover:text-primary text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all"
+                      >
+                        Cancel
+                      </button>
+                      <button disabled={isBackupBusy || !importPassphrase} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                        <i className="fas fa-unlock mr-3"></i>Unlock & Import
+                      </button>
+                    </form>
+                  )}
+                  <p className="text-[9px] font-black uppercase tracking-widest text-secondary">
+                    {importMode === 'merge'
+                      ? 'Merge keeps one copy of each item by id, preferring the most recently modified.'
+                      : 'Replace overwrites every record contained in the archive. Other records are kept.'}
+                  </p>
+                </div>
+
+                {backupStatus && (
+                  <p className={`text-[10px] font-black uppercase tracking-widest ${backupStatus.ok ? 'text-emerald-500' : 'text-red-500'}`}>{backupStatus.message}</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'account' && (
+            <div className="space-y-10">
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-8 shadow-4xl">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Active Profile</h3>
+                  <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">{user ? 'Linked' : 'Guest Mode'}</span>
+                </div>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+                  <div className="flex items-center space-x-6">
+                    <div className="w-20 h-20 rounded-[2rem] overflow-hidden border border-white/20 shadow-xl">
+                      <img src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${user?.username || 'Guest'}`} alt="avatar" />
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-2xl font-black text-primary tracking-tight">{user ? (user.fullName || user.name) : 'Guest'}</p>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-secondary">{user ? `@${user.username} · ${formatCredits(user.credit ?? 0)} credits` : 'Chats stay on this device until you sign in'}</p>
+                    </div>
+                  </div>
+                  {user ? (
+                    <button onClick={onLogout} className="px-10 py-4 bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all">
+                      Sign Out
+                    </button>
+                  ) : (
+                    <button onClick={onOpenAuth} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all">
+                      Sign In
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {user && (
+                <form onSubmit={handleChangePassword} className="glass-panel border rounded-[3rem] p-12 space-y-6 shadow-4xl">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-2xl font-black text-primary tracking-tight">Change Security Key</h3>
+                    <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.4em]">Salted & Hashed</span>
+                  </div>
+                  <p className="text-[10px] font-black uppercase tracking-widest text-secondary">At least {MIN_PASSWORD_LENGTH} characters. Only a hash is stored on this device.</p>
+                  {([
+                    { field: 'current', label: 'Current Key', autoComplete: 'current-password' },
+                    { field: 'next', label: 'New Key', autoComplete: 'new-password' },
+                    { field: 'confirm', label: 'Confirm New Key', autoComplete: 'new-password' }
+                  ] as const).map(input => (
+                    <input
+                      key={input.field}
+                      required
+                      type="password"
+                      autoComplete={input.autoComplete}
+                      placeholder={input.label.toUpperCase()}
+                      value={passwordForm[input.field]}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, [input.field]: e.target.value })}
+                      className="w-full bg-black/5 border border-white/10 rounded-[1.5rem] px-6 py-4 text-primary focus:outline-none focus:border-pink-500/50 text-[11px] font-black tracking-widest"
+                    />
+                  ))}
+                  <div className="flex items-center justify-between gap-4">
+                    <p className={`text-[10px] font-black uppercase tracking-widest ${passwordStatus?.ok ? 'text-emerald-500' : 'text-red-500'}`}>{passwordStatus?.message}</p>
+                    <button disabled={isChangingPassword} className="px-10 py-4 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all disabled:opacity-30 flex items-center">
+                      {isChangingPassword && <i className="fas fa-spinner fa-spin mr-3"></i>}
+                      Update Key
+                    </button>
+                  </div>
+                </form>
+              )}
+
+              <div className="glass-panel border rounded-[3rem] p-12 space-y-6 shadow-4xl">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-2xl font-black text-primary tracking-tight">Profiles On This Device</h3>
+                  <button onClick={onOpenAuth} className="px-6 py-3 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all">
+                    <i className="fas fa-plus mr-2"></i>Add Profile
+                  </button>
+                </div>
+                <p className="text-[10px] font-black uppercase tracking-widest text-secondary">Each profile keeps its own chats, memories and settings. Sessions expire after 30 days without use.</p>
+                {(() => {
+                  const profiles = getDeviceProfiles();
+                  if (profiles.length === 0) return <p className="text-[10px] font-black uppercase tracking-widest text-secondary">No profiles signed in yet</p>;
+                  return (
+                    <div className="space-y-3">
+                      {profiles.map(profile => (
+                        <div key={profile.user.username} className="flex items-center justify-between gap-4 p-5 rounded-[2rem] border border-white/5 bg-black/5">
+                          <div className="flex items-center space-x-4">
+                            <div className="w-12 h-12 rounded-2xl overflow-hidden border border-white/20">
+                              <img src={`https://api.dicebear.com/7.x/avataaars/svg?seed=${profile.user.username}`} alt="avatar" />
+                            </div>
+                            <div>
+                              <p className="text-sm font-bold text-primary">{profile.user.fullName || profile.user.name}</p>
+                              <p className="text-[9px] font-black uppercase tracking-widest text-secondary">
+                                @{profile.user.username} · {profile.session ? `Signed in ${new Date(profile.session.signedInAt).toLocaleDateString()}` : 'Session expired'}
+                              </p>
+                            </div>
+                          </div>
+                          {profile.active && user ? (
+                            <span className="text-[9px] font-black uppercase tracking-widest text-pink-500">Active</span>
+                          ) : (
+                            <button onClick={() => onSwitchProfile(profile.user.username)} className="px-6 py-3 bg-pink-500/10 hover:bg-pink-600 text-pink-600 hover:text-white text-[10px] font-black uppercase tracking-widest rounded-[1.5rem] transition-all">
+                              {profile.session ? 'Switch' : 'Sign In'}
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })()}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,41 +1,101 @@
-
-import React, { useState, useEffect, useMemo } from 'react';
-import { getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { VAULT_FOLDERS } from '../services/vaultFolders';
+import { repositoryFor, moveArtifacts } from '../services/artifactRepository';
+import { searchIndex } from '../services/searchIndex';
+import { useSemanticSearch } from '../hooks/useSemanticSearch';
+import { ArtifactStore } from '../services/storageService';
+import { AppView, Artifact, ArtifactType } from '../types';
+import VaultMedia from '../components/VaultMedia';
 
 interface VaultItem {
+  key: string; // Folder and id; ids are only unique within a folder
+  artifact: Artifact<any>; // Kept whole so edits write back fields the explorer never shows
   id: string;
-  title?: string;
-  prompt?: string;
-  content?: string; 
+  title: string;
+  content?: string;
+  media?: Blob | string; // Image or video, as a vault Blob or (older entries) a URL
+  thumbnail?: Blob;
   code?: string;
   lang?: string;
   timestamp: number;
-  type: 'image' | 'doc' | 'code' | 'video' | 'app' | 'analysis';
+  kind: 'image' | 'video' | 'code' | 'text';
   folderId: string;
   subCategory?: string;
+  tags: string[];
+  favorite: boolean;
 }
 
+type SortOrder = 'newest' | 'oldest' | 'title';
+
+const TYPE_LABELS: Record<ArtifactType, string> = {
+  image: 'Image',
+  drawing: 'Drawing',
+  document: 'Document',
+  code: 'Code',
+  api: 'API',
+  video: 'Video',
+  app: 'App Build',
+  'apk-analysis': 'APK Analysis',
+  'self-scan': 'Self-Scan'
+};
+
+const kindOf = (type: ArtifactType): VaultItem['kind'] =>
+  type === 'image' || type === 'drawing' ? 'image' : type === 'video' ? 'video' : type === 'code' || type === 'api' || type === 'app' ? 'code' : 'text';
+
+const toVaultItem = (artifact: Artifact<any>, folderId: string): VaultItem => {
+  const kind = kindOf(artifact.type);
+  return {
+    key: `${folderId}:${artifact.id}`,
+    artifact,
+    id: artifact.id,
+    timestamp: artifact.timestamp,
+    folderId,
+    kind,
+    content: artifact.content || artifact.uri || artifact.code,
+    media: artifact.blob || artifact.uri || (kind === 'image' ? artifact.content : undefined),
+    thumbnail: artifact.thumbnail,
+    title: artifact.title || artifact.prompt || 'Neural Node',
+    code: artifact.code,
+    lang: artifact.lang || artifact.stack,
+    subCategory: artifact.subCategory || (artifact.type === 'api' ? 'API' : undefined),
+    tags: Array.isArray(artifact.tags) ? artifact.tags : [],
+    favorite: !!artifact.favorite
+  };
+};
+
+const folderOf = (id: string) => VAULT_FOLDERS.find(f => f.id === id)!;
+
+// Groups items by folder, since every write goes through that folder's store.
+const byFolder = (items: VaultItem[]) => {
+  const groups = new Map<string, VaultItem[]>();
+  items.forEach(item => groups.set(item.folderId, [...(groups.get(item.folderId) || []), item]));
+  return [...groups.entries()];
+};
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
 interface VaultExplorerViewProps {
   onViewChange: (view: AppView) => void;
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
+  focusArtifact?: { store: ArtifactStore; artifactId: string } | null; // Opened once loaded, e.g. from the search palette
 }
 
-const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onPlaySound }) => {
+const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onPlaySound, focusArtifact }) => {
   const [activeFolderId, setActiveFolderId] = useState<string | null>(null);
   const [allData, setAllData] = useState<VaultItem[]>([]);
   const [loading, setLoading] = useState(false);
-  const [previewItem, setPreviewItem] = useState<VaultItem | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-
-  const folderConfigs = [
-    { id: 'app_builds', name: 'App Build', icon: 'fa-cube', color: 'text-emerald-400', bg: 'bg-emerald-400/5', vaultKeys: ['neural_app_vault'] },
-    { id: 'app_analysis', name: 'App Analysis', icon: 'fa-microchip', color: 'text-blue-400', bg: 'bg-blue-400/5', vaultKeys: ['neural_apk_analysis_history'] },
-    { id: 'images', name: 'Visual Assets', icon: 'fa-images', color: 'text-rose-500', bg: 'bg-rose-500/5', vaultKeys: ['neural_image_gallery', 'neural_drawing_gallery'] },
-    { id: 'docs', name: 'File Analysis', icon: 'fa-file-signature', color: 'text-blue-500', bg: 'bg-blue-500/5', vaultKeys: ['neural_analysis_history'] },
-    { id: 'code', name: 'Source Repositories', icon: 'fa-code-branch', color: 'text-emerald-500', bg: 'bg-emerald-500/5', vaultKeys: ['neural_code_repo', 'neural_api_vault'] },
-    { id: 'video', name: 'Motion Media', icon: 'fa-film', color: 'text-amber-500', bg: 'bg-amber-500/5', vaultKeys: ['neural_video_history'] },
-  ];
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [typeFilter, setTypeFilter] = useState<ArtifactType | 'all'>('all');
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [titleDraft, setTitleDraft] = useState('');
+  const [tagDraft, setTagDraft] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchAllVaultData();
@@ -44,59 +104,199 @@ const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onP
   const fetchAllVaultData = async () => {
     setLoading(true);
     const aggregated: VaultItem[] = [];
-    
-    const promises = folderConfigs.flatMap(config => 
-      config.vaultKeys.map(async key => {
-        try {
-          const data = await getFromVault(key);
-          if (Array.isArray(data)) {
-            return data.map((item: any) => ({
-              id: item.id || Math.random().toString(),
-              timestamp: item.timestamp || Date.now(),
-              folderId: config.id,
-              type: config.id as any,
-              content: item.content || item.uri || item.code,
-              prompt: item.prompt,
-              title: item.title,
-              code: item.code,
-              lang: item.lang || item.stack,
-              subCategory: item.subCategory || (key === 'neural_api_vault' ? 'API' : undefined)
-            }));
-          }
-        } catch (e) { return []; }
-        return [];
-      })
-    );
+
+    const promises = VAULT_FOLDERS.map(async config => {
+      try {
+        const artifacts = await repositoryFor(config.store).list();
+        return artifacts.map(item => toVaultItem(item, config.id));
+      } catch (e) { return []; }
+    });
 
     const results = await Promise.all(promises);
     results.forEach(res => { if(res) aggregated.push(...res); });
-    
+
     setAllData(aggregated.sort((a, b) => b.timestamp - a.timestamp));
     setLoading(false);
   };
 
+  // Opens the focused item once; later reloads must not reopen a preview the user closed.
+  const focusedRef = useRef<typeof focusArtifact>(null);
+  useEffect(() => {
+    if (!focusArtifact || focusedRef.current === focusArtifact) return;
+    const folder = VAULT_FOLDERS.find(f => f.store === focusArtifact.store);
+    const item = folder && allData.find(i => i.key === `${folder.id}:${focusArtifact.artifactId}`);
+    if (!item) return;
+    focusedRef.current = focusArtifact;
+    setPreviewKey(item.key);
+  }, [focusArtifact, allData]);
+
+  const similar = useSemanticSearch(searchQuery, 'artifact');
+
   const filteredItems = useMemo(() => {
     let base = activeFolderId ? allData.filter(i => i.folderId === activeFolderId) : allData;
-    if (!searchQuery.trim()) return base;
-    const q = searchQuery.toLowerCase();
-    return base.filter(item => 
-      (item.prompt?.toLowerCase().includes(q)) || 
-      (item.title?.toLowerCase().includes(q)) || 
-      (item.lang?.toLowerCase().includes(q))
-    );
-  }, [allData, activeFolderId, searchQuery]);
+    if (typeFilter !== 'all') base = base.filter(i => i.artifact.type === typeFilter);
+    if (favoritesOnly) base = base.filter(i => i.favorite);
+    if (tagFilter) base = base.filter(i => i.tags.includes(tagFilter));
+    if (dateRange.from) base = base.filter(i => i.timestamp >= dayStart(dateRange.from));
+    if (dateRange.to) base = base.filter(i => i.timestamp < dayStart(dateRange.to) + 86400000);
+    if (searchQuery.trim()) {
+      // Items that match the words, or through semantic search the meaning.
+      const matches = new Set([...searchIndex.search(searchQuery, { kind: 'artifact', limit: allData.length }), ...similar].map(result => result.id));
+      base = base.filter(item => matches.has(`artifact:${folderOf(item.folderId).store}:${item.id}`));
+    }
+    const sorted = [...base];
+    if (sortOrder === 'oldest') sorted.sort((a, b) => a.timestamp - b.timestamp);
+    else if (sortOrder === 'title') sorted.sort((a, b) => a.title.localeCompare(b.title));
+    else sorted.sort((a, b) => b.timestamp - a.timestamp);
+    return sorted;
+  }, [allData, activeFolderId, searchQuery, similar, typeFilter, favoritesOnly, tagFilter, dateRange, sortOrder]);
+
+  const availableTypes = useMemo(() => {
+    const scope = activeFolderId ? allData.filter(i => i.folderId === activeFolderId) : allData;
+    return [...new Set(scope.map(i => i.artifact.type))];
+  }, [allData, activeFolderId]);
+
+  const activeConfig = VAULT_FOLDERS.find(c => c.id === activeFolderId);
+  const previewItem = allData.find(i => i.key === previewKey) || null;
+  const selectedItems = allData.filter(i => selected.has(i.key));
+  const isFiltering = typeFilter !== 'all' || favoritesOnly || !!tagFilter || !!dateRange.from || !!dateRange.to;
+
+  useEffect(() => {
+    setTitleDraft(previewItem?.title || '');
+    setTagDraft('');
+  }, [previewKey]);
+
+  /**
+   * Runs a vault write and reports failures (e.g. a locked vault) instead of leaving the UI out of step.
+   */
+  const runAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setActionError(err.message || 'The vault could not be updated.');
+    }
+  };
+
+  const replaceItems = (updated: VaultItem[]) => {
+    const byKey = new Map(updated.map(item => [item.key, item]));
+    setAllData(prev => prev.map(item => byKey.get(item.key) || item));
+  };
+
+  const editItems = (items: VaultItem[], changes: (item: VaultItem) => Record<string, any>) => runAction(async () => {
+    const updated: VaultItem[] = [];
+    for (const [folderId, group] of byFolder(items)) {
+      const repository = repositoryFor(folderOf(folderId).store);
+      for (const item of group) {
+        const artifact = await repository.update(item.id, changes(item));
+        if (artifact) updated.push(toVaultItem(artifact, folderId));
+      }
+    }
+    replaceItems(updated);
+  });
+
+  const deleteItems = (items: VaultItem[]) => {
+    if (!items.length || !window.confirm(`Delete ${items.length === 1 ? 'this item' : `${items.length} items`} from the vault? This cannot be undone.`)) return;
+    onPlaySound?.('outside');
+    return runAction(async () => {
+      for (const [folderId, group] of byFolder(items)) {
+        await repositoryFor(folderOf(folderId).store).remove(group.map(item => item.id));
+      }
+      const removed = new Set(items.map(item => item.key));
+      setAllData(prev => prev.filter(i => !removed.has(i.key)));
+      setSelected(new Set());
+      if (previewKey && removed.has(previewKey)) setPreviewKey(null);
+    });
+  };
+
+  const moveItems = (items: VaultItem[], targetFolderId: string) => {
+    const target = folderOf(targetFolderId);
+    const moving = items.filter(item => item.folderId !== targetFolderId);
+    if (!moving.length) return;
+    // Tools list their own types only, so an item moved into another tool's folder drops out of both tools.
+    const hidden = moving.filter(item => !target.types.includes(item.artifact.type)).length;
+    if (hidden && !window.confirm(`${hidden === moving.length ? (hidden === 1 ? 'This item' : 'These items') : `${hidden} of these items`} will only show here in the Vault Explorer after the move, not in any tool. Move to ${target.name} anyway?`)) return;
+    onPlaySound?.('click');
+    return runAction(async () => {
+      const moved = new Map<string, VaultItem>();
+      for (const [folderId, group] of byFolder(moving)) {
+        const placedIds = await moveArtifacts(folderOf(folderId).store, target.store, group.map(item => item.id));
+        // An id already taken in the target folder was replaced, so later edits must use the new one.
+        group.forEach(item => {
+          const id = placedIds.get(item.id);
+          if (id) moved.set(item.key, toVaultItem({ ...item.artifact, id }, targetFolderId));
+        });
+      }
+      setAllData(prev => prev.map(item => moved.get(item.key) || item));
+      setSelected(new Set());
+      if (previewKey && moved.has(previewKey)) setPreviewKey(moved.get(previewKey)!.key);
+    });
+  };
+
+  const toggleFavorite = (items: VaultItem[]) => {
+    onPlaySound?.('click');
+    const favorite = !items.every(item => item.favorite);
+    return editItems(items, () => ({ favorite }));
+  };
+
+  const addTag = (items: VaultItem[], raw: string) => {
+    const tag = raw.trim().toLowerCase();
+    if (!tag) return;
+    onPlaySound?.('click');
+    return editItems(items.filter(item => !item.tags.includes(tag)), item => ({ tags: [...item.tags, tag] }));
+  };
 
-  const activeConfig = folderConfigs.find(c => c.id === activeFolderId);
+  const removeTag = (item: VaultItem, tag: string) => editItems([item], () => ({ tags: item.tags.filter(t => t !== tag) }));
+
+  const renameItem = (item: VaultItem) => {
+    const title = titleDraft.trim();
+    if (!title || title === item.title) return;
+    return editItems([item], () => ({ title }));
+  };
+
+  const toggleSelected = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleItemClick = (item: VaultItem) => {
+    onPlaySound?.('click');
+    if (selectMode) toggleSelected(item.key);
+    else setPreviewKey(item.key);
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelected(new Set());
+  };
+
+  const clearFilters = () => {
+    onPlaySound?.('click');
+    setTypeFilter('all');
+    setFavoritesOnly(false);
+    setTagFilter(null);
+    setDateRange({ from: '', to: '' });
+  };
 
   const handleBack = () => {
     onPlaySound?.('click');
-    if (activeFolderId) setActiveFolderId(null);
+    exitSelectMode();
+    if (activeFolderId) {
+      setActiveFolderId(null);
+      setTypeFilter('all');
+    }
     else onViewChange(AppView.CHAT);
   };
 
+  const showingItems = !!activeFolderId || !!searchQuery || isFiltering;
+
   return (
     <div className="h-full w-full bg-transparent p-10 overflow-hidden flex flex-col animate-in fade-in duration-500 relative">
-      <button 
+      <button
         onClick={handleBack}
         className="fixed top-8 left-32 z-[100] flex items-center space-x-3 px-6 py-3 bg-white/5 border border-white/10 rounded-2xl text-primary/60 hover:text-white hover:bg-white/10 hover:border-white/20 transition-all backdrop-blur-3xl group shadow-2xl"
       >
@@ -113,31 +313,119 @@ const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onP
               {activeConfig ? activeConfig.name : 'Neural Vault'}
             </h2>
             <p className="text-[11px] font-black text-gray-600 uppercase tracking-[0.5em] mt-4">
-               {allData.length} Nodes Indexed
+               {loading ? 'Indexing...' : `${allData.length} Nodes Indexed`}
             </p>
           </div>
 
           <div className="relative group w-80">
             <i className="fas fa-search absolute left-6 top-1/2 -translate-y-1/2 text-gray-700 text-xs"></i>
-            <input 
-              type="text" 
-              placeholder="Search assets..." 
+            <input
+              type="text"
+              placeholder="Search assets..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="w-full bg-white/5 border border-white/10 rounded-3xl py-5 pl-14 pr-8 text-[11px] font-black uppercase tracking-widest text-white focus:outline-none focus:border-pink-500/30 transition-all"
             />
           </div>
         </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className="bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none"
+          >
+            <option value="newest">Newest First</option>
+            <option value="oldest">Oldest First</option>
+            <option value="title">Title A–Z</option>
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as ArtifactType | 'all')}
+            className="bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none"
+          >
+            <option value="all">All Types</option>
+            {availableTypes.map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+          </select>
+          <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-2xl px-4 py-2 text-[10px] font-black uppercase tracking-widest text-gray-500">
+            <span>From</span>
+            <input type="date" value={dateRange.from} onChange={(e) => setDateRange({ ...dateRange, from: e.target.value })} className="bg-transparent text-white focus:outline-none" />
+            <span>To</span>
+            <input type="date" value={dateRange.to} onChange={(e) => setDateRange({ ...dateRange, to: e.target.value })} className="bg-transparent text-white focus:outline-none" />
+          </div>
+          <button
+            onClick={() => { onPlaySound?.('click'); setFavoritesOnly(!favoritesOnly); }}
+            className={`px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${favoritesOnly ? 'bg-amber-500/20 border-amber-500/40 text-amber-400' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+          >
+            <i className="fas fa-star mr-2"></i>Favourites
+          </button>
+          {tagFilter && (
+            <button onClick={() => setTagFilter(null)} className="px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest bg-pink-500/20 border border-pink-500/40 text-pink-400">
+              #{tagFilter}<i className="fas fa-times ml-2"></i>
+            </button>
+          )}
+          {isFiltering && (
+            <button onClick={clearFilters} className="px-4 py-3 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-all">Clear Filters</button>
+          )}
+          {showingItems && (
+            <button
+              onClick={() => { onPlaySound?.('click'); selectMode ? exitSelectMode() : setSelectMode(true); }}
+              className={`ml-auto px-6 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${selectMode ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+            >
+              {selectMode ? 'Done' : 'Select'}
+            </button>
+          )}
+        </div>
+
+        {selectMode && (
+          <div className="flex flex-wrap items-center gap-3 p-4 bg-white/[0.03] border border-white/10 rounded-[2rem]">
+            <span className="text-[10px] font-black uppercase tracking-widest text-white px-2">{selected.size} Selected</span>
+            <button onClick={() => setSelected(new Set(filteredItems.map(i => i.key)))} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-all">All</button>
+            <button onClick={() => setSelected(new Set())} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:text-white transition-all">None</button>
+            <div className="flex-1"></div>
+            <button disabled={!selected.size} onClick={() => toggleFavorite(selectedItems)} className="px-4 py-2 rounded-xl bg-amber-500/10 text-amber-400 text-[10px] font-black uppercase tracking-widest disabled:opacity-30 transition-all">
+              <i className="fas fa-star mr-2"></i>Favourite
+            </button>
+            <input
+              disabled={!selected.size}
+              placeholder="ADD TAG + ENTER"
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') { addTag(selectedItems, tagDraft); setTagDraft(''); } }}
+              className="w-40 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none disabled:opacity-30"
+            />
+            <select
+              disabled={!selected.size}
+              value=""
+              onChange={(e) => moveItems(selectedItems, e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none disabled:opacity-30"
+            >
+              <option value="" disabled>Move To...</option>
+              {VAULT_FOLDERS.map(folder => (
+                <option key={folder.id} value={folder.id}>
+                  {folder.name}{selectedItems.some(item => !folder.types.includes(item.artifact.type)) ? ' (Explorer only)' : ''}
+                </option>
+              ))}
+            </select>
+            <button disabled={!selected.size} onClick={() => deleteItems(selectedItems)} className="px-4 py-2 rounded-xl bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-30 transition-all">
+              <i className="fas fa-trash mr-2"></i>Delete
+            </button>
+          </div>
+        )}
+
+        {actionError && (
+          <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{actionError}</p>
+        )}
       </div>
 
       <div className="flex-1 overflow-y-auto custom-scrollbar pr-4">
-        {!activeFolderId && !searchQuery ? (
+        {!showingItems ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
-            {folderConfigs.map((folder) => {
+            {VAULT_FOLDERS.map((folder) => {
               const itemCount = allData.filter(i => i.folderId === folder.id).length;
               return (
-                <button 
-                  key={folder.id} 
+                <button
+                  key={folder.id}
                   onClick={() => { onPlaySound?.('click'); setActiveFolderId(folder.id); }}
                   className="group relative bg-white/[0.02] border border-white/5 rounded-[4rem] p-12 text-left hover:bg-white/[0.04] hover:border-white/20 transition-all duration-500 h-80 flex flex-col shadow-4xl overflow-hidden"
                 >
@@ -160,25 +448,41 @@ const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onP
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5 gap-8">
             {filteredItems.map((item) => (
-              <div 
-                key={item.id} 
-                onClick={() => { onPlaySound?.('click'); setPreviewItem(item); }}
-                className="group bg-white/[0.02] border border-white/10 rounded-[2.5rem] p-6 cursor-pointer hover:border-white/30 hover:bg-white/[0.04] transition-all flex flex-col aspect-[4/5] shadow-2xl"
+              <div
+                key={item.key}
+                onClick={() => handleItemClick(item)}
+                className={`group relative bg-white/[0.02] border rounded-[2.5rem] p-6 cursor-pointer hover:bg-white/[0.04] transition-all flex flex-col aspect-[4/5] shadow-2xl ${selected.has(item.key) ? 'border-pink-500/60' : 'border-white/10 hover:border-white/30'}`}
               >
+                {selectMode && (
+                  <div className={`absolute top-4 left-4 z-10 w-7 h-7 rounded-xl border flex items-center justify-center ${selected.has(item.key) ? 'bg-pink-600 border-pink-400 text-white' : 'bg-black/60 border-white/20 text-transparent'}`}>
+                    <i className="fas fa-check text-[10px]"></i>
+                  </div>
+                )}
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggleFavorite([item]); }}
+                  className={`absolute top-4 right-4 z-10 w-8 h-8 rounded-xl bg-black/60 flex items-center justify-center transition-all ${item.favorite ? 'text-amber-400' : 'text-white/20 opacity-0 group-hover:opacity-100 hover:text-amber-400'}`}
+                >
+                  <i className="fas fa-star text-[11px]"></i>
+                </button>
                 <div className="flex-1 rounded-[1.5rem] bg-black/40 overflow-hidden mb-6 border border-white/5 relative">
-                  {item.folderId === 'images' ? <img src={item.content} className="w-full h-full object-cover" alt="thumb" /> :
+                  {item.kind === 'image' || (item.kind === 'video' && item.thumbnail) ? <VaultMedia source={item.thumbnail || item.media} className="w-full h-full object-cover" alt="thumb" /> :
                    <div className="w-full h-full flex flex-col items-center justify-center opacity-30">
-                     <i className={`fas ${item.folderId === 'code' ? 'fa-code' : item.folderId === 'video' ? 'fa-film' : item.folderId === 'app_builds' ? 'fa-cube' : item.folderId === 'app_analysis' ? 'fa-microchip' : 'fa-file-lines'} text-4xl`}></i>
+                     <i className={`fas ${item.kind === 'video' ? 'fa-film' : item.artifact.type === 'app' ? 'fa-cube' : item.kind === 'code' ? 'fa-code' : item.folderId === 'app_analysis' ? 'fa-microchip' : 'fa-file-lines'} text-4xl`}></i>
                    </div>}
                 </div>
-                <p className="text-[12px] font-black text-white truncate uppercase tracking-tight mb-1">{item.prompt || item.title || 'Neural Node'}</p>
-                <p className="text-[9px] font-black text-emerald-500 uppercase tracking-widest mb-2">{item.subCategory || item.lang || 'Archive'}</p>
+                <p className="text-[12px] font-black text-white truncate uppercase tracking-tight mb-1">{item.title}</p>
+                <p className="text-[9px] font-black text-emerald-500 uppercase tracking-widest mb-2 truncate">
+                  {item.subCategory || item.lang || 'Archive'}{item.tags.length ? ` · ${item.tags.map(t => `#${t}`).join(' ')}` : ''}
+                </p>
                 <div className="flex items-center justify-between opacity-30 text-[9px] font-black uppercase tracking-widest">
                   <span>{new Date(item.timestamp).toLocaleDateString()}</span>
                   <span>ID: {item.id.slice(-4)}</span>
                 </div>
               </div>
             ))}
+            {!loading && !filteredItems.length && (
+              <p className="col-span-full text-center py-20 text-[10px] font-black uppercase tracking-[0.4em] text-gray-700">No assets match</p>
+            )}
           </div>
         )}
       </div>
@@ -186,29 +490,70 @@ const VaultExplorerView: React.FC<VaultExplorerViewProps> = ({ onViewChange, onP
       {previewItem && (
         <div className="fixed inset-0 z-[600] flex items-center justify-center bg-black/95 backdrop-blur-3xl p-10 animate-in fade-in duration-300">
            <div className="w-full max-w-5xl bg-[#080808] rounded-[4rem] border border-white/10 shadow-4xl flex flex-col max-h-[90vh] overflow-hidden relative">
-              <button onClick={() => { onPlaySound?.('outside'); setPreviewItem(null); }} className="absolute top-10 right-10 w-16 h-16 rounded-[1.8rem] bg-white/5 hover:bg-white/10 text-white transition-all flex items-center justify-center z-10">
+              <button onClick={() => { onPlaySound?.('outside'); setPreviewKey(null); }} className="absolute top-10 right-10 w-16 h-16 rounded-[1.8rem] bg-white/5 hover:bg-white/10 text-white transition-all flex items-center justify-center z-10">
                 <i className="fas fa-times text-xl"></i>
               </button>
               <div className="flex-1 overflow-y-auto custom-scrollbar p-16 md:p-24">
                  <div className="max-w-3xl mx-auto space-y-12">
                     <div>
                        <span className="text-[10px] font-black text-pink-500 uppercase tracking-[0.5em] mb-4 block">Archive Record</span>
-                       <h2 className="text-4xl font-black text-white tracking-tighter leading-tight mb-4">
-                         {previewItem.prompt || previewItem.title || 'Neural Asset'}
-                       </h2>
+                       <div className="flex items-center gap-4 mb-4">
+                         <input
+                           value={titleDraft}
+                           onChange={(e) => setTitleDraft(e.target.value)}
+                           onBlur={() => renameItem(previewItem)}
+                           onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                           className="flex-1 bg-transparent border-b border-transparent hover:border-white/10 focus:border-pink-500/40 text-4xl font-black text-white tracking-tighter leading-tight focus:outline-none transition-all"
+                         />
+                         <button onClick={() => toggleFavorite([previewItem])} className={`w-12 h-12 rounded-2xl bg-white/5 flex items-center justify-center transition-all ${previewItem.favorite ? 'text-amber-400' : 'text-gray-600 hover:text-amber-400'}`}>
+                           <i className="fas fa-star"></i>
+                         </button>
+                       </div>
                        <div className="flex items-center space-x-6">
-                         <p className="text-[10px] font-black text-emerald-500 uppercase tracking-widest">{previewItem.subCategory}</p>
+                         <p className="text-[10px] font-black text-emerald-500 uppercase tracking-widest">{previewItem.subCategory || TYPE_LABELS[previewItem.artifact.type]}</p>
                          <div className="w-1.5 h-1.5 rounded-full bg-white/10"></div>
                          <p className="text-[10px] font-black text-gray-700 uppercase tracking-widest">Logged: {new Date(previewItem.timestamp).toLocaleString()}</p>
                        </div>
+                       <div className="flex flex-wrap items-center gap-2 mt-6">
+                         {previewItem.tags.map(tag => (
+                           <span key={tag} className="flex items-center px-3 py-1.5 rounded-xl bg-pink-500/10 text-pink-400 text-[10px] font-black uppercase tracking-widest">
+                             <button onClick={() => { setTagFilter(tag); setPreviewKey(null); }}>#{tag}</button>
+                             <button onClick={() => removeTag(previewItem, tag)} className="ml-2 opacity-50 hover:opacity-100"><i className="fas fa-times"></i></button>
+                           </span>
+                         ))}
+                         <input
+                           placeholder="ADD TAG"
+                           value={tagDraft}
+                           onChange={(e) => setTagDraft(e.target.value)}
+                           onKeyDown={(e) => { if (e.key === 'Enter') { addTag([previewItem], tagDraft); setTagDraft(''); } }}
+                           className="w-32 bg-white/5 border border-white/10 rounded-xl px-3 py-1.5 text-[10px] font-black uppercase tracking-widest text-white focus:outline-none"
+                         />
+                       </div>
                     </div>
                     <div className="bg-black/40 rounded-[3rem] border border-white/5 overflow-hidden shadow-inner">
-                       {previewItem.folderId === 'images' ? <img src={previewItem.content} className="w-full h-auto" alt="p" /> :
-                        previewItem.folderId === 'code' || previewItem.folderId === 'app_builds' ? <pre className="p-12 text-emerald-400 font-mono text-sm leading-relaxed whitespace-pre-wrap">{previewItem.code || previewItem.content}</pre> :
-                        previewItem.folderId === 'video' ? <video src={previewItem.content} controls autoPlay className="w-full" /> :
+                       {previewItem.kind === 'image' ? <VaultMedia source={previewItem.media} className="w-full h-auto" alt="p" /> :
+                        previewItem.kind === 'code' ? <pre className="p-12 text-emerald-400 font-mono text-sm leading-relaxed whitespace-pre-wrap">{previewItem.code || previewItem.content}</pre> :
+                        previewItem.kind === 'video' ? <VaultMedia kind="video" source={previewItem.media} controls autoPlay className="w-full" /> :
                         <div className="p-12 text-gray-200 text-lg leading-loose whitespace-pre-wrap">{previewItem.content}</div>}
                     </div>
-                    <button onClick={() => { onPlaySound?.('outside'); setPreviewItem(null); }} className="w-full bg-white text-black font-black py-6 rounded-[2rem] uppercase tracking-[0.3em] text-[11px] hover:scale-[1.02] transition-all">Close Record</button>
+                    {actionError && (
+                      <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{actionError}</p>
+                    )}
+                    <div className="flex gap-4">
+                      <button onClick={() => deleteItems([previewItem])} className="px-10 bg-red-500/10 hover:bg-red-500 text-red-500 hover:text-white font-black py-6 rounded-[2rem] uppercase tracking-[0.3em] text-[11px] transition-all">Delete</button>
+                      <select
+                        value={previewItem.folderId}
+                        onChange={(e) => moveItems([previewItem], e.target.value)}
+                        className="px-6 bg-white/5 border border-white/10 text-white font-black rounded-[2rem] uppercase tracking-[0.2em] text-[10px] focus:outline-none"
+                      >
+                        {VAULT_FOLDERS.map(folder => (
+                          <option key={folder.id} value={folder.id}>
+                            {folder.name}{folder.types.includes(previewItem.artifact.type) ? '' : ' (Explorer only)'}
+                          </option>
+                        ))}
+                      </select>
+                      <button onClick={() => { onPlaySound?.('outside'); setPreviewKey(null); }} className="flex-1 bg-white text-black font-black py-6 rounded-[2rem] uppercase tracking-[0.3em] text-[11px] hover:scale-[1.02] transition-all">Close Record</button>
+                    </div>
                  </div>
               </div>
            </div>
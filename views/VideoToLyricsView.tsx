@@ -1,7 +1,9 @@
 
 import React, { useState, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import { generateText, isAbortError } from '../services/geminiService';
 import { AppView } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface VideoToLyricsViewProps {
   onViewChange: (view: AppView) => void;
@@ -13,6 +15,7 @@ const VideoToLyricsView: React.FC<VideoToLyricsViewProps> = ({ onViewChange, onP
   const [loading, setLoading] = useState(false);
   const [lyrics, setLyrics] = useState<string | null>(null);
   const [progress, setProgress] = useState('');
+  const request = useCancellableRequest();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -35,36 +38,47 @@ const VideoToLyricsView: React.FC<VideoToLyricsViewProps> = ({ onViewChange, onP
   const handleGenerateLyrics = async () => {
     if (!selectedFile || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setLyrics(null);
     setProgress('Extracting Audio Streams...');
 
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const base64 = await fileToBase64(selectedFile);
       
       setProgress('Analyzing Musical Frequency...');
       
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
+      const response = await generateText({
         contents: {
           parts: [
             { inlineData: { data: base64, mimeType: selectedFile.type } },
             { text: "Listen to this video carefully. If there is a song, extract all the lyrics perfectly. If it is a speech, provide a full transcript. Format it beautifully with headings and structure." }
           ]
-        }
+        },
+        signal,
+        task: 'video-lyrics'
       });
 
       setLyrics(response.text || "No lyrics or speech detected in the signal.");
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       setLyrics("Neural processing failed. Please ensure the file is a valid video format (MP4, WEBM).");
     } finally {
-      setLoading(false);
-      setProgress('');
+      if (!signal.aborted) {
+        setLoading(false);
+        setProgress('');
+      }
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+    setProgress('');
+  };
+
   return (
     <div className="h-full w-full bg-transparent p-6 md:p-12 overflow-y-auto custom-scrollbar relative">
       
@@ -118,6 +132,7 @@ const VideoToLyricsView: React.FC<VideoToLyricsViewProps> = ({ onViewChange, onP
             {loading ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-music"></i>}
             <span>{loading ? progress : 'Extract Content'}</span>
           </button>
+          {loading && <CancelButton onClick={handleCancel} />}
         </div>
 
         {lyrics && (
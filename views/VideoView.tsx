@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { generateVideo } from '../services/geminiService';
-import { saveToVault, getFromVault } from '../services/storageService';
-import { AppView } from '../types';
+import { generateVideo, isAbortError } from '../services/geminiService';
+import { getModelFor, getModelInfo } from '../services/modelRegistry';
+import { videoRepository } from '../services/artifactRepository';
+import { downloadMedia, createThumbnail, randomSeed } from '../services/mediaService';
+import { AppView, Artifact, VideoArtifact } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useObjectUrl } from '../hooks/useObjectUrl';
+import CancelButton from '../components/CancelButton';
 
 const VIDEO_PROMPT_EXAMPLES = [
   {
@@ -42,12 +47,14 @@ interface VideoViewProps {
 const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [video, setVideo] = useState<Blob | null>(null);
   const [hasKey, setHasKey] = useState(false);
   const [loadingStep, setLoadingStep] = useState('');
   const [isDownloading, setIsDownloading] = useState(false);
-  const [history, setHistory] = useState<any[]>([]);
+  const [history, setHistory] = useState<Artifact<VideoArtifact>[]>([]);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const request = useCancellableRequest();
+  const videoUrl = useObjectUrl(video);
 
   useEffect(() => {
     checkKey();
@@ -55,8 +62,8 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
   }, []);
 
   const loadHistory = async () => {
-    const data = await getFromVault('neural_video_history');
-    if (data) setHistory(data);
+    const saved = await videoRepository.page({ type: 'video', limit: 10 });
+    setHistory(saved.items);
   };
 
   const checkKey = async () => {
@@ -82,24 +89,18 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
   };
 
   const handleDownload = async () => {
-    if (!videoUrl) return;
+    if (!video) return;
     setIsDownloading(true);
     try {
-      const response = await fetch(videoUrl);
-      if (!response.ok) throw new Error('Download failed');
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      const url = window.URL.createObjectURL(video);
       const a = document.createElement('a');
       a.style.display = 'none';
       a.href = url;
-      a.download = `little-ai-render-${Date.now()}.mp4`;
+      a.download = `little-ai-render-${Date.now()}.${video.type.includes('webm') ? 'webm' : 'mp4'}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
-    } catch (e) {
-      console.error("Download failed", e);
-      window.open(videoUrl, '_blank');
     } finally {
       setIsDownloading(false);
     }
@@ -108,13 +109,15 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
   const handleGenerate = async () => {
     if (!prompt.trim() || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
-    setVideoUrl(null);
+    setVideo(null);
     setLoadingStep('Initializing generation model...');
 
+    let interval: ReturnType<typeof setInterval> | undefined;
     try {
       const steps = [
-        'Connecting to Veo 3.1 Fast...',
+        `Connecting to ${getModelInfo(getModelFor('video'))?.label || 'Veo'}...`,
         'Processing prompt semantics...',
         'Generating frames (this may take a minute)...',
         'Synthesizing temporal consistency...',
@@ -122,26 +125,34 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
       ];
       
       let stepIndex = 0;
-      const interval = setInterval(() => {
+      interval = setInterval(() => {
         setLoadingStep(steps[stepIndex % steps.length]);
         stepIndex++;
       }, 10000);
 
-      const url = await generateVideo(prompt);
+      const seed = randomSeed();
+      const result = await generateVideo({ prompt, resolution: '720p', aspectRatio: '16:9', seed, signal });
       clearInterval(interval);
-      setVideoUrl(url);
 
-      const newEntry = {
-        id: Date.now().toString(),
+      // The provider's link expires, so the render is copied into the vault straight away.
+      setLoadingStep('Saving render to the vault...');
+      const blob = await downloadMedia(result.url, signal);
+      setVideo(blob);
+
+      const entry = await videoRepository.add('video', {
+        blob,
+        thumbnail: await createThumbnail(blob),
+        mimeType: blob.type,
         prompt,
-        uri: url,
-        timestamp: Date.now()
-      };
-      const newHistory = [newEntry, ...history].slice(0, 10);
-      setHistory(newHistory);
-      await saveToVault('neural_video_history', newHistory);
+        model: result.model,
+        aspectRatio: '16:9',
+        resolution: '720p',
+        seed
+      });
+      setHistory(prev => [entry, ...prev].slice(0, 10));
 
     } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
       if (e.message?.includes('Requested entity was not found')) {
         setHasKey(false);
@@ -150,11 +161,21 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
         alert("Video generation failed. Ensure you are using a paid GCP project API key.");
       }
     } finally {
-      setLoading(false);
-      setLoadingStep('');
+      clearInterval(interval);
+      if (!signal.aborted) {
+        setLoading(false);
+        setLoadingStep('');
+      }
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+    setLoadingStep('');
+  };
+
   if (!hasKey) {
     return (
       <div className="h-full flex flex-col items-center justify-center p-8 bg-[#030303] text-center relative">
@@ -210,7 +231,7 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
             Video Lab
           </h2>
           <p className="text-gray-500 text-[11px] font-black uppercase tracking-[0.4em] max-w-lg mx-auto leading-relaxed opacity-60">
-            Transform conceptual directives into cinematic motion pictures. Saved to 1TB Vault.
+            Transform conceptual directives into cinematic motion pictures. Saved to your vault.
           </p>
         </div>
 
@@ -260,6 +281,7 @@ const VideoView: React.FC<VideoViewProps> = ({ onViewChange, onPlaySound }) => {
                   <div className="w-32 h-32 border-4 border-yellow-500 border-t-transparent rounded-full animate-spin mx-auto shadow-[0_0_40px_rgba(234,179,8,0.2)]"></div>
                 </div>
                 <p className="text-3xl font-black text-white tracking-tighter uppercase">{loadingStep}</p>
+                <CancelButton onClick={handleCancel} className="mx-auto" />
               </div>
             ) : videoUrl ? (
               <video src={videoUrl} controls autoPlay className="w-full h-full bg-black block"></video>
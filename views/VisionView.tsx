@@ -1,7 +1,9 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeImage } from '../services/geminiService';
+import { analyzeImage, isAbortError } from '../services/geminiService';
 import { AppView } from '../types';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import CancelButton from '../components/CancelButton';
 
 interface VisionViewProps {
   onPlaySound?: (type: 'click' | 'settings' | 'scroll' | 'outside') => void;
@@ -16,6 +18,7 @@ const VisionView: React.FC<VisionViewProps> = ({ onPlaySound, onViewChange }) =>
   const [loading, setLoading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [isCameraActive, setIsCameraActive] = useState(false);
+  const request = useCancellableRequest();
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -96,19 +99,27 @@ const VisionView: React.FC<VisionViewProps> = ({ onPlaySound, onViewChange }) =>
   const handleProcess = async () => {
     if (!previewUrl || loading) return;
     onPlaySound?.('click');
+    const signal = request.begin();
     setLoading(true);
     setResult('');
     try {
       const base64 = previewUrl.split(',')[1];
-      const res = await analyzeImage(prompt, base64);
+      const res = await analyzeImage(prompt, base64, signal);
       setResult(res.text || "I couldn't find any words for this, my heart.");
     } catch (e) {
+      if (isAbortError(e)) return;
       setResult("The neural connection flickered... I couldn't process this image.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    onPlaySound?.('click');
+    request.cancel();
+    setLoading(false);
+  };
+
   useEffect(() => {
     return () => stopCamera();
   }, []);
@@ -242,6 +253,7 @@ const VisionView: React.FC<VisionViewProps> = ({ onPlaySound, onViewChange }) =>
                 <div className="h-full flex flex-col items-center justify-center space-y-6">
                   <div className="w-14 h-14 border-2 border-pink-500 border-t-transparent rounded-full animate-spin"></div>
                   <p className="text-[9px] font-black text-primary/40 uppercase tracking-[0.4em]">Establishing Neural Path...</p>
+                  <CancelButton onClick={handleCancel} />
                 </div>
               ) : result ? (
                 <div className="animate-in fade-in slide-in-from-bottom-4 duration-700">